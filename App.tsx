@@ -1,14 +1,35 @@
-import React, { useState, useMemo, useEffect } from 'react';
-import { AnalysisState } from './types';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { AnalysisState, RawCompanyData, ImportReport, ParsedFile, ScoringModel, SourcedRecord, DuplicateAnalysis, MergeStrategy, AnalysisSession, AnalysisProgress, FundingRound, CompanyFocus, ThemeDefinition } from './types';
 import { FileUpload } from './components/FileUpload';
+import { ImportSummary } from './components/ImportSummary';
+import { ColumnMappingWizard } from './components/ColumnMappingWizard';
 import { TrendChart } from './components/TrendChart';
 import { CompanyList } from './components/CompanyList';
 import { InvestorAnalysis } from './components/InvestorAnalysis';
 import { ScoreDistribution } from './components/ScoreDistribution';
 import { CompanyMap } from './components/CompanyMap';
 import { TableOfContents } from './components/TableOfContents';
-import { LayoutGrid, BarChart3, TrendingUp, Users, RefreshCw, ArrowUp, Download, Globe } from 'lucide-react';
+import { ScoringSettings } from './components/ScoringSettings';
+import { CurrencySettings } from './components/CurrencySettings';
+import { SavedSessions } from './components/SavedSessions';
+import { SnapshotCompare } from './components/SnapshotCompare';
+import { ProcessingIndicator } from './components/ProcessingIndicator';
+import { ThemeTaxonomyEditor } from './components/ThemeTaxonomyEditor';
+import { InvestorAliasEditor } from './components/InvestorAliasEditor';
+import { AISettings } from './components/AISettings';
+import { PromptTemplateEditor } from './components/PromptTemplateEditor';
+import { DatasetChat } from './components/DatasetChat';
+import { DEFAULT_SCORING_MODEL, describeNormalisation } from './services/scoringModel';
+import { findUnknownCurrencies } from './services/currency';
+import { EMPTY_GRAPH } from './services/coInvestment';
+import { parseFilesInWorker, processDataInWorker, AnalysisTask, AnalysisCancelledError } from './services/analysisClient';
+import { LayoutGrid, BarChart3, TrendingUp, Users, RefreshCw, ArrowUp, Download, Globe, SlidersHorizontal, Coins, Save, GitCompare, Tags, GitMerge, Bot, FileText, MessageSquare, AlertTriangle, X } from 'lucide-react';
 import { useLanguage } from './contexts/LanguageContext';
+import { useCurrency } from './contexts/CurrencyContext';
+import { useAIProvider } from './contexts/AIProviderContext';
+import { useAIResults } from './contexts/AIResultsContext';
+import { useThemes } from './contexts/ThemeContext';
+import { useInvestorAliases } from './contexts/InvestorAliasContext';
 
 const StatCard = ({ title, value, subtext, icon: Icon }: { title: string, value: string, subtext: string, icon: any }) => (
     <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm flex items-start justify-between">
@@ -25,13 +46,57 @@ const StatCard = ({ title, value, subtext, icon: Icon }: { title: string, value:
 
 const App: React.FC = () => {
   const { t, language, toggleLanguage } = useLanguage();
+  const { currency, setCurrency, rates, setRates } = useCurrency();
+  const { settings: aiSettings } = useAIProvider();
+  const { results: aiResults, replaceResults, clearResults } = useAIResults();
+  const { themes, setThemes, minConfidence, setMinConfidence } = useThemes();
+  const { dictionary: investorAliases, setDictionary: setInvestorAliases } = useInvestorAliases();
   const [data, setData] = useState<AnalysisState>({
     companies: [],
     trends: [],
     investors: [],
+    network: EMPTY_GRAPH,
     isProcessing: false,
   });
 
+  // Parsed files waiting for the user to confirm their column mapping
+  const [pendingFiles, setPendingFiles] = useState<ParsedFile[] | null>(null);
+  // Parsed rows held back until the user has reviewed the import report and duplicates
+  const [pendingImport, setPendingImport] = useState<{ records: SourcedRecord[], reports: ImportReport[], duplicates: DuplicateAnalysis } | null>(null);
+  // Why the last import step failed, as a translation key plus the raw error for the tooltip
+  const [importError, setImportError] = useState<{ message: string, detail?: string } | null>(null);
+
+  // Accepted rows are kept so the dashboard can be re-scored when weights change
+  const [rawRows, setRawRows] = useState<RawCompanyData[]>([]);
+  // Rows of an uploaded Funding Rounds export, joined to companies when scoring
+  const [fundingRounds, setFundingRounds] = useState<FundingRound[] | null>(null);
+  // Rounds uploaded with the organisations file, held until its import is confirmed
+  const [pendingRounds, setPendingRounds] = useState<FundingRound[] | null>(null);
+  const [scoringModel, setScoringModel] = useState<ScoringModel>(DEFAULT_SCORING_MODEL);
+  const [showScoringPanel, setShowScoringPanel] = useState(false);
+  const [showCurrencyPanel, setShowCurrencyPanel] = useState(false);
+  const [showThemePanel, setShowThemePanel] = useState(false);
+  const [showAliasPanel, setShowAliasPanel] = useState(false);
+  const [showAIPanel, setShowAIPanel] = useState(false);
+  const [showTemplatePanel, setShowTemplatePanel] = useState(false);
+  const [showChatPanel, setShowChatPanel] = useState(false);
+  // Rows a chat answer linked to; the company list shows only these until cleared
+  const [companyFocus, setCompanyFocus] = useState<CompanyFocus | null>(null);
+  const [showCompare, setShowCompare] = useState(false);
+
+  // The saved session the dashboard was opened from or last saved to
+  const [session, setSession] = useState<{ id: string, name: string, createdAt: number } | null>(null);
+  const [sourceFiles, setSourceFiles] = useState<string[]>([]);
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+
+  // Parsing and scoring run in a worker; the running task is kept so it can be cancelled
+  const taskRef = useRef<AnalysisTask<unknown> | null>(null);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  // Set when a re-score was cancelled or failed, so the dashboard shows results for earlier settings
+  const [staleResults, setStaleResults] = useState(false);
+  // Bumped to re-run scoring with unchanged inputs
+  const [rescoreRequest, setRescoreRequest] = useState(0);
+
   const [showScrollTop, setShowScrollTop] = useState(false);
 
   useEffect(() => {
@@ -47,44 +112,271 @@ const App: React.FC = () => {
     return () => window.removeEventListener('scroll', handleScroll);
   }, []);
 
-  const scrollToTop = () => {
-    window.scrollTo({ top: 0, behavior: 'smooth' });
-  };
-
-  const handleDataLoaded = (filesContent: string[]) => {
+  // Re-score and re-rank whenever the dataset, the scoring model, the FX rates or the themes change
+  useEffect(() => {
+    if (rawRows.length === 0) return;
+    setImportError(null);
     setData(prev => ({ ...prev, isProcessing: true }));
-    
-    // Simulate async for UI responsiveness
-    setTimeout(() => {
-        import('./services/dataProcessing').then(module => {
-            // Parse all files and flatten into a single array
-            const allRawData = filesContent.flatMap(content => module.parseCSV(content));
-            
-            // Process the merged data
-            const processed = module.processData(allRawData);
-            
+
+    const task = processDataInWorker(rawRows, { model: scoringModel, fxRates: rates, themes, minThemeConfidence: minConfidence, fundingRounds: fundingRounds || undefined, investorAliases: investorAliases.aliases }, setProgress);
+    taskRef.current = task;
+
+    task.promise
+        .then(processed => {
             setData({
                 companies: processed.companies,
                 trends: processed.trends,
                 investors: processed.investors,
+                network: processed.network,
+                meta: processed.meta,
                 isProcessing: false
             });
+            setStaleResults(false);
+        })
+        .catch(error => {
+            // A newer run or the cancel button replaced this one
+            if (error instanceof AnalysisCancelledError) return;
+            console.error("Failed to process data:", error);
+            setImportError({ message: 'analysis_failed', detail: String(error) });
+            setStaleResults(true);
+            setData(prev => ({ ...prev, isProcessing: false }));
+        })
+        .finally(() => {
+            if (taskRef.current !== task) return;
+            taskRef.current = null;
+            setProgress(null);
+        });
+
+    return () => task.cancel();
+  }, [rawRows, fundingRounds, scoringModel, rates, themes, minConfidence, investorAliases.aliases, rescoreRequest]);
+
+  const unknownCurrencies = useMemo(() => findUnknownCurrencies(rawRows, rates), [rawRows, rates]);
+
+  const scrollToTop = () => {
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // A focus from an earlier dataset would match none of the new rows
+  useEffect(() => {
+    setCompanyFocus(null);
+  }, [rawRows]);
+
+  const handleShowCompanies = (focus: CompanyFocus) => {
+    setCompanyFocus(focus);
+    document.getElementById('companies-section')?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  const handleDataLoaded = (files: File[]) => {
+    setImportError(null);
+    setData(prev => ({ ...prev, isProcessing: true }));
+    const task = parseFilesInWorker(files, setProgress);
+    taskRef.current = task;
+    
+    Promise.all([
+        task.promise,
+        import('./services/columnMapping'),
+        import('./services/fundingRounds')
+    ]).then(([results, mapper, roundsParser]) => {
+        // Funding Rounds exports are joined to the organisations, not imported as companies
+        const isRounds = results.map(result => roundsParser.isFundingRoundsFile(result.headers));
+        const rounds = results.filter((_, idx) => isRounds[idx]).flatMap(result => roundsParser.parseFundingRounds(result.rows));
+        setPendingRounds(isRounds.some(Boolean) ? rounds : null);
+
+        // Pick a saved profile or a suggested mapping for each parsed file
+        const profiles = mapper.loadMappingProfiles();
+        const parsed: ParsedFile[] = results
+            .map((result, idx) => ({
+                fileName: files[idx].name,
+                result,
+                mapping: mapper.findMatchingProfile(result.headers, profiles)?.mapping || mapper.suggestMapping(result.headers)
+            }))
+            .filter((_, idx) => !isRounds[idx]);
+
+        setData(prev => ({ ...prev, isProcessing: false }));
+        if (parsed.length === 0) {
+            // Rounds have nothing to join to on their own, so they are dropped rather than kept for a later upload
+            setPendingRounds(null);
+            setImportError({ message: 'import_rounds_only' });
+            return;
+        }
+
+        // Plain Crunchbase exports skip the mapping step
+        const needsMapping = parsed.some(f => !mapper.isIdentityMapping(f.mapping) || !f.result.headers.includes("Organization Name"));
+        if (needsMapping) {
+            setPendingFiles(parsed);
+        } else {
+            handleMappingConfirmed(parsed);
+        }
+    }).catch(error => {
+        setData(prev => ({ ...prev, isProcessing: false }));
+        if (error instanceof AnalysisCancelledError) return;
+        console.error("Failed to parse files:", error);
+        setImportError({ message: 'import_parse_failed', detail: String(error) });
+    }).finally(() => {
+        if (taskRef.current !== task) return;
+        taskRef.current = null;
+        setProgress(null);
+    });
+  };
+
+  const handleCancelProcessing = () => {
+    taskRef.current?.cancel();
+    taskRef.current = null;
+    setProgress(null);
+    setData(prev => ({ ...prev, isProcessing: false }));
+    // Nothing to fall back to on a first load, so drop the rows instead of leaving a blank screen
+    if (data.companies.length === 0) setRawRows([]);
+    // Otherwise the earlier results stay up, flagged until they are re-scored with the current settings
+    else setStaleResults(true);
+  };
+
+  const handleMappingConfirmed = (files: ParsedFile[]) => {
+    setPendingFiles(null);
+    setImportError(null);
+    Promise.all([
+        import('./services/columnMapping'),
+        import('./services/importReport'),
+        import('./services/entityResolution')
+    ]).then(([mapper, importer, resolver]) => {
+        const validated = files.map(f => importer.buildImportReport(f.fileName, mapper.applyMappingToResult(f.result, f.mapping)));
+        const records: SourcedRecord[] = validated.flatMap((v, idx) => v.rows.map(row => ({ fileName: files[idx].fileName, row })));
+        setPendingImport({
+            records,
+            reports: validated.map(v => v.report),
+            duplicates: resolver.findDuplicates(records)
         });
-    }, 100);
+    }).catch(error => {
+        // Back to the wizard, so the mapping can be changed and confirmed again
+        console.error("Failed to apply column mapping:", error);
+        setImportError({ message: 'import_mapping_failed', detail: String(error) });
+        setPendingFiles(files);
+    });
+  };
+
+  const handleImportConfirmed = (strategy: MergeStrategy, confirmedIds: string[]) => {
+    if (!pendingImport) return;
+    const { records, duplicates } = pendingImport;
+    setData(prev => ({ ...prev, isProcessing: true }));
+    setPendingImport(null);
+    setImportError(null);
+
+    import('./services/entityResolution').then(resolver => {
+        const groups = [...duplicates.matches, ...duplicates.ambiguous.filter(g => confirmedIds.includes(g.id))];
+        // Merge first, so a failure leaves the previous state untouched
+        const rows = resolver.mergeDuplicates(records, groups, strategy);
+        // Company ids are positional, so AI results from a previous dataset no longer apply
+        clearResults();
+        setSession(null);
+        setFundingRounds(pendingRounds);
+        setPendingRounds(null);
+        setSourceFiles([...new Set(records.map(r => r.fileName))]);
+        setRawRows(rows);
+    }).catch(error => {
+        // Back to the summary with the same rows, so the merge can be retried
+        console.error("Failed to merge duplicates:", error);
+        setImportError({ message: 'import_merge_failed', detail: String(error) });
+        setPendingImport(pendingImport);
+        setData(prev => ({ ...prev, isProcessing: false }));
+    });
   };
 
   const handleReset = () => {
+    setImportError(null);
+    setStaleResults(false);
+    setPendingFiles(null);
+    setPendingImport(null);
+    setRawRows([]);
+    setFundingRounds(null);
+    setPendingRounds(null);
+    setShowScoringPanel(false);
+    setShowCurrencyPanel(false);
+    setShowThemePanel(false);
+    setShowCompare(false);
+    setSession(null);
+    setSourceFiles([]);
+    setSaveStatus('idle');
+    clearResults();
     setData({
       companies: [],
       trends: [],
       investors: [],
+      network: EMPTY_GRAPH,
       isProcessing: false,
     });
   };
 
+  const handleSaveSession = () => {
+    const now = Date.now();
+    const target = session || {
+        id: '',
+        name: `${sourceFiles[0] || t('app_name')} (${new Date(now).toLocaleDateString()})`,
+        createdAt: now
+    };
+    setSaveStatus('saving');
+
+    import('./services/sessionStore').then(store => {
+        const saved: AnalysisSession = {
+            ...target,
+            id: target.id || store.createSessionId(),
+            updatedAt: now,
+            companyCount: data.companies.length,
+            sourceFiles,
+            rows: rawRows,
+            fundingRounds: fundingRounds || undefined,
+            scoringModel,
+            currency,
+            fxRates: rates,
+            themes,
+            minThemeConfidence: minConfidence,
+            investorAliases,
+            aiResults
+        };
+        return store.saveSession(saved).then(() => {
+            setSession({ id: saved.id, name: saved.name, createdAt: saved.createdAt });
+            setSaveStatus('saved');
+        });
+    }).catch(error => {
+        console.error("Failed to save session:", error);
+        setSaveStatus('error');
+    });
+  };
+
+  const handleOpenSession = (id: string) => {
+    setData(prev => ({ ...prev, isProcessing: true }));
+    import('./services/sessionStore')
+        .then(store => store.loadSession(id))
+        .then(saved => {
+            if (!saved) {
+                setData(prev => ({ ...prev, isProcessing: false }));
+                return;
+            }
+            setScoringModel(saved.scoringModel);
+            setCurrency(saved.currency);
+            setRates(saved.fxRates);
+            if (saved.themes) setThemes(saved.themes);
+            if (saved.minThemeConfidence) setMinConfidence(saved.minThemeConfidence);
+            if (saved.investorAliases) setInvestorAliases(saved.investorAliases);
+            replaceResults(saved.aiResults);
+            setSourceFiles(saved.sourceFiles);
+            setSession({ id: saved.id, name: saved.name, createdAt: saved.createdAt });
+            setSaveStatus('idle');
+            setFundingRounds(saved.fundingRounds || null);
+            setRawRows(saved.rows);
+        })
+        .catch(error => {
+            console.error("Failed to open session:", error);
+            setData(prev => ({ ...prev, isProcessing: false }));
+        });
+  };
+
+  // Anything that changes what a save would write marks the session as unsaved
+  useEffect(() => {
+    setSaveStatus(prev => prev === 'saved' ? 'idle' : prev);
+  }, [rawRows, fundingRounds, scoringModel, currency, rates, themes, minConfidence, investorAliases, aiResults]);
+
   const handleExportCSV = () => {
     import('./services/dataProcessing').then(module => {
-        module.exportCompaniesToCSV(data.companies);
+        module.exportCompaniesToCSV(data.companies, currency, rates, data.meta);
     });
   };
 
@@ -98,22 +390,41 @@ const App: React.FC = () => {
         ? scores[mid] 
         : (scores[mid - 1] + scores[mid]) / 2;
 
-    const aiCount = data.companies.filter(c => c.themes.ai).length;
+    // The theme covering the most companies, whichever themes are configured
+    const leading = themes
+        .map(theme => ({ theme, count: data.companies.filter(c => c.themes.includes(theme.id)).length }))
+        .reduce<{ theme: ThemeDefinition, count: number } | null>((best, entry) => !best || entry.count > best.count ? entry : best, null);
     const highPotential = data.companies.filter(c => c.scores.potential > 80).length;
 
     return {
         count: data.companies.length,
         medianScore: medianScore.toFixed(1),
-        aiSaturation: ((aiCount / data.companies.length) * 100).toFixed(1),
+        leadingTheme: leading && leading.count > 0 ? {
+            name: leading.theme.name,
+            share: ((leading.count / data.companies.length) * 100).toFixed(1)
+        } : null,
         highPotential
     };
-  }, [data.companies]);
+  }, [data.companies, themes]);
 
   // Extract top 20 prominent investors
   const prominentInvestors = useMemo(() => {
     return data.investors.slice(0, 20).map(i => i.name);
   }, [data.investors]);
 
+  // Shown above the upload steps on the landing page and above the dashboard once data is loaded
+  const importErrorNotice = importError && (
+    <div className="flex items-start justify-between gap-3 bg-rose-50/60 border border-rose-100 rounded-lg p-3 text-sm text-rose-700 print:hidden">
+        <p className="flex items-start gap-2" title={importError.detail}>
+            <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />
+            <span>{t(importError.message)}</span>
+        </p>
+        <button onClick={() => setImportError(null)} className="text-rose-400 hover:text-rose-600 flex-shrink-0" title={t('dismiss')}>
+            <X size={16} />
+        </button>
+    </div>
+  );
+
   return (
     <div className="min-h-screen bg-slate-50 pb-20">
       {/* Header */}
@@ -138,6 +449,73 @@ const App: React.FC = () => {
 
                 {data.companies.length > 0 && (
                     <div className="flex items-center gap-2">
+                        <button 
+                            onClick={() => setShowScoringPanel(!showScoringPanel)}
+                            className={`flex items-center space-x-2 text-sm font-medium px-3 py-2 rounded-md hover:bg-slate-50 transition-colors ${showScoringPanel ? 'text-indigo-600' : 'text-slate-600 hover:text-indigo-600'}`}
+                        >
+                            <SlidersHorizontal size={16} />
+                            <span>{t('scoring')}</span>
+                        </button>
+                        <button 
+                            onClick={() => setShowThemePanel(!showThemePanel)}
+                            className={`flex items-center space-x-2 text-sm font-medium px-3 py-2 rounded-md hover:bg-slate-50 transition-colors ${showThemePanel ? 'text-indigo-600' : 'text-slate-600 hover:text-indigo-600'}`}
+                        >
+                            <Tags size={16} />
+                            <span>{t('themes')}</span>
+                        </button>
+                        <button 
+                            onClick={() => setShowAliasPanel(!showAliasPanel)}
+                            className={`flex items-center space-x-2 text-sm font-medium px-3 py-2 rounded-md hover:bg-slate-50 transition-colors ${showAliasPanel ? 'text-indigo-600' : 'text-slate-600 hover:text-indigo-600'}`}
+                        >
+                            <GitMerge size={16} />
+                            <span>{t('aliases')}</span>
+                        </button>
+                        <button 
+                            onClick={() => setShowCurrencyPanel(!showCurrencyPanel)}
+                            className={`flex items-center space-x-2 text-sm font-medium px-3 py-2 rounded-md hover:bg-slate-50 transition-colors ${showCurrencyPanel ? 'text-indigo-600' : 'text-slate-600 hover:text-indigo-600'}`}
+                        >
+                            <Coins size={16} />
+                            <span>{currency}</span>
+                        </button>
+                        <button 
+                            onClick={() => setShowChatPanel(!showChatPanel)}
+                            className={`flex items-center space-x-2 text-sm font-medium px-3 py-2 rounded-md hover:bg-slate-50 transition-colors ${showChatPanel ? 'text-indigo-600' : 'text-slate-600 hover:text-indigo-600'}`}
+                        >
+                            <MessageSquare size={16} />
+                            <span>{t('ask')}</span>
+                        </button>
+                        <button 
+                            onClick={() => setShowAIPanel(!showAIPanel)}
+                            className={`flex items-center space-x-2 text-sm font-medium px-3 py-2 rounded-md hover:bg-slate-50 transition-colors ${showAIPanel ? 'text-indigo-600' : 'text-slate-600 hover:text-indigo-600'}`}
+                        >
+                            <Bot size={16} />
+                            <span>{t(`ai_provider_${aiSettings.kind}`)}</span>
+                        </button>
+                        <button 
+                            onClick={() => setShowTemplatePanel(!showTemplatePanel)}
+                            className={`flex items-center space-x-2 text-sm font-medium px-3 py-2 rounded-md hover:bg-slate-50 transition-colors ${showTemplatePanel ? 'text-indigo-600' : 'text-slate-600 hover:text-indigo-600'}`}
+                        >
+                            <FileText size={16} />
+                            <span>{t('templates')}</span>
+                        </button>
+                        <button 
+                            onClick={() => setShowCompare(!showCompare)}
+                            className={`flex items-center space-x-2 text-sm font-medium px-3 py-2 rounded-md hover:bg-slate-50 transition-colors ${showCompare ? 'text-indigo-600' : 'text-slate-600 hover:text-indigo-600'}`}
+                        >
+                            <GitCompare size={16} />
+                            <span>{t('compare')}</span>
+                        </button>
+                        <div className="h-6 w-px bg-slate-200"></div>
+                        <button 
+                            onClick={handleSaveSession}
+                            disabled={saveStatus === 'saving'}
+                            title={session?.name}
+                            className={`flex items-center space-x-2 text-sm font-medium px-3 py-2 rounded-md hover:bg-slate-50 transition-colors disabled:opacity-50 ${saveStatus === 'error' ? 'text-rose-600' : saveStatus === 'saved' ? 'text-emerald-600' : 'text-slate-600 hover:text-indigo-600'}`}
+                        >
+                            <Save size={16} />
+                            <span>{saveStatus === 'saved' ? t('session_saved') : saveStatus === 'error' ? t('session_save_failed') : t('save_session')}</span>
+                        </button>
+                        <div className="h-6 w-px bg-slate-200"></div>
                         <button 
                             onClick={handleExportCSV}
                             className="flex items-center space-x-2 text-sm font-medium text-slate-600 hover:text-indigo-600 px-3 py-2 rounded-md hover:bg-slate-50 transition-colors"
@@ -165,21 +543,132 @@ const App: React.FC = () => {
       <div id="report-container">
           <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-8 space-y-8">
             
-            {data.companies.length === 0 ? (
+            {showCompare ? (
+                <SnapshotCompare
+                    current={data.companies}
+                    model={scoringModel}
+                    onClose={() => setShowCompare(false)}
+                />
+            ) : data.companies.length === 0 ? (
                 <div className="flex flex-col items-center justify-center min-h-[60vh]">
                     <div className="text-center max-w-lg mb-8">
                         <h2 className="text-3xl font-bold text-slate-900 mb-4">{t('start_analysis')}</h2>
                         <p className="text-slate-600 text-lg">{t('upload_instruction')}</p>
                     </div>
-                    <FileUpload onDataLoaded={handleDataLoaded} />
+                    {importError && <div className="w-full max-w-2xl mb-6">{importErrorNotice}</div>}
+                    {pendingFiles ? (
+                        <ColumnMappingWizard
+                            files={pendingFiles}
+                            onConfirm={handleMappingConfirmed}
+                            onCancel={() => setPendingFiles(null)}
+                        />
+                    ) : pendingImport ? (
+                        <ImportSummary
+                            reports={pendingImport.reports}
+                            records={pendingImport.records}
+                            duplicates={pendingImport.duplicates}
+                            roundCount={pendingRounds?.length}
+                            onContinue={handleImportConfirmed}
+                            onCancel={() => setPendingImport(null)}
+                        />
+                    ) : (
+                        <>
+                            <FileUpload onDataLoaded={handleDataLoaded} />
+                            <button
+                                onClick={() => setShowCompare(true)}
+                                className="mt-4 flex items-center gap-2 text-sm font-medium text-slate-500 hover:text-indigo-600 transition-colors"
+                            >
+                                <GitCompare size={16} /> {t('compare_two_snapshots')}
+                            </button>
+                            <SavedSessions onOpen={handleOpenSession} />
+                        </>
+                    )}
                     {data.isProcessing && (
-                        <div className="mt-8 flex items-center space-x-2 text-indigo-600 font-medium animate-pulse">
-                            <span>{t('crunching')}</span>
+                        <div className="mt-8">
+                            <ProcessingIndicator progress={progress} onCancel={handleCancelProcessing} />
                         </div>
                     )}
                 </div>
             ) : (
                 <>
+                    {/* Re-scoring after a settings change */}
+                    {data.isProcessing && <ProcessingIndicator progress={progress} onCancel={handleCancelProcessing} />}
+                    {importError && importErrorNotice}
+                    {staleResults && !data.isProcessing && (
+                        <div className="flex items-center justify-between gap-3 bg-amber-50 border border-amber-100 rounded-lg p-3 text-sm text-amber-700 print:hidden">
+                            <p className="flex items-center gap-2">
+                                <AlertTriangle size={16} className="flex-shrink-0" /> {t('results_stale')}
+                            </p>
+                            <button
+                                onClick={() => setRescoreRequest(n => n + 1)}
+                                className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-amber-200 rounded-lg text-xs font-medium hover:bg-amber-100 transition-colors flex-shrink-0"
+                            >
+                                <RefreshCw size={14} /> {t('rescore')}
+                            </button>
+                        </div>
+                    )}
+
+                    {/* Scoring Model Settings */}
+                    {showScoringPanel && (
+                        <ScoringSettings
+                            model={scoringModel}
+                            onChange={setScoringModel}
+                            onClose={() => setShowScoringPanel(false)}
+                        />
+                    )}
+
+                    {/* Theme Taxonomy */}
+                    {showThemePanel && (
+                        <ThemeTaxonomyEditor
+                            companies={data.companies}
+                            onClose={() => setShowThemePanel(false)}
+                        />
+                    )}
+
+                    {/* Investor Aliases */}
+                    {showAliasPanel && (
+                        <InvestorAliasEditor
+                            companies={data.companies}
+                            onClose={() => setShowAliasPanel(false)}
+                        />
+                    )}
+
+                    {/* Currency & FX Settings */}
+                    {showCurrencyPanel && (
+                        <CurrencySettings
+                            unknownCurrencies={unknownCurrencies}
+                            onClose={() => setShowCurrencyPanel(false)}
+                        />
+                    )}
+
+                    {/* AI Provider */}
+                    {showAIPanel && (
+                        <AISettings onClose={() => setShowAIPanel(false)} />
+                    )}
+
+                    {/* Dataset Q&A */}
+                    {showChatPanel && (
+                        <DatasetChat
+                            companies={data.companies}
+                            investors={data.investors}
+                            trends={data.trends}
+                            onShowCompanies={handleShowCompanies}
+                            onClose={() => setShowChatPanel(false)}
+                        />
+                    )}
+
+                    {/* Prompt Templates */}
+                    {showTemplatePanel && (
+                        <PromptTemplateEditor onClose={() => setShowTemplatePanel(false)} />
+                    )}
+
+                    {/* Scoring provenance, so screenshots and exports can be traced back to a model */}
+                    {data.meta && (
+                        <p className="text-xs text-slate-400 -mb-4">
+                            {t('scored_with')} <span className="font-medium text-slate-500">{data.meta.modelName}</span> · {describeNormalisation(data.meta.normalisation)}
+                        </p>
+                    )}
+
                     {/* Stats Grid */}
                     {stats && (
                         <div id="stats-section" className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
@@ -202,9 +691,9 @@ const App: React.FC = () => {
                                 icon={TrendingUp}
                             />
                             <StatCard 
-                                title={t('ai_saturation')}
-                                value={`${stats.aiSaturation}%`} 
-                                subtext={t('companies_leveraging')}
+                                title={t('leading_theme')}
+                                value={stats.leadingTheme ? `${stats.leadingTheme.share}%` : '-'}
+                                subtext={stats.leadingTheme ? `${t('companies_in_theme')}: ${stats.leadingTheme.name}` : t('none')}
                                 icon={LayoutGrid}
                             />
                         </div>
@@ -230,13 +719,18 @@ const App: React.FC = () => {
                     {/* 4. Investor Analysis (Full Width) */}
                     {data.investors.length > 0 && (
                         <div id="investors-section" className="w-full">
-                            <InvestorAnalysis investors={data.investors} />
+                            <InvestorAnalysis investors={data.investors} network={data.network} />
                         </div>
                     )}
 
                     {/* Main Table */}
                     <div id="companies-section">
-                        <CompanyList companies={data.companies} prominentInvestors={prominentInvestors} />
+                        <CompanyList
+                            companies={data.companies}
+                            prominentInvestors={prominentInvestors}
+                            focus={companyFocus}
+                            onClearFocus={() => setCompanyFocus(null)}
+                        />
                     </div>
                 </>
             )}
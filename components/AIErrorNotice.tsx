@@ -0,0 +1,30 @@
+import React from 'react';
+import { AlertTriangle, RotateCcw } from 'lucide-react';
+import { AIError } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface AIErrorNoticeProps {
+  error: AIError;
+  onRetry: () => void;
+  retrying?: boolean;
+}
+
+// A failed AI request: what went wrong in plain words, the raw message on hover, and a retry
+export const AIErrorNotice: React.FC<AIErrorNoticeProps> = ({ error, onRetry, retrying }) => {
+  const { t } = useLanguage();
+  return (
+    <div className="flex items-start justify-between gap-3 bg-rose-50/60 border border-rose-100 rounded-lg p-3 text-xs text-rose-700">
+        <p className="flex items-start gap-1.5" title={error.message}>
+            <AlertTriangle size={14} className="flex-shrink-0 mt-px" />
+            <span>{t(`ai_error_${error.kind}`)}</span>
+        </p>
+        <button
+            onClick={(e) => { e.stopPropagation(); onRetry(); }}
+            disabled={retrying}
+            className="flex items-center gap-1 px-2 py-1 bg-white border border-rose-200 rounded-md font-medium hover:border-rose-400 disabled:opacity-50 flex-shrink-0 print:hidden"
+        >
+            <RotateCcw size={12} className={retrying ? 'animate-spin' : ''} /> {t('retry')}
+        </button>
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React from 'react';
+import { Bot, X, RotateCcw, CheckCircle2, AlertTriangle, Trash2 } from 'lucide-react';
+import { AIProviderSettings } from '../types';
+import { AI_PROVIDER_KINDS, DEFAULT_AI_PROVIDER, hasGeminiKey } from '../services/aiProviders';
+import { clearAIResponseCache } from '../services/aiRequests';
+import { useAIProvider } from '../contexts/AIProviderContext';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface AISettingsProps {
+  onClose: () => void;
+}
+
+export const AISettings: React.FC<AISettingsProps> = ({ onClose }) => {
+  const { t } = useLanguage();
+  const { settings, setSettings } = useAIProvider();
+
+  const update = (patch: Partial<AIProviderSettings>) => setSettings({ ...settings, ...patch });
+
+  const handleLimitChange = (key: 'requestsPerMinute' | 'maxConcurrentRequests', value: string) => {
+    const limit = parseInt(value, 10);
+    if (!isNaN(limit) && limit >= 1) update({ [key]: limit });
+  };
+
+  const inputClass = "w-full text-xs px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-slate-700 focus:outline-none focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500";
+  const labelClass = "block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1";
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 print:hidden">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+            <div>
+                <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+                    <Bot size={20} className="text-indigo-600" /> {t('ai_settings')}
+                </h3>
+                <p className="text-sm text-slate-500">{t('ai_settings_desc')}</p>
+            </div>
+            <div className="flex items-center gap-2">
+                <div className="flex bg-slate-100 p-1 rounded-lg">
+                    {AI_PROVIDER_KINDS.map(kind => (
+                        <button
+                            key={kind}
+                            onClick={() => update({ kind })}
+                            className={`px-3 py-1 text-xs font-semibold rounded-md transition-all ${settings.kind === kind ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                        >
+                            {t(`ai_provider_${kind}`)}
+                        </button>
+                    ))}
+                </div>
+                <button
+                    onClick={() => setSettings(DEFAULT_AI_PROVIDER)}
+                    className="p-2 text-slate-400 hover:text-indigo-600 rounded-lg border border-slate-200"
+                    title={t('reset_ai_settings')}
+                >
+                    <RotateCcw size={14} />
+                </button>
+                <button onClick={onClose} className="text-slate-400 hover:text-slate-600 ml-2">
+                    <X size={18} />
+                </button>
+            </div>
+        </div>
+
+        <p className="text-xs text-slate-500 mb-4">{t(`ai_provider_${settings.kind}_desc`)}</p>
+
+        {settings.kind === 'gemini' && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                    <label className={labelClass}>{t('ai_model')}</label>
+                    <input type="text" value={settings.geminiModel} onChange={(e) => update({ geminiModel: e.target.value })} className={inputClass} />
+                </div>
+                <div className="flex items-end">
+                    {hasGeminiKey() ? (
+                        <p className="text-xs text-emerald-600 flex items-center gap-1.5"><CheckCircle2 size={14} /> {t('gemini_key_found')}</p>
+                    ) : (
+                        <p className="text-xs text-amber-700 flex items-center gap-1.5"><AlertTriangle size={14} /> {t('gemini_key_missing')}</p>
+                    )}
+                </div>
+            </div>
+        )}
+
+        {settings.kind === 'openai' && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                    <label className={labelClass}>{t('ai_base_url')}</label>
+                    <input type="text" value={settings.openaiBaseUrl} onChange={(e) => update({ openaiBaseUrl: e.target.value })} placeholder={DEFAULT_AI_PROVIDER.openaiBaseUrl} className={inputClass} />
+                </div>
+                <div>
+                    <label className={labelClass}>{t('ai_model')}</label>
+                    <input type="text" value={settings.openaiModel} onChange={(e) => update({ openaiModel: e.target.value })} placeholder={DEFAULT_AI_PROVIDER.openaiModel} className={inputClass} />
+                </div>
+                <div>
+                    <label className={labelClass}>{t('ai_api_key')}</label>
+                    <input type="password" value={settings.openaiApiKey} onChange={(e) => update({ openaiApiKey: e.target.value })} placeholder={t('optional')} className={inputClass} />
+                </div>
+            </div>
+        )}
+
+        {/* Request Limits */}
+        {settings.kind !== 'mock' && (
+            <div className="mt-6 pt-4 border-t border-slate-100">
+                <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">{t('ai_rate_limits')}</h4>
+                <p className="text-[11px] text-slate-400 mb-3">{t('ai_rate_limits_hint')}</p>
+                <div className="flex flex-wrap items-end gap-4">
+                    <div className="w-40">
+                        <label className="block text-[11px] text-slate-500 mb-1">{t('requests_per_minute')}</label>
+                        <input type="number" min="1" value={settings.requestsPerMinute} onChange={(e) => handleLimitChange('requestsPerMinute', e.target.value)} className={inputClass} />
+                    </div>
+                    <div className="w-40">
+                        <label className="block text-[11px] text-slate-500 mb-1">{t('max_concurrent_requests')}</label>
+                        <input type="number" min="1" value={settings.maxConcurrentRequests} onChange={(e) => handleLimitChange('maxConcurrentRequests', e.target.value)} className={inputClass} />
+                    </div>
+                    <button
+                        onClick={clearAIResponseCache}
+                        className="ml-auto flex items-center gap-1.5 px-3 py-2 border border-slate-200 text-slate-600 hover:text-rose-600 hover:border-rose-200 rounded-lg text-xs font-medium transition-colors"
+                    >
+                        <Trash2 size={14} /> {t('clear_ai_cache')}
+                    </button>
+                </div>
+            </div>
+        )}
+    </div>
+  );
+};
@@ -0,0 +1,214 @@
+import React, { useState, useRef } from 'react';
+import { Layers, X, Play, Pause, Square, RotateCcw, CheckCircle2, Circle, AlertTriangle, MinusCircle } from 'lucide-react';
+import { ScoredCompany, BatchProgress, BatchItemStatus } from '../types';
+import { generateInvestmentAnalysis, generateLiveIntelligence } from '../services/geminiService';
+import { toAIRequestError } from '../services/aiProviders';
+import { createBatchQueue, BatchQueue } from '../services/batchQueue';
+import { useAIResults } from '../contexts/AIResultsContext';
+import { useAIProvider } from '../contexts/AIProviderContext';
+import { usePromptTemplates } from '../contexts/PromptTemplateContext';
+import { useThemes } from '../contexts/ThemeContext';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface BatchMemoPanelProps {
+  companies: ScoredCompany[]; // In ranking order
+  selected: ScoredCompany[];
+  onSelect: (company: ScoredCompany) => void;
+  onClose: () => void;
+}
+
+const DEFAULT_TOP_N = 25;
+
+const STATUS_ICONS: Record<BatchItemStatus, React.ReactNode> = {
+  queued: <Circle size={12} className="text-slate-300" />,
+  running: <div className="w-3 h-3 border-2 border-indigo-600/30 border-t-indigo-600 rounded-full animate-spin" />,
+  done: <CheckCircle2 size={12} className="text-emerald-600" />,
+  skipped: <MinusCircle size={12} className="text-slate-400" />,
+  failed: <AlertTriangle size={12} className="text-rose-600" />
+};
+
+/**
+ * Generates memos (and optionally live intel) for the top of the ranking or
+ * for the selected rows. Results go into the shared AI results store, so the
+ * expanded rows show them as they arrive; companies that already have them
+ * (a memo from the active template) are skipped.
+ */
+export const BatchMemoPanel: React.FC<BatchMemoPanelProps> = ({ companies, selected, onSelect, onClose }) => {
+  const { t } = useLanguage();
+  const { results, setResult, setError } = useAIResults();
+  const { settings, provider } = useAIProvider();
+  const { getActiveTemplate } = usePromptTemplates();
+  const template = getActiveTemplate('company');
+  const { getTheme } = useThemes();
+  const themeName = (id: string) => getTheme(id)?.name || id;
+  const [scope, setScope] = useState<'top' | 'selected'>(selected.length > 0 ? 'selected' : 'top');
+  const [topN, setTopN] = useState(DEFAULT_TOP_N);
+  const [includeIntel, setIncludeIntel] = useState(false);
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
+  const queueRef = useRef<BatchQueue | null>(null);
+
+  // Jobs check the store when they start, not when they were queued, so a memo generated meanwhile from the row is not redone
+  const resultsRef = useRef(results);
+  resultsRef.current = results;
+
+  const targets = scope === 'selected' ? selected : companies.slice(0, topN);
+  const isActive = progress?.state === 'running' || progress?.state === 'paused';
+  const completed = progress ? progress.items.filter(i => i.status !== 'queued' && i.status !== 'running').length : 0;
+  const count = (status: BatchItemStatus) => progress ? progress.items.filter(i => i.status === status).length : 0;
+
+  const runCompany = async (company: ScoredCompany): Promise<'done' | 'skipped'> => {
+    let didWork = false;
+    let failure: Error | null = null;
+
+    if (resultsRef.current.companyAnalyses[company.id]?.templateId !== template.id) {
+      didWork = true;
+      try {
+        setResult('companyAnalyses', company.id, await generateInvestmentAnalysis(company, template, provider, themeName));
+      } catch (error) {
+        const analysisFailure = toAIRequestError(error);
+        setError('companyAnalyses', company.id, { kind: analysisFailure.kind, message: analysisFailure.message });
+        failure = analysisFailure;
+      }
+    }
+
+    if (includeIntel && !resultsRef.current.companyIntel[company.id]) {
+      didWork = true;
+      try {
+        setResult('companyIntel', company.id, await generateLiveIntelligence(company["Organization Name"], "company", provider));
+      } catch (error) {
+        const intelFailure = toAIRequestError(error);
+        setError('companyIntel', company.id, { kind: intelFailure.kind, message: intelFailure.message });
+        failure = failure || intelFailure;
+      }
+    }
+
+    if (failure) throw failure;
+    return didWork ? 'done' : 'skipped';
+  };
+
+  const start = (batch: ScoredCompany[]) => {
+    const queue = createBatchQueue(
+      batch.map(company => ({ id: company.id, label: company["Organization Name"], run: () => runCompany(company) })),
+      settings.maxConcurrentRequests,
+      setProgress
+    );
+    queueRef.current = queue;
+    queue.start();
+  };
+
+  const handleRetryFailed = () => {
+    if (!progress) return;
+    const failed = new Set(progress.items.filter(i => i.status === 'failed').map(i => i.id));
+    start(companies.filter(c => failed.has(c.id)));
+  };
+
+  const inputClass = "w-16 text-xs px-2 py-1 bg-white border border-slate-200 rounded text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500";
+
+  return (
+    <div className="p-6 border-b border-slate-200 bg-slate-50/50 print:hidden">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-4 mb-4">
+            <div>
+                <h4 className="font-semibold text-slate-800 flex items-center gap-2">
+                    <Layers size={18} className="text-indigo-600" /> {t('batch_memos')}
+                </h4>
+                <p className="text-xs text-slate-500">{t('batch_memos_desc')}</p>
+            </div>
+            <button
+                onClick={onClose}
+                disabled={isActive}
+                className="text-slate-400 hover:text-slate-600 disabled:opacity-30"
+                title={isActive ? t('batch_close_hint') : undefined}
+            >
+                <X size={18} />
+            </button>
+        </div>
+
+        {/* Scope */}
+        <div className="flex flex-wrap items-center gap-4 text-xs text-slate-600 mb-4">
+            <label className="flex items-center gap-1.5">
+                <input type="radio" checked={scope === 'top'} onChange={() => setScope('top')} disabled={isActive} />
+                {t('batch_top')}
+                <input
+                    type="number"
+                    min="1"
+                    max={companies.length}
+                    value={topN}
+                    onChange={(e) => setTopN(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                    disabled={isActive}
+                    className={inputClass}
+                />
+            </label>
+            <label className="flex items-center gap-1.5">
+                <input type="radio" checked={scope === 'selected'} onChange={() => setScope('selected')} disabled={isActive || selected.length === 0} />
+                {t('batch_selected')} ({selected.length})
+            </label>
+            <label className="flex items-center gap-1.5">
+                <input type="checkbox" checked={includeIntel} onChange={(e) => setIncludeIntel(e.target.checked)} disabled={isActive} />
+                {t('batch_include_intel')}
+            </label>
+
+            <div className="flex items-center gap-2 ml-auto">
+                {!isActive && (
+                    <button
+                        onClick={() => start(targets)}
+                        disabled={targets.length === 0}
+                        className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-900 hover:bg-slate-800 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+                    >
+                        <Play size={12} /> {t('batch_start')} ({targets.length})
+                    </button>
+                )}
+                {progress?.state === 'running' && (
+                    <button onClick={() => queueRef.current?.pause()} className="flex items-center gap-1.5 px-3 py-1.5 border border-slate-200 bg-white rounded-lg font-medium hover:border-indigo-300">
+                        <Pause size={12} /> {t('batch_pause')}
+                    </button>
+                )}
+                {progress?.state === 'paused' && (
+                    <button onClick={() => queueRef.current?.resume()} className="flex items-center gap-1.5 px-3 py-1.5 border border-slate-200 bg-white rounded-lg font-medium hover:border-indigo-300">
+                        <Play size={12} /> {t('batch_resume')}
+                    </button>
+                )}
+                {isActive && (
+                    <button onClick={() => queueRef.current?.cancel()} className="flex items-center gap-1.5 px-3 py-1.5 border border-slate-200 bg-white rounded-lg font-medium text-rose-600 hover:border-rose-300">
+                        <Square size={12} /> {t('batch_cancel')}
+                    </button>
+                )}
+                {!isActive && count('failed') > 0 && (
+                    <button onClick={handleRetryFailed} className="flex items-center gap-1.5 px-3 py-1.5 border border-rose-200 bg-white rounded-lg font-medium text-rose-600 hover:border-rose-400">
+                        <RotateCcw size={12} /> {t('batch_retry_failed')} ({count('failed')})
+                    </button>
+                )}
+            </div>
+        </div>
+
+        {/* Progress */}
+        {progress && (
+            <div>
+                <div className="flex items-center justify-between text-[11px] text-slate-500 mb-1">
+                    <span>{t(`batch_state_${progress.state}`)} · {completed} / {progress.items.length}</span>
+                    <span>{count('done')} {t('batch_generated')} · {count('skipped')} {t('batch_skipped')} · {count('failed')} {t('batch_failed')}</span>
+                </div>
+                <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden mb-3">
+                    <div className="h-full bg-indigo-600 transition-all" style={{ width: `${progress.items.length ? (completed / progress.items.length) * 100 : 0}%` }} />
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-x-4 gap-y-1 max-h-[160px] overflow-y-auto pr-1 custom-scrollbar">
+                    {progress.items.map(item => {
+                        const company = companies.find(c => c.id === item.id);
+                        return (
+                            <button
+                                key={item.id}
+                                onClick={() => company && onSelect(company)}
+                                className="flex items-center gap-1.5 text-xs text-slate-600 hover:text-indigo-600 text-left min-w-0"
+                                title={item.error}
+                            >
+                                <span className="flex-shrink-0">{STATUS_ICONS[item.status]}</span>
+                                <span className="truncate">{item.label}</span>
+                            </button>
+                        );
+                    })}
+                </div>
+            </div>
+        )}
+    </div>
+  );
+};
@@ -0,0 +1,321 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { CoInvestmentGraph, CoInvestor } from '../types';
+import { Share2, Search, X, Route } from 'lucide-react';
+import { layoutGraph, getNeighbours, findIntroPath, edgeKey, NodePosition } from '../services/coInvestment';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface CoInvestmentNetworkProps {
+  graph: CoInvestmentGraph;
+}
+
+const WIDTH = 800;
+const HEIGHT = 480;
+const MAX_OVERVIEW_NODES = 60;
+const MAX_FOCUS_NEIGHBOURS = 30;
+const MAX_SEARCH_RESULTS = 8;
+const LABELLED_OVERVIEW_NODES = 15;
+const COMMUNITIES_SHOWN = 8;
+
+// Community colours, assigned by community index (largest first)
+const COMMUNITY_COLORS = ['#6366f1', '#10b981', '#f59e0b', '#e11d48', '#8b5cf6', '#14b8a6', '#f97316', '#0ea5e9'];
+const communityColor = (community: number) => COMMUNITY_COLORS[community % COMMUNITY_COLORS.length];
+
+const nodeRadius = (node: CoInvestor) => Math.min(16, 4 + Math.sqrt(node.dealCount) * 2);
+
+export const CoInvestmentNetwork: React.FC<CoInvestmentNetworkProps> = ({ graph }) => {
+  const { t } = useLanguage();
+  const [search, setSearch] = useState("");
+  const [focus, setFocus] = useState<string | null>(null);
+  const [pathQuery, setPathQuery] = useState("");
+  const [community, setCommunity] = useState<number | null>(null);
+  const [hovered, setHovered] = useState<string | null>(null);
+  const [dragged, setDragged] = useState<Record<string, NodePosition>>({});
+  const dragging = useRef<string | null>(null);
+  const moved = useRef(false);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const nodesByName = useMemo(() => new Map(graph.nodes.map(n => [n.name, n])), [graph]);
+
+  // A new dataset invalidates every selection
+  useEffect(() => {
+    setFocus(null);
+    setCommunity(null);
+    setPathQuery("");
+  }, [graph]);
+
+  const communities = useMemo(() => {
+    const sizes = new Map<number, number>();
+    graph.nodes.forEach(n => sizes.set(n.community, (sizes.get(n.community) || 0) + 1));
+    // Singletons are investors with no co-investor in the dataset, not syndicates
+    return [...sizes.entries()].filter(([, size]) => size > 1).sort((a, b) => a[0] - b[0]).slice(0, COMMUNITIES_SHOWN);
+  }, [graph]);
+
+  const focusEdges = useMemo(() => focus ? getNeighbours(graph, focus) : [], [graph, focus]);
+  const introPath = useMemo(
+    () => focus && nodesByName.has(pathQuery) && pathQuery !== focus ? findIntroPath(graph, focus, pathQuery) : null,
+    [graph, focus, pathQuery, nodesByName]
+  );
+
+  // Focus shows the investor, its strongest ties and any intro path; otherwise the most active connected investors
+  const visibleNames = useMemo(() => {
+    if (focus) {
+      const names = new Set([focus, ...focusEdges.slice(0, MAX_FOCUS_NEIGHBOURS).map(e => e.source === focus ? e.target : e.source)]);
+      introPath?.forEach(name => names.add(name));
+      return [...names];
+    }
+    const connected = new Set(graph.edges.flatMap(e => [e.source, e.target]));
+    return graph.nodes
+      .filter(n => connected.has(n.name) && (community === null || n.community === community))
+      .slice(0, MAX_OVERVIEW_NODES)
+      .map(n => n.name);
+  }, [graph, focus, focusEdges, introPath, community]);
+
+  const visibleEdges = useMemo(() => {
+    const names = new Set(visibleNames);
+    return graph.edges.filter(e => names.has(e.source) && names.has(e.target));
+  }, [graph, visibleNames]);
+
+  const layout = useMemo(() => layoutGraph(visibleNames, visibleEdges, WIDTH, HEIGHT), [visibleNames, visibleEdges]);
+  useEffect(() => setDragged({}), [layout]);
+  const positionOf = (name: string) => dragged[name] || layout[name];
+
+  const pathEdges = useMemo(
+    () => new Set(introPath ? introPath.slice(1).map((name, i) => edgeKey({ source: introPath[i], target: name })) : []),
+    [introPath]
+  );
+
+  const searchResults = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return q ? graph.nodes.filter(n => n.name.toLowerCase().includes(q)).slice(0, MAX_SEARCH_RESULTS) : [];
+  }, [graph, search]);
+  const searchMatches = new Set(searchResults.map(n => n.name));
+
+  const labelled = new Set([
+    ...(focus ? visibleNames : visibleNames.slice(0, LABELLED_OVERVIEW_NODES)),
+    ...(hovered ? [hovered] : []),
+    ...searchMatches
+  ]);
+  const neighbourOfHovered = (name: string) =>
+    hovered !== null && visibleEdges.some(e => (e.source === hovered && e.target === name) || (e.target === hovered && e.source === name));
+
+  const focusOn = (name: string) => {
+    setFocus(name);
+    setPathQuery("");
+    setSearch("");
+  };
+
+  // Dragging moves a node without re-running the layout
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragging.current || !svgRef.current) return;
+    const rect = svgRef.current.getBoundingClientRect();
+    const name = dragging.current;
+    moved.current = true;
+    setDragged(prev => ({
+        ...prev,
+        [name]: { x: (e.clientX - rect.left) * WIDTH / rect.width, y: (e.clientY - rect.top) * HEIGHT / rect.height }
+    }));
+  };
+
+  if (graph.edges.length === 0) {
+    return (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+            <h3 className="text-lg font-semibold text-slate-800 mb-2 flex items-center gap-2">
+                <Share2 size={20} className="text-indigo-600" /> {t('co_investment_network')}
+            </h3>
+            <p className="text-sm text-slate-400">{t('no_co_investments')}</p>
+        </div>
+    );
+  }
+
+  const focusNode = focus ? nodesByName.get(focus) : undefined;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-start justify-between gap-4 mb-4">
+            <div>
+                <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+                    <Share2 size={20} className="text-indigo-600" /> {t('co_investment_network')}
+                </h3>
+                <p className="text-sm text-slate-500">{t('co_investment_network_desc')}</p>
+            </div>
+            <div className="relative w-full md:w-64 print:hidden">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <Search size={14} className="text-slate-400" />
+                </div>
+                <input
+                    type="text"
+                    placeholder={t('find_investor')}
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    className="w-full pl-9 pr-4 py-2 bg-white border border-slate-200 rounded-lg text-sm text-slate-700 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 shadow-sm"
+                />
+                {searchResults.length > 0 && (
+                    <div className="absolute z-20 mt-1 w-full bg-white border border-slate-200 rounded-lg shadow-lg overflow-hidden">
+                        {searchResults.map(n => (
+                            <button key={n.name} onClick={() => focusOn(n.name)} className="w-full text-left px-3 py-2 text-xs hover:bg-slate-50 flex justify-between">
+                                <span className="truncate text-slate-700">{n.name}</span>
+                                <span className="text-slate-400">{n.dealCount}</span>
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+
+        {/* Communities */}
+        {!focus && communities.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 mb-3 print:hidden">
+                <span className="text-xs text-slate-500">{t('syndicates')}</span>
+                {communities.map(([id, size]) => (
+                    <button
+                        key={id}
+                        onClick={() => setCommunity(community === id ? null : id)}
+                        className={`flex items-center gap-1.5 px-2 py-0.5 text-[11px] rounded-full border transition-colors ${community === id ? 'border-slate-800 text-slate-800 font-semibold' : 'border-slate-200 text-slate-500 hover:border-slate-300'}`}
+                    >
+                        <span className="w-2 h-2 rounded-full" style={{ backgroundColor: communityColor(id) }} />
+                        #{id + 1} · {size}
+                    </button>
+                ))}
+            </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
+            {/* Graph */}
+            <div className={focus ? 'lg:col-span-3' : 'lg:col-span-4'}>
+                <svg
+                    ref={svgRef}
+                    viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                    className="w-full h-auto bg-slate-50 rounded-lg border border-slate-100 select-none touch-none"
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={() => { dragging.current = null; }}
+                    onPointerLeave={() => { dragging.current = null; }}
+                >
+                    {visibleEdges.map(e => {
+                        const a = positionOf(e.source);
+                        const b = positionOf(e.target);
+                        const onPath = pathEdges.has(edgeKey(e));
+                        const active = hovered !== null && (e.source === hovered || e.target === hovered);
+                        return (
+                            <line
+                                key={edgeKey(e)}
+                                x1={a.x} y1={a.y} x2={b.x} y2={b.y}
+                                stroke={onPath ? '#f59e0b' : active ? '#6366f1' : '#cbd5e1'}
+                                strokeWidth={onPath ? 3 : Math.min(6, 0.75 + Math.log2(e.weight))}
+                                strokeOpacity={hovered && !active && !onPath ? 0.25 : 0.8}
+                            >
+                                <title>{`${e.source} + ${e.target}: ${e.weight} (${e.companies.join(', ')})`}</title>
+                            </line>
+                        );
+                    })}
+                    {visibleNames.map(name => {
+                        const node = nodesByName.get(name)!;
+                        const p = positionOf(name);
+                        const dimmed = hovered !== null && hovered !== name && !neighbourOfHovered(name);
+                        return (
+                            <g
+                                key={name}
+                                transform={`translate(${p.x},${p.y})`}
+                                className="cursor-pointer"
+                                opacity={dimmed ? 0.3 : 1}
+                                onPointerDown={() => { dragging.current = name; moved.current = false; }}
+                                onPointerEnter={() => setHovered(name)}
+                                onPointerLeave={() => setHovered(null)}
+                                // A drag ends with a click; only a click without movement changes the focus
+                                onClick={() => !moved.current && focus !== name && focusOn(name)}
+                            >
+                                <circle
+                                    r={nodeRadius(node)}
+                                    fill={communityColor(node.community)}
+                                    stroke={name === focus || searchMatches.has(name) ? '#0f172a' : '#ffffff'}
+                                    strokeWidth={name === focus || searchMatches.has(name) ? 2.5 : 1.5}
+                                />
+                                {labelled.has(name) && (
+                                    <text y={-nodeRadius(node) - 4} textAnchor="middle" className="text-[10px] fill-slate-600 font-medium pointer-events-none">
+                                        {name.length > 24 ? `${name.slice(0, 24)}…` : name}
+                                    </text>
+                                )}
+                                <title>{`${name} · ${node.dealCount} ${t('deals')}`}</title>
+                            </g>
+                        );
+                    })}
+                </svg>
+                <p className="text-[10px] text-slate-400 mt-2">
+                    {t('network_hint')} {!focus && graph.nodes.length > visibleNames.length && `${t('showing')} ${visibleNames.length} ${t('of')} ${graph.nodes.length}.`}
+                </p>
+            </div>
+
+            {/* Focus panel */}
+            {focusNode && (
+                <div className="lg:col-span-1 space-y-4">
+                    <div className="flex items-start justify-between gap-2">
+                        <div>
+                            <h4 className="font-semibold text-slate-800">{focusNode.name}</h4>
+                            <p className="text-xs text-slate-500">
+                                {focusNode.dealCount} {t('deals')} · {focusEdges.length} {t('co_investors')}
+                                {communities.some(([id]) => id === focusNode.community) && (
+                                    <> · <span style={{ color: communityColor(focusNode.community) }}>{t('syndicate')} #{focusNode.community + 1}</span></>
+                                )}
+                            </p>
+                        </div>
+                        <button onClick={() => setFocus(null)} className="text-slate-400 hover:text-slate-600" title={t('clear_focus')}>
+                            <X size={16} />
+                        </button>
+                    </div>
+
+                    {/* Warm intro path */}
+                    <div>
+                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider flex items-center gap-1 mb-1">
+                            <Route size={12} /> {t('intro_path_to')}
+                        </label>
+                        <input
+                            type="text"
+                            list="co-investor-names"
+                            value={pathQuery}
+                            onChange={(e) => setPathQuery(e.target.value)}
+                            placeholder={t('investor_name')}
+                            className="w-full text-xs px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-slate-700 focus:outline-none focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500"
+                        />
+                        <datalist id="co-investor-names">
+                            {graph.nodes.map(n => <option key={n.name} value={n.name} />)}
+                        </datalist>
+                        {nodesByName.has(pathQuery) && pathQuery !== focus && (
+                            introPath ? (
+                                <ol className="mt-2 space-y-1">
+                                    {introPath.map((name, i) => (
+                                        <li key={name} className="text-xs text-slate-700 flex items-center gap-1.5">
+                                            <span className="w-4 h-4 rounded-full bg-amber-100 text-amber-700 text-[9px] font-bold flex items-center justify-center">{i + 1}</span>
+                                            {name}
+                                        </li>
+                                    ))}
+                                </ol>
+                            ) : (
+                                <p className="text-xs text-slate-400 italic mt-2">{t('no_intro_path')}</p>
+                            )
+                        )}
+                    </div>
+
+                    {/* Strongest ties */}
+                    <div>
+                        <h5 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1">{t('top_co_investors')}</h5>
+                        <div className="space-y-1.5 max-h-[260px] overflow-y-auto pr-1 custom-scrollbar">
+                            {focusEdges.slice(0, MAX_FOCUS_NEIGHBOURS).map(e => {
+                                const other = e.source === focus ? e.target : e.source;
+                                return (
+                                    <button key={other} onClick={() => focusOn(other)} className="w-full text-left p-2 rounded-lg border border-slate-100 hover:border-indigo-200 hover:bg-indigo-50/30">
+                                        <div className="flex justify-between text-xs">
+                                            <span className="font-medium text-slate-700 truncate">{other}</span>
+                                            <span className="text-slate-500 font-semibold">{e.weight}</span>
+                                        </div>
+                                        <p className="text-[10px] text-slate-400 truncate" title={e.companies.join(', ')}>{e.companies.join(', ')}</p>
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    </div>
+  );
+};
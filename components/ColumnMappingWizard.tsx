@@ -0,0 +1,206 @@
+import React, { useState, useMemo } from 'react';
+import { ParsedFile, ColumnMapping, MappingProfile } from '../types';
+import { Columns, Save, Trash2, ArrowRight, AlertTriangle, Wand2 } from 'lucide-react';
+import { KNOWN_COLUMNS, REQUIRED_COLUMNS } from '../services/importReport';
+import { suggestMapping, loadMappingProfiles, saveMappingProfile, deleteMappingProfile } from '../services/columnMapping';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface ColumnMappingWizardProps {
+  files: ParsedFile[];
+  onConfirm: (files: ParsedFile[]) => void;
+  onCancel: () => void;
+}
+
+// Helper: First non-empty value of a column, used as a hint next to each header
+const sampleValue = (file: ParsedFile, header: string) => {
+  const row = file.result.rows.slice(0, 20).find(r => (r[header] || '').trim());
+  const value = row ? row[header] : '';
+  return value.length > 60 ? `${value.substring(0, 60)}...` : value;
+};
+
+export const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({ files, onConfirm, onCancel }) => {
+  const { t } = useLanguage();
+  const [draft, setDraft] = useState<ParsedFile[]>(files);
+  const [activeIdx, setActiveIdx] = useState(0);
+  const [profiles, setProfiles] = useState<MappingProfile[]>(() => loadMappingProfiles());
+  const [profileName, setProfileName] = useState("");
+
+  const active = draft[activeIdx];
+
+  const missingRequired = useMemo(() => {
+    return draft.map(f => {
+      const targets = new Set(Object.entries(f.mapping).map(([src, dst]) => dst || src));
+      return REQUIRED_COLUMNS.filter(c => !targets.has(c));
+    });
+  }, [draft]);
+
+  const duplicateTargets = useMemo(() => {
+    const counts: Record<string, number> = {};
+    Object.values(active.mapping).forEach((dst: string) => { if (dst) counts[dst] = (counts[dst] || 0) + 1; });
+    return new Set(Object.keys(counts).filter(k => counts[k] > 1));
+  }, [active]);
+
+  const updateMapping = (mapping: ColumnMapping) => {
+    setDraft(prev => prev.map((f, idx) => idx === activeIdx ? { ...f, mapping } : f));
+  };
+
+  const handleSelect = (header: string, target: string) => {
+    updateMapping({ ...active.mapping, [header]: target });
+  };
+
+  const handleApplyProfile = (name: string) => {
+    const profile = profiles.find(p => p.name === name);
+    if (!profile) return;
+    const next: ColumnMapping = { ...active.mapping };
+    active.result.headers.forEach(h => {
+      if (h in profile.mapping) next[h] = profile.mapping[h];
+    });
+    updateMapping(next);
+  };
+
+  const handleSaveProfile = () => {
+    const name = profileName.trim();
+    if (!name) return;
+    setProfiles(saveMappingProfile({ name, mapping: active.mapping }));
+    setProfileName("");
+  };
+
+  const canContinue = missingRequired.every(m => m.length === 0);
+
+  return (
+    <div className="w-full max-w-4xl mx-auto space-y-4">
+        <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+            <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+                <Columns size={20} className="text-indigo-600" /> {t('column_mapping')}
+            </h3>
+            <p className="text-sm text-slate-500">{t('column_mapping_desc')}</p>
+
+            {/* File Tabs */}
+            {draft.length > 1 && (
+                <div className="flex flex-wrap gap-2 mt-4">
+                    {draft.map((f, idx) => (
+                        <button
+                            key={`${f.fileName}-${idx}`}
+                            onClick={() => setActiveIdx(idx)}
+                            className={`px-3 py-1.5 text-xs font-medium rounded-full border transition-all flex items-center gap-1.5 ${
+                                activeIdx === idx
+                                ? 'bg-indigo-600 text-white border-indigo-600 shadow-sm'
+                                : 'bg-white text-slate-600 border-slate-200 hover:border-indigo-300 hover:text-indigo-600'
+                            }`}
+                        >
+                            {missingRequired[idx].length > 0 && <AlertTriangle size={12} className={activeIdx === idx ? 'text-amber-200' : 'text-amber-500'} />}
+                            {f.fileName}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+
+        {/* Profiles */}
+        <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm flex flex-col md:flex-row md:items-center gap-3">
+            <div className="flex items-center gap-2 flex-1">
+                <select
+                    value=""
+                    onChange={(e) => handleApplyProfile(e.target.value)}
+                    className="text-xs border border-slate-200 rounded-lg bg-white py-2 px-2 text-slate-700 focus:ring-indigo-500 focus:border-indigo-500"
+                >
+                    <option value="" disabled>{t('apply_profile')}</option>
+                    {profiles.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+                </select>
+                <button
+                    onClick={() => updateMapping(suggestMapping(active.result.headers))}
+                    className="flex items-center gap-1.5 px-3 py-2 text-xs font-medium text-slate-600 hover:text-indigo-600 rounded-lg border border-slate-200 hover:border-indigo-200 transition-colors"
+                >
+                    <Wand2 size={14} /> {t('auto_suggest')}
+                </button>
+            </div>
+            <div className="flex items-center gap-2">
+                <input
+                    type="text"
+                    value={profileName}
+                    onChange={(e) => setProfileName(e.target.value)}
+                    placeholder={t('profile_name')}
+                    className="text-xs px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-slate-700 focus:outline-none focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500"
+                />
+                <button
+                    onClick={handleSaveProfile}
+                    disabled={!profileName.trim()}
+                    className="flex items-center gap-1.5 px-3 py-2 bg-slate-900 hover:bg-slate-800 text-white rounded-lg text-xs font-medium transition-colors disabled:opacity-50"
+                >
+                    <Save size={14} /> {t('save_profile')}
+                </button>
+            </div>
+        </div>
+
+        {profiles.length > 0 && (
+            <div className="flex flex-wrap gap-1.5 px-1">
+                {profiles.map(p => (
+                    <span key={p.name} className="flex items-center gap-1 text-[10px] px-2 py-0.5 rounded border bg-slate-50 text-slate-600 border-slate-200">
+                        {p.name}
+                        <button onClick={() => setProfiles(deleteMappingProfile(p.name))} className="text-slate-400 hover:text-rose-600">
+                            <Trash2 size={10} />
+                        </button>
+                    </span>
+                ))}
+            </div>
+        )}
+
+        {/* Mapping Table */}
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+            {missingRequired[activeIdx].length > 0 && (
+                <div className="bg-amber-50 border-b border-amber-100 px-4 py-2 text-xs text-amber-700 flex items-center gap-2">
+                    <AlertTriangle size={14} /> {t('map_required')}: {missingRequired[activeIdx].join(', ')}
+                </div>
+            )}
+            <table className="w-full text-left border-collapse">
+                <thead>
+                    <tr className="bg-slate-50 text-slate-500 text-xs uppercase tracking-wider">
+                        <th className="p-3 font-medium">{t('source_column')}</th>
+                        <th className="p-3 font-medium hidden md:table-cell">{t('sample_value')}</th>
+                        <th className="p-3 font-medium">{t('maps_to')}</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 text-sm">
+                    {active.result.headers.map(header => {
+                        const target = active.mapping[header] || '';
+                        return (
+                            <tr key={header}>
+                                <td className="p-3 font-medium text-slate-700">{header}</td>
+                                <td className="p-3 text-xs text-slate-400 truncate max-w-[240px] hidden md:table-cell">{sampleValue(active, header)}</td>
+                                <td className="p-3">
+                                    <select
+                                        value={target}
+                                        onChange={(e) => handleSelect(header, e.target.value)}
+                                        className={`w-full text-xs border rounded-lg bg-white py-1.5 px-2 focus:ring-indigo-500 focus:border-indigo-500 ${
+                                            duplicateTargets.has(target) ? 'border-amber-300 text-amber-700' : target ? 'border-indigo-200 text-indigo-700' : 'border-slate-200 text-slate-500'
+                                        }`}
+                                    >
+                                        <option value="">{t('keep_as_is')}</option>
+                                        {KNOWN_COLUMNS.map(col => <option key={col} value={col}>{col}</option>)}
+                                    </select>
+                                </td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+
+        <div className="flex items-center justify-end gap-3 pt-2">
+            <button
+                onClick={onCancel}
+                className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-900 rounded-lg hover:bg-white border border-transparent hover:border-slate-200 transition-colors"
+            >
+                {t('cancel')}
+            </button>
+            <button
+                onClick={() => onConfirm(draft)}
+                disabled={!canContinue}
+                className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50 flex items-center gap-2 shadow-sm"
+            >
+                {t('review_import')} <ArrowRight size={16} />
+            </button>
+        </div>
+    </div>
+  );
+};
@@ -1,13 +1,28 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { ScoredCompany, LiveIntelResult } from '../types';
-import { Sparkles, ExternalLink, ChevronDown, ChevronUp, Search, ArrowUpDown, ArrowUp, ArrowDown, Target, Shield, BrainCircuit, Gem, Globe, Newspaper, MessageSquareQuote, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Info, TrendingUp, TrendingDown, Minus, Megaphone, Activity, Copy, Check } from 'lucide-react';
-import { generateInvestmentAnalysis, generateLiveIntelligence, CompanyAnalysis } from '../services/geminiService';
-import { extractInvestors } from '../services/dataProcessing';
+import { ScoredCompany, CompanyFocus } from '../types';
+import { ExternalLink, ChevronDown, ChevronUp, Search, ArrowUpDown, ArrowUp, ArrowDown, BrainCircuit, Gem, Globe, Newspaper, MessageSquareQuote, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Info, TrendingUp, TrendingDown, Minus, Megaphone, Activity, Copy, Check, Crown, Layers, MessageSquare, X } from 'lucide-react';
+import { generateInvestmentAnalysis, generateLiveIntelligence } from '../services/geminiService';
+import { createSimilarityIndex } from '../services/similarity';
 import { useLanguage } from '../contexts/LanguageContext';
+import { useAIResults } from '../contexts/AIResultsContext';
+import { useThemes } from '../contexts/ThemeContext';
+import { useAIProvider } from '../contexts/AIProviderContext';
+import { usePromptTemplates } from '../contexts/PromptTemplateContext';
+import { memoToText } from '../services/promptTemplates';
+import { toAIRequestError } from '../services/aiProviders';
+import { ScoreBreakdown } from './ScoreBreakdown';
+import { FundingTimeline } from './FundingTimeline';
+import { SimilarCompanies } from './SimilarCompanies';
+import { AIErrorNotice } from './AIErrorNotice';
+import { BatchMemoPanel } from './BatchMemoPanel';
+import { MemoSections } from './MemoSections';
+import { ThemeTag } from './ThemeTag';
 
 interface CompanyListProps {
   companies: ScoredCompany[];
   prominentInvestors: string[];
+  focus?: CompanyFocus | null; // Narrows the list to these rows until cleared
+  onClearFocus?: () => void;
 }
 
 type SortKey = 'rank' | 'name' | 'comprehensive' | 'potential' | 'funding' | 'operations' | 'brand';
@@ -240,19 +255,26 @@ const SourcesList = ({ sources }: { sources: { title: string, uri: string }[] })
     );
 };
 
-export const CompanyList: React.FC<CompanyListProps> = ({ companies, prominentInvestors }) => {
+export const CompanyList: React.FC<CompanyListProps> = ({ companies, prominentInvestors, focus, onClearFocus }) => {
   const { t } = useLanguage();
   const [expandedId, setExpandedId] = useState<string | null>(null);
   
-  // Internal Analysis State
-  const [analyses, setAnalyses] = useState<Record<string, CompanyAnalysis>>({});
+  // AI outputs are shared so they can be saved with the session
+  const { results, setResult, errors, setError } = useAIResults();
+  const { provider } = useAIProvider();
+  const { getActiveTemplate } = usePromptTemplates();
+  const memoTemplate = getActiveTemplate('company');
+  const { getTheme } = useThemes();
+  const themeName = (id: string) => getTheme(id)?.name || id;
+  const analyses = results.companyAnalyses;
+  const liveIntel = results.companyIntel;
   const [loadingAnalysis, setLoadingAnalysis] = useState<string | null>(null);
-
-  // Live Intel State
-  const [liveIntel, setLiveIntel] = useState<Record<string, LiveIntelResult>>({});
   const [loadingIntel, setLoadingIntel] = useState<string | null>(null);
 
   const [searchTerm, setSearchTerm] = useState("");
+  // Rows ticked for a batch memo run
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [showBatchPanel, setShowBatchPanel] = useState(false);
   const [sortConfig, setSortConfig] = useState<SortConfig>({ key: 'rank', direction: 'asc' });
 
   // Pagination State
@@ -302,13 +324,22 @@ export const CompanyList: React.FC<CompanyListProps> = ({ companies, prominentIn
     return companies.map((c, i) => ({ ...c, originalRank: i + 1 }));
   }, [companies]);
 
+  // A new focus replaces the search, so every focused row is visible
+  useEffect(() => {
+    if (!focus) return;
+    setSearchTerm("");
+    setExpandedId(focus.expandId || null);
+  }, [focus]);
+
+  const focusIds = useMemo(() => focus ? new Set(focus.ids) : null, [focus]);
+
   const filteredAndSortedCompanies = useMemo(() => {
     // 1. Filter
-    let result = companiesWithRank.filter(c => 
+    let result = companiesWithRank.filter(c => (!focusIds || focusIds.has(c.id)) && (
       c["Organization Name"].toLowerCase().includes(searchTerm.toLowerCase()) ||
       (c["Description"] || "").toLowerCase().includes(searchTerm.toLowerCase()) ||
       (c["Full Description"] || "").toLowerCase().includes(searchTerm.toLowerCase())
-    );
+    ));
 
     // 2. Sort
     result.sort((a, b) => {
@@ -353,12 +384,12 @@ export const CompanyList: React.FC<CompanyListProps> = ({ companies, prominentIn
     });
 
     return result;
-  }, [companiesWithRank, searchTerm, sortConfig]);
+  }, [companiesWithRank, searchTerm, sortConfig, focusIds]);
 
   // Reset pagination when filter/search changes
   useEffect(() => {
     setCurrentPage(1);
-  }, [searchTerm, companies]); // Also reset if dataset changes
+  }, [searchTerm, companies, focusIds]); // Also reset if dataset changes
 
   // Pagination Logic
   const effectiveItemsPerPage = itemsPerPage;
@@ -374,18 +405,53 @@ export const CompanyList: React.FC<CompanyListProps> = ({ companies, prominentIn
     setExpandedId(expandedId === id ? null : id);
   };
 
+  const toggleSelected = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    setSelectedIds(next);
+  };
+
+  // The header box ticks or clears the rows on the current page
+  const pageSelected = paginatedCompanies.length > 0 && paginatedCompanies.every(c => selectedIds.has(c.id));
+  const togglePageSelected = () => {
+    const next = new Set(selectedIds);
+    paginatedCompanies.forEach(c => pageSelected ? next.delete(c.id) : next.add(c.id));
+    setSelectedIds(next);
+  };
+
+  const selectedCompanies = useMemo(() => companies.filter(c => selectedIds.has(c.id)), [companies, selectedIds]);
+
+  // Local text index for the "Similar companies" panel; rebuilt only when the dataset changes
+  const findSimilar = useMemo(() => createSimilarityIndex(companies), [companies]);
+
+  // Narrow the list to the chosen peer so it's visible, then open it
+  const handleSelectPeer = (peer: ScoredCompany) => {
+    setSearchTerm(peer["Organization Name"]);
+    setExpandedId(peer.id);
+  };
+
   const handleGenerateAnalysis = async (company: ScoredCompany) => {
     setLoadingAnalysis(company.id);
-    const analysis = await generateInvestmentAnalysis(company);
-    setAnalyses(prev => ({ ...prev, [company.id]: analysis }));
-    setLoadingAnalysis(null);
+    try {
+      setResult('companyAnalyses', company.id, await generateInvestmentAnalysis(company, memoTemplate, provider, themeName));
+    } catch (error) {
+      const { kind, message } = toAIRequestError(error);
+      setError('companyAnalyses', company.id, { kind, message });
+    } finally {
+      setLoadingAnalysis(null);
+    }
   };
 
   const handleLiveIntel = async (company: ScoredCompany) => {
     setLoadingIntel(company.id);
-    const result = await generateLiveIntelligence(company["Organization Name"], "company");
-    setLiveIntel(prev => ({ ...prev, [company.id]: result }));
-    setLoadingIntel(null);
+    try {
+      setResult('companyIntel', company.id, await generateLiveIntelligence(company["Organization Name"], "company", provider));
+    } catch (error) {
+      const { kind, message } = toAIRequestError(error);
+      setError('companyIntel', company.id, { kind, message });
+    } finally {
+      setLoadingIntel(null);
+    }
   };
 
   const handleSort = (key: SortKey) => {
@@ -418,10 +484,9 @@ export const CompanyList: React.FC<CompanyListProps> = ({ companies, prominentIn
     </th>
   );
 
-  const getCompanyProminentBackers = (company: ScoredCompany) => {
-    const investors = extractInvestors(company);
-    return investors.filter(inv => prominentInvestors.includes(inv));
-  };
+  // Resolved names, so aliases match the investor ranking
+  const getCompanyProminentBackers = (company: ScoredCompany) =>
+    company.investors.filter(inv => prominentInvestors.includes(inv));
 
   return (
     <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden relative">
@@ -433,8 +498,15 @@ export const CompanyList: React.FC<CompanyListProps> = ({ companies, prominentIn
           <h3 className="text-lg font-semibold text-slate-800">{t('company_rankings')}</h3>
           <p className="text-sm text-slate-500">{t('ordered_by')}</p>
         </div>
+        <div className="flex items-center gap-2 w-full md:w-auto print:hidden">
+        <button
+            onClick={() => setShowBatchPanel(!showBatchPanel)}
+            className={`flex items-center gap-1.5 px-3 py-2 border rounded-lg text-xs font-medium transition-colors flex-shrink-0 ${showBatchPanel ? 'border-indigo-300 text-indigo-600 bg-indigo-50' : 'border-slate-200 text-slate-600 hover:text-indigo-600 hover:border-indigo-200'}`}
+        >
+            <Layers size={14} /> {t('batch_memos')}{selectedIds.size > 0 && ` (${selectedIds.size})`}
+        </button>
         {/* Hide Search Bar during Print */}
-        <div className="relative w-full md:w-72 print:hidden">
+        <div className="relative w-full md:w-72">
         <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
             <Search size={16} className="text-indigo-400" />
         </div>
@@ -446,11 +518,34 @@ export const CompanyList: React.FC<CompanyListProps> = ({ companies, prominentIn
             className="w-full pl-10 pr-4 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700 placeholder-slate-400 focus:outline-none focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all duration-200"
         />
         </div>
+        </div>
       </div>
+      {focus && (
+        <div className="px-6 py-2 border-b border-indigo-100 bg-indigo-50/50 flex items-center justify-between gap-4 text-xs text-indigo-700 print:hidden">
+            <span className="flex items-center gap-1.5 min-w-0">
+                <MessageSquare size={14} className="flex-shrink-0" />
+                <span className="truncate">{t('focused_rows')} ({focus.ids.length}): {focus.label}</span>
+            </span>
+            <button onClick={onClearFocus} className="flex items-center gap-1 font-medium hover:text-indigo-900 flex-shrink-0">
+                <X size={14} /> {t('show_all_rows')}
+            </button>
+        </div>
+      )}
+      {showBatchPanel && (
+        <BatchMemoPanel
+            companies={companies}
+            selected={selectedCompanies}
+            onSelect={handleSelectPeer}
+            onClose={() => setShowBatchPanel(false)}
+        />
+      )}
       <div className="overflow-x-auto">
         <table className="w-full text-left border-collapse">
           <thead>
             <tr className="bg-slate-50 text-slate-500 text-xs uppercase tracking-wider">
+              <th className="pl-4 py-4 w-4 print:hidden">
+                <input type="checkbox" checked={pageSelected} onChange={togglePageSelected} title={t('select_page')} className="cursor-pointer" />
+              </th>
               <HeaderCell label={t('col_rank')} sortKey="rank" />
               <HeaderCell label={t('col_company')} sortKey="name" />
               <HeaderCell label={t('col_comprehensive')} sortKey="comprehensive" align="center" />
@@ -468,6 +563,9 @@ export const CompanyList: React.FC<CompanyListProps> = ({ companies, prominentIn
                 return (
               <React.Fragment key={company.id}>
                 <tr className="hover:bg-slate-50 transition-colors cursor-pointer group" onClick={() => toggleExpand(company.id)}>
+                  <td className="pl-4 py-4 w-4 print:hidden" onClick={(e) => e.stopPropagation()}>
+                    <input type="checkbox" checked={selectedIds.has(company.id)} onChange={() => toggleSelected(company.id)} className="cursor-pointer" />
+                  </td>
                   <td className="p-4 font-bold text-slate-400">#{company.originalRank}</td>
                   <td className="p-4">
                     <div className="flex flex-col gap-1">
@@ -537,7 +635,7 @@ export const CompanyList: React.FC<CompanyListProps> = ({ companies, prominentIn
                 </tr>
                 {(expandedId === company.id) && (
                     <tr className="bg-slate-50">
-                        <td colSpan={8} className="p-6">
+                        <td colSpan={9} className="p-6">
                             <div className="space-y-6">
                                 {/* Basic Info & Tags */}
                                 <div className="space-y-4">
@@ -555,12 +653,7 @@ export const CompanyList: React.FC<CompanyListProps> = ({ companies, prominentIn
                                         )}
                                     </div>
                                     <div className="flex flex-wrap gap-2">
-                                        {company.themes.ai && <span className="px-2 py-1 bg-blue-100 text-blue-700 text-xs rounded-full font-medium">AI / ML</span>}
-                                        {company.themes.climate && <span className="px-2 py-1 bg-green-100 text-green-700 text-xs rounded-full font-medium">Climate / Energy</span>}
-                                        {company.themes.fintech && <span className="px-2 py-1 bg-amber-100 text-amber-700 text-xs rounded-full font-medium">Fintech</span>}
-                                        {company.themes.healthcare && <span className="px-2 py-1 bg-rose-100 text-rose-700 text-xs rounded-full font-medium">Healthcare</span>}
-                                        {company.themes.saas && <span className="px-2 py-1 bg-violet-100 text-violet-700 text-xs rounded-full font-medium">SaaS</span>}
-                                        {company.themes.consumer && <span className="px-2 py-1 bg-teal-100 text-teal-700 text-xs rounded-full font-medium">Consumer</span>}
+                                        {company.themeMatches.filter(m => company.themes.includes(m.themeId)).map(m => <ThemeTag key={m.themeId} themeId={m.themeId} match={m} />)}
                                         <span className="px-2 py-1 bg-slate-200 text-slate-700 text-xs rounded-full font-medium">{company["Last Funding Type"] || "Unknown Stage"}</span>
                                     </div>
                                     
@@ -575,7 +668,11 @@ export const CompanyList: React.FC<CompanyListProps> = ({ companies, prominentIn
                                             <div>
                                                 <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">{t('prominent_backers')}</h4>
                                                 <div className="flex flex-wrap gap-1.5">
-                                                    {backers.map(investor => (
+                                                    {backers.map(investor => company.leadInvestors.includes(investor) ? (
+                                                        <span key={investor} className="px-2 py-0.5 border border-indigo-600 bg-indigo-600 text-white text-xs rounded-md font-medium flex items-center gap-1" title={t('led_this_round')}>
+                                                            <Crown size={10} /> {investor}
+                                                        </span>
+                                                    ) : (
                                                         <span key={investor} className="px-2 py-0.5 border border-indigo-200 bg-indigo-50 text-indigo-700 text-xs rounded-md font-medium">
                                                             {investor}
                                                         </span>
@@ -586,6 +683,13 @@ export const CompanyList: React.FC<CompanyListProps> = ({ companies, prominentIn
                                     )}
                                 </div>
 
+                                {/* Score Explainability */}
+                                <ScoreBreakdown breakdown={company.breakdown} />
+
+                                {company.fundingTimeline && <FundingTimeline timeline={company.fundingTimeline} />}
+
+                                <SimilarCompanies company={company} peers={findSimilar(company.id)} onSelect={handleSelectPeer} />
+
                                 {/* Reports Grid */}
                                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 pt-4">
                                     {/* 1. Internal AI Analysis */}
@@ -599,40 +703,29 @@ export const CompanyList: React.FC<CompanyListProps> = ({ companies, prominentIn
                                             <div className="flex items-center gap-2">
                                                 {/* Copy Button for Analysis */}
                                                 {analyses[company.id] && (
-                                                    <CopyButton 
-                                                        text={`Executive Summary:\n${analyses[company.id].executiveSummary}\n\nVerdict:\n${analyses[company.id].investmentVerdict}\n\nEdge:\n${analyses[company.id].competitiveEdge}`} 
-                                                    />
+                                                    <CopyButton text={memoToText(analyses[company.id])} />
                                                 )}
 
-                                                {!analyses[company.id] && (
+                                                {(!analyses[company.id] || analyses[company.id].templateId !== memoTemplate.id) && (
                                                     <button 
                                                         onClick={(e) => { e.stopPropagation(); handleGenerateAnalysis(company); }}
                                                         disabled={loadingAnalysis === company.id}
                                                         className="bg-slate-900 hover:bg-slate-800 text-white px-3 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-50 flex items-center gap-2 print:hidden"
                                                     >
-                                                        {loadingAnalysis === company.id ? t('analyzing') : t('generate_analysis')}
+                                                        {loadingAnalysis === company.id ? t('analyzing') : analyses[company.id] ? t('regenerate_with_template') : t('generate_analysis')}
                                                     </button>
                                                 )}
                                             </div>
                                         </div>
 
                                         {analyses[company.id] ? (
-                                            <div className="space-y-4">
-                                                <div className="bg-blue-50/50 p-3 rounded-lg border border-blue-100">
-                                                    <h5 className="text-xs font-bold text-blue-700 uppercase mb-1 flex items-center gap-1"><Sparkles size={12}/> {t('exec_summary')}</h5>
-                                                    <p className="text-sm text-slate-700">{analyses[company.id].executiveSummary}</p>
-                                                </div>
-                                                <div className="grid grid-cols-2 gap-3">
-                                                    <div className="bg-emerald-50/50 p-3 rounded-lg border border-emerald-100">
-                                                        <h5 className="text-xs font-bold text-emerald-700 uppercase mb-1 flex items-center gap-1"><Target size={12}/> {t('verdict')}</h5>
-                                                        <p className="text-sm text-slate-700">{analyses[company.id].investmentVerdict}</p>
-                                                    </div>
-                                                    <div className="bg-amber-50/50 p-3 rounded-lg border border-amber-100">
-                                                        <h5 className="text-xs font-bold text-amber-700 uppercase mb-1 flex items-center gap-1"><Shield size={12}/> {t('edge')}</h5>
-                                                        <p className="text-sm text-slate-700">{analyses[company.id].competitiveEdge}</p>
-                                                    </div>
-                                                </div>
-                                            </div>
+                                            <MemoSections memo={analyses[company.id]} />
+                                        ) : errors.companyAnalyses[company.id] ? (
+                                            <AIErrorNotice
+                                                error={errors.companyAnalyses[company.id]}
+                                                onRetry={() => handleGenerateAnalysis(company)}
+                                                retrying={loadingAnalysis === company.id}
+                                            />
                                         ) : (
                                             <div className="text-center py-6 text-slate-400 text-sm">
                                                 Generate an internal memo based on CSV data.
@@ -731,6 +824,14 @@ export const CompanyList: React.FC<CompanyListProps> = ({ companies, prominentIn
                                                     );
                                                 })()}
                                             </div>
+                                        ) : errors.companyIntel[company.id] ? (
+                                            <div className="relative z-10">
+                                                <AIErrorNotice
+                                                    error={errors.companyIntel[company.id]}
+                                                    onRetry={() => handleLiveIntel(company)}
+                                                    retrying={loadingIntel === company.id}
+                                                />
+                                            </div>
                                         ) : (
                                             <div className="text-center py-6 text-slate-400 text-sm">
                                                 Search the live web for recent news, user reviews, and sentiment.
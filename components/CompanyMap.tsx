@@ -1,7 +1,10 @@
 import React, { useMemo, useState, useRef, useEffect, useCallback } from 'react';
-import { ScoredCompany } from '../types';
+import { ScoredCompany, ReportingCurrency } from '../types';
 import { MapPin, Plus, Minus, RefreshCcw, Move, SlidersHorizontal, X, BarChart3, Wallet, Award, ScatterChart as ScatterIcon, Globe, TrendingUp } from 'lucide-react';
 import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ZAxis, Cell, ReferenceLine, Label } from 'recharts';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useThemes } from '../contexts/ThemeContext';
+import { formatMillions } from '../services/currency';
 
 interface CompanyMapProps {
   companies: ScoredCompany[];
@@ -81,10 +84,9 @@ const CITY_COORDS: Record<string, { x: number, y: number }> = {
 };
 
 const INITIAL_VIEWBOX = { x: 0, y: 0, w: 1000, h: 800 };
-const THEMES_LIST = ["AI", "Climate", "Fintech", "Healthcare", "SaaS", "Consumer"];
 const STAGES_LIST = ["Pre-Seed", "Seed", "Series A", "Series B", "Series C"];
 
-const CustomScatterTooltip = ({ active, payload }: any) => {
+const CustomScatterTooltip = ({ active, payload, currency }: any) => {
     if (active && payload && payload.length) {
       const data = payload[0].payload;
       return (
@@ -97,7 +99,7 @@ const CustomScatterTooltip = ({ active, payload }: any) => {
               </div>
               <div className="flex justify-between gap-4">
                   <span>Funding:</span>
-                  <span className="font-semibold text-emerald-600">${(data.funding / 1000000).toFixed(1)}M</span>
+                  <span className="font-semibold text-emerald-600">{formatMillions(data.funding, currency as ReportingCurrency)}</span>
               </div>
               <div className="flex justify-between gap-4">
                   <span>Loc:</span>
@@ -111,6 +113,8 @@ const CustomScatterTooltip = ({ active, payload }: any) => {
 };
 
 export const CompanyMap: React.FC<CompanyMapProps> = ({ companies }) => {
+  const { currency, convert, formatAmount } = useCurrency();
+  const { themes } = useThemes();
   const [viewMode, setViewMode] = useState<'geo' | 'scatter'>('geo');
   
   const [hoveredCity, setHoveredCity] = useState<CityData | null>(null);
@@ -125,6 +129,11 @@ export const CompanyMap: React.FC<CompanyMapProps> = ({ companies }) => {
   const [selectedThemes, setSelectedThemes] = useState<string[]>([]);
   const [selectedStages, setSelectedStages] = useState<string[]>([]);
 
+  // Drop filters for themes removed from the taxonomy
+  useEffect(() => {
+    setSelectedThemes(prev => prev.filter(id => themes.some(t => t.id === id)));
+  }, [themes]);
+
   // Zoom & Pan State
   const [viewBox, setViewBox] = useState(INITIAL_VIEWBOX);
   const [isDragging, setIsDragging] = useState(false);
@@ -141,10 +150,7 @@ export const CompanyMap: React.FC<CompanyMapProps> = ({ companies }) => {
 
         // Theme Filter
         if (selectedThemes.length > 0) {
-            const hasTheme = selectedThemes.some(theme => {
-                const key = theme.toLowerCase() as keyof typeof c.themes;
-                return c.themes[key];
-            });
+            const hasTheme = selectedThemes.some(id => c.themes.includes(id));
             if (!hasTheme) return false;
         }
 
@@ -231,18 +237,18 @@ export const CompanyMap: React.FC<CompanyMapProps> = ({ companies }) => {
       return filteredCompanies.map(c => ({
           name: c["Organization Name"],
           score: c.scores.comprehensive,
-          funding: c._fundAmt || 0,
+          funding: convert(c.fundingUSD),
           location: c["Headquarters Location"] || "Unknown",
           z: 1 // base size
       })).filter(d => d.funding > 0); // Hide companies with 0 funding to keep log scale clean if needed, or just better viz
-  }, [filteredCompanies]);
+  }, [filteredCompanies, convert]);
 
   const summaryStats = useMemo(() => {
       const count = filteredCompanies.length;
       if (count === 0) return { avgScore: 0, totalFunding: 0, topHub: "N/A" };
 
       const totalScore = filteredCompanies.reduce((acc, c) => acc + c.scores.comprehensive, 0);
-      const totalFunding = filteredCompanies.reduce((acc, c) => acc + (c._fundAmt || 0), 0);
+      const totalFunding = filteredCompanies.reduce((acc, c) => acc + c.fundingUSD, 0);
       
       let maxCity = { name: "N/A", count: 0 };
       cityData.forEach(c => {
@@ -251,10 +257,10 @@ export const CompanyMap: React.FC<CompanyMapProps> = ({ companies }) => {
 
       return {
           avgScore: (totalScore / count).toFixed(1),
-          totalFunding: (totalFunding / 1000000).toFixed(1) + "M",
+          totalFunding: formatAmount(totalFunding),
           topHub: maxCity.name
       };
-  }, [filteredCompanies, cityData]);
+  }, [filteredCompanies, cityData, formatAmount]);
 
   // --- Interaction Handlers ---
   const handleZoom = useCallback((direction: 'in' | 'out') => {
@@ -482,11 +488,11 @@ export const CompanyMap: React.FC<CompanyMapProps> = ({ companies }) => {
                             type="number" 
                             dataKey="funding" 
                             name="Funding" 
-                            tickFormatter={(value) => `$${(value/1000000).toFixed(0)}M`}
+                            tickFormatter={(value) => formatMillions(value, currency, 0)}
                             stroke="#64748b" 
                             fontSize={10}
                         >
-                            <Label value="Total Funding (USD)" offset={0} position="insideBottom" fontSize={12} fill="#64748b" />
+                            <Label value={`Total Funding (${currency})`} offset={0} position="insideBottom" fontSize={12} fill="#64748b" />
                         </XAxis>
                         <YAxis 
                             type="number" 
@@ -499,7 +505,7 @@ export const CompanyMap: React.FC<CompanyMapProps> = ({ companies }) => {
                             <Label value="Comprehensive Score" angle={-90} position="insideLeft" fontSize={12} fill="#64748b" />
                         </YAxis>
                         <ZAxis type="number" dataKey="z" range={[50, 50]} />
-                        <Tooltip content={<CustomScatterTooltip />} cursor={{ strokeDasharray: '3 3' }} />
+                        <Tooltip content={<CustomScatterTooltip currency={currency} />} cursor={{ strokeDasharray: '3 3' }} />
                         <ReferenceLine y={80} stroke="#10b981" strokeDasharray="3 3" label={{ value: "High Potential", fill: "#10b981", fontSize: 10, position: 'insideTopRight' }} />
                         <Scatter name="Companies" data={scatterData} fill="#4f46e5" fillOpacity={0.6}>
                             {scatterData.map((entry, index) => (
@@ -579,18 +585,21 @@ export const CompanyMap: React.FC<CompanyMapProps> = ({ companies }) => {
                         Sectors / Themes
                     </label>
                     <div className="grid grid-cols-2 gap-2">
-                        {THEMES_LIST.map(theme => (
+                        {themes.map(theme => (
                             <button
-                                key={theme}
-                                onClick={() => toggleTheme(theme)}
+                                key={theme.id}
+                                onClick={() => toggleTheme(theme.id)}
                                 className={`px-3 py-2 rounded-lg text-xs font-medium border text-left flex items-center gap-2 transition-all ${
-                                    selectedThemes.includes(theme) 
+                                    selectedThemes.includes(theme.id) 
                                         ? 'bg-indigo-50 border-indigo-200 text-indigo-700' 
                                         : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'
                                 }`}
                             >
-                                <div className={`w-3 h-3 rounded-full border ${selectedThemes.includes(theme) ? 'bg-indigo-500 border-indigo-500' : 'border-slate-300'}`} />
-                                {theme}
+                                <div
+                                    className="w-3 h-3 rounded-full border flex-shrink-0"
+                                    style={selectedThemes.includes(theme.id) ? { backgroundColor: theme.color, borderColor: theme.color } : { borderColor: '#cbd5e1' }}
+                                />
+                                {theme.name}
                             </button>
                         ))}
                     </div>
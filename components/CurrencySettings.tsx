@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { Coins, X, Plus, Trash2, RotateCcw, AlertTriangle } from 'lucide-react';
+import { REPORTING_CURRENCIES, DEFAULT_FX_RATES } from '../services/currency';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface CurrencySettingsProps {
+  unknownCurrencies: string[];
+  onClose: () => void;
+}
+
+export const CurrencySettings: React.FC<CurrencySettingsProps> = ({ unknownCurrencies, onClose }) => {
+  const { t } = useLanguage();
+  const { currency, setCurrency, rates, setRates } = useCurrency();
+  const [newCode, setNewCode] = useState("");
+  const [newRate, setNewRate] = useState("");
+
+  const handleRateChange = (code: string, value: string) => {
+    const rate = parseFloat(value);
+    setRates({ ...rates, [code]: isNaN(rate) ? 0 : rate });
+  };
+
+  const handleRemove = (code: string) => {
+    const next = { ...rates };
+    delete next[code];
+    setRates(next);
+  };
+
+  const handleAdd = () => {
+    const code = newCode.trim().toUpperCase();
+    const rate = parseFloat(newRate);
+    if (!/^[A-Z]{3}$/.test(code) || isNaN(rate) || rate <= 0) return;
+    setRates({ ...rates, [code]: rate });
+    setNewCode("");
+    setNewRate("");
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 print:hidden">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+            <div>
+                <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+                    <Coins size={20} className="text-emerald-600" /> {t('currency_settings')}
+                </h3>
+                <p className="text-sm text-slate-500">{t('currency_settings_desc')}</p>
+            </div>
+            <div className="flex items-center gap-2">
+                <span className="text-xs text-slate-500">{t('reporting_currency')}</span>
+                <div className="flex bg-slate-100 p-1 rounded-lg">
+                    {REPORTING_CURRENCIES.map(code => (
+                        <button
+                            key={code}
+                            onClick={() => setCurrency(code)}
+                            className={`px-3 py-1 text-xs font-semibold rounded-md transition-all ${currency === code ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                        >
+                            {code}
+                        </button>
+                    ))}
+                </div>
+                <button
+                    onClick={() => setRates({ ...DEFAULT_FX_RATES })}
+                    className="p-2 text-slate-400 hover:text-indigo-600 rounded-lg border border-slate-200"
+                    title={t('reset_rates')}
+                >
+                    <RotateCcw size={14} />
+                </button>
+                <button onClick={onClose} className="text-slate-400 hover:text-slate-600 ml-2">
+                    <X size={18} />
+                </button>
+            </div>
+        </div>
+
+        {unknownCurrencies.length > 0 && (
+            <div className="mb-4 bg-amber-50 border border-amber-100 rounded-lg px-4 py-2 text-xs text-amber-700 flex flex-wrap items-center gap-2">
+                <AlertTriangle size={14} /> {t('unknown_currencies')}
+                {unknownCurrencies.map(code => (
+                    <button
+                        key={code}
+                        onClick={() => setNewCode(code)}
+                        className="px-2 py-0.5 rounded border border-amber-200 bg-white font-semibold hover:border-amber-400"
+                    >
+                        {code}
+                    </button>
+                ))}
+            </div>
+        )}
+
+        {/* Rate Table */}
+        <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">{t('fx_rates')}</h4>
+        <p className="text-[11px] text-slate-400 mb-3">{t('fx_rate_hint')}</p>
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+            {Object.keys(rates).sort().map(code => (
+                <div key={code} className="flex items-center gap-1.5 bg-slate-50 border border-slate-100 rounded-lg px-2 py-1.5">
+                    <span className="text-xs font-semibold text-slate-700 w-9">{code}</span>
+                    <input
+                        type="number"
+                        min="0"
+                        step="0.0001"
+                        value={rates[code]}
+                        disabled={code === 'USD'}
+                        onChange={(e) => handleRateChange(code, e.target.value)}
+                        className="w-full min-w-0 text-xs px-2 py-1 bg-white border border-slate-200 rounded text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 disabled:bg-slate-100 disabled:text-slate-400"
+                    />
+                    {code !== 'USD' && (
+                        <button onClick={() => handleRemove(code)} className="text-slate-300 hover:text-rose-600">
+                            <Trash2 size={12} />
+                        </button>
+                    )}
+                </div>
+            ))}
+        </div>
+
+        {/* Add Currency */}
+        <div className="flex items-center justify-end gap-2 mt-6 pt-4 border-t border-slate-100">
+            <input
+                type="text"
+                value={newCode}
+                maxLength={3}
+                onChange={(e) => setNewCode(e.target.value)}
+                placeholder="EUR"
+                className="w-20 text-xs px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-slate-700 uppercase focus:outline-none focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500"
+            />
+            <input
+                type="number"
+                min="0"
+                step="0.0001"
+                value={newRate}
+                onChange={(e) => setNewRate(e.target.value)}
+                placeholder="1.08"
+                className="w-24 text-xs px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-slate-700 focus:outline-none focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500"
+            />
+            <button
+                onClick={handleAdd}
+                disabled={!newCode.trim() || !newRate}
+                className="flex items-center gap-1.5 px-3 py-2 bg-slate-900 hover:bg-slate-800 text-white rounded-lg text-xs font-medium transition-colors disabled:opacity-50"
+            >
+                <Plus size={14} /> {t('add_currency')}
+            </button>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,208 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { MessageSquare, X, Send, Trash2, Wrench, ArrowDownToLine } from 'lucide-react';
+import { ScoredCompany, InvestorStat, ThemeTrend, ChatMessage, CompanyFocus, AIError } from '../types';
+import { createDatasetQuery } from '../services/datasetQuery';
+import { askDataset, DatasetAnswer } from '../services/datasetChat';
+import { toAIRequestError } from '../services/aiProviders';
+import { useAIProvider } from '../contexts/AIProviderContext';
+import { useThemes } from '../contexts/ThemeContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { AIErrorNotice } from './AIErrorNotice';
+
+interface DatasetChatProps {
+  companies: ScoredCompany[];
+  investors: InvestorStat[];
+  trends: ThemeTrend[];
+  onShowCompanies: (focus: CompanyFocus) => void;
+  onClose: () => void;
+}
+
+interface ChatEntry {
+  question: string;
+  answer?: DatasetAnswer;
+  error?: AIError;
+}
+
+const EXAMPLE_QUESTIONS = ['chat_example_filter', 'chat_example_investor', 'chat_example_trend'];
+const MAX_NAMED_LINKS = 12;
+
+// Helper: search_companies {"themes":["Climate"],"limit":5} -> 'search_companies(themes: Climate, limit: 5)'
+const describeCall = (name: string, args: Record<string, unknown>) =>
+  `${name}(${Object.entries(args).map(([key, value]) => `${key}: ${Array.isArray(value) ? value.join(', ') : typeof value === 'object' ? JSON.stringify(value) : value}`).join('; ')})`;
+
+/**
+ * Questions about the loaded dataset, answered by the model through tool
+ * calls into the local query API. Each answer links to the companies it
+ * matched or named, which narrows the company list to those rows.
+ */
+export const DatasetChat: React.FC<DatasetChatProps> = ({ companies, investors, trends, onShowCompanies, onClose }) => {
+  const { t } = useLanguage();
+  const { provider } = useAIProvider();
+  const { themes } = useThemes();
+  const [entries, setEntries] = useState<ChatEntry[]>([]);
+  const [input, setInput] = useState("");
+  const [loadingIndex, setLoadingIndex] = useState<number | null>(null);
+  const transcriptRef = useRef<HTMLDivElement>(null);
+
+  const query = useMemo(() => createDatasetQuery({ companies, investors, trends }, themes), [companies, investors, trends, themes]);
+  const companyById = useMemo(() => new Map(companies.map(c => [c.id, c])), [companies]);
+
+  useEffect(() => {
+    transcriptRef.current?.scrollTo({ top: transcriptRef.current.scrollHeight, behavior: 'smooth' });
+  }, [entries, loadingIndex]);
+
+  // Answers (re)run in place, seeing only the turns before them
+  const runEntry = async (index: number, question: string, previous: ChatEntry[]) => {
+    const history: ChatMessage[] = previous.flatMap(entry => entry.answer ? [
+      { role: 'user' as const, text: entry.question },
+      { role: 'assistant' as const, text: entry.answer.text }
+    ] : []);
+    setLoadingIndex(index);
+    try {
+      const answer = await askDataset(question, history, query, provider);
+      setEntries(current => current.map((e, i) => i === index ? { question, answer } : e));
+    } catch (error) {
+      const { kind, message } = toAIRequestError(error);
+      setEntries(current => current.map((e, i) => i === index ? { question, error: { kind, message } } : e));
+    } finally {
+      setLoadingIndex(null);
+    }
+  };
+
+  const handleAsk = (question: string) => {
+    const text = question.trim();
+    if (!text || loadingIndex !== null) return;
+    const index = entries.length;
+    setEntries([...entries, { question: text }]);
+    setInput("");
+    runEntry(index, text, entries);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 print:hidden">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-4">
+            <div>
+                <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+                    <MessageSquare size={20} className="text-indigo-600" /> {t('ask_dataset')}
+                </h3>
+                <p className="text-sm text-slate-500">{t('ask_dataset_desc')}</p>
+            </div>
+            <div className="flex items-center gap-2">
+                <button
+                    onClick={() => setEntries([])}
+                    disabled={entries.length === 0 || loadingIndex !== null}
+                    className="p-2 text-slate-400 hover:text-rose-600 rounded-lg border border-slate-200 disabled:opacity-50 disabled:hover:text-slate-400"
+                    title={t('clear_conversation')}
+                >
+                    <Trash2 size={14} />
+                </button>
+                <button onClick={onClose} className="text-slate-400 hover:text-slate-600 ml-2">
+                    <X size={18} />
+                </button>
+            </div>
+        </div>
+
+        {/* Transcript */}
+        <div ref={transcriptRef} className="max-h-[480px] overflow-y-auto pr-1 custom-scrollbar space-y-4 mb-4">
+            {entries.length === 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {EXAMPLE_QUESTIONS.map(key => (
+                        <button
+                            key={key}
+                            onClick={() => handleAsk(t(key))}
+                            className="text-xs px-3 py-1.5 rounded-full border border-slate-200 text-slate-600 hover:text-indigo-600 hover:border-indigo-200 transition-colors text-left"
+                        >
+                            {t(key)}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {entries.map((entry, index) => {
+                const mentioned = entry.answer?.mentionedIds.slice(0, MAX_NAMED_LINKS).map(id => companyById.get(id)).filter((c): c is ScoredCompany => Boolean(c)) || [];
+                return (
+                    <div key={index} className="space-y-2">
+                        <div className="flex justify-end">
+                            <p className="max-w-[80%] text-sm bg-slate-900 text-white px-3 py-2 rounded-xl rounded-br-sm whitespace-pre-line">{entry.question}</p>
+                        </div>
+
+                        {loadingIndex === index && (
+                            <p className="text-xs text-slate-500 flex items-center gap-2">
+                                <span className="w-3 h-3 border-2 border-indigo-600/30 border-t-indigo-600 rounded-full animate-spin" />
+                                {t('chat_thinking')}
+                            </p>
+                        )}
+
+                        {entry.error && loadingIndex !== index && (
+                            <AIErrorNotice error={entry.error} onRetry={() => runEntry(index, entry.question, entries.slice(0, index))} retrying={loadingIndex !== null} />
+                        )}
+
+                        {entry.answer && loadingIndex !== index && (
+                            <div className="max-w-[90%] bg-slate-50 border border-slate-100 rounded-xl rounded-bl-sm p-3 space-y-3">
+                                <p className="text-sm text-slate-700 whitespace-pre-line">{entry.answer.text}</p>
+
+                                {/* Links into the company list */}
+                                {(mentioned.length > 0 || entry.answer.matchedIds.length > 0) && (
+                                    <div className="flex flex-wrap items-center gap-1.5">
+                                        {mentioned.map(company => (
+                                            <button
+                                                key={company.id}
+                                                onClick={() => onShowCompanies({ ids: [company.id], label: company["Organization Name"], expandId: company.id })}
+                                                className="text-[11px] px-2 py-0.5 rounded border border-indigo-100 bg-white text-indigo-700 hover:border-indigo-300"
+                                            >
+                                                {company["Organization Name"]}
+                                            </button>
+                                        ))}
+                                        {entry.answer.matchedIds.length > 0 && (
+                                            <button
+                                                onClick={() => onShowCompanies({ ids: entry.answer!.matchedIds, label: entry.question })}
+                                                className="flex items-center gap-1 text-[11px] font-medium px-2 py-0.5 text-indigo-600 hover:text-indigo-800"
+                                            >
+                                                <ArrowDownToLine size={12} /> {t('show_matches_in_list')} ({entry.answer.matchedIds.length})
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
+
+                                {/* What the model looked up, so answers can be checked */}
+                                {entry.answer.toolCalls.length > 0 && (
+                                    <div className="flex flex-wrap items-center gap-1.5 text-[10px] text-slate-400">
+                                        <Wrench size={10} />
+                                        {entry.answer.toolCalls.map((call, i) => (
+                                            <span key={i} className="font-mono px-1.5 py-0.5 rounded bg-white border border-slate-100 truncate max-w-full">
+                                                {describeCall(call.name, call.args)}
+                                            </span>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+
+        {/* Input */}
+        <form
+            onSubmit={(e) => { e.preventDefault(); handleAsk(input); }}
+            className="flex items-center gap-2"
+        >
+            <input
+                type="text"
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                placeholder={t('chat_placeholder')}
+                className="flex-1 text-sm px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-slate-700 placeholder-slate-400 focus:outline-none focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500"
+            />
+            <button
+                type="submit"
+                disabled={!input.trim() || loadingIndex !== null}
+                className="flex items-center gap-1.5 px-3 py-2 bg-slate-900 hover:bg-slate-800 text-white rounded-lg text-xs font-medium transition-colors disabled:opacity-50"
+            >
+                <Send size={14} /> {t('chat_send')}
+            </button>
+        </form>
+    </div>
+  );
+};
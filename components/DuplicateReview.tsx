@@ -0,0 +1,98 @@
+import React from 'react';
+import { SourcedRecord, DuplicateAnalysis, DuplicateGroup, MergeStrategy } from '../types';
+import { Copy, GitMerge, MapPin, Link as LinkIcon } from 'lucide-react';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface DuplicateReviewProps {
+  records: SourcedRecord[];
+  duplicates: DuplicateAnalysis;
+  strategy: MergeStrategy;
+  onStrategyChange: (strategy: MergeStrategy) => void;
+  confirmed: Set<string>;
+  onToggle: (id: string) => void;
+}
+
+const MAX_LISTED_GROUPS = 100;
+
+const STRATEGY_LABELS: Record<MergeStrategy, string> = {
+  preferMostComplete: 'merge_most_complete',
+  preferFirst: 'merge_first',
+  preferLatest: 'merge_latest'
+};
+
+const GroupCard: React.FC<{ group: DuplicateGroup, records: SourcedRecord[], checked: boolean, onToggle: () => void }> = ({ group, records, checked, onToggle }) => {
+    return (
+        <label className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${checked ? 'border-indigo-200 bg-indigo-50/50' : 'border-slate-100 hover:border-slate-200'}`}>
+            <input type="checkbox" checked={checked} onChange={onToggle} className="mt-1 rounded text-indigo-600 focus:ring-indigo-500" />
+            <div className="min-w-0 flex-1">
+                <span className="text-[10px] font-semibold text-amber-700 uppercase tracking-wider">{group.reason}</span>
+                <div className="mt-1 space-y-1">
+                    {group.members.map(idx => {
+                        const { row, fileName } = records[idx];
+                        return (
+                            <div key={idx} className="text-xs text-slate-600 flex flex-wrap items-center gap-x-3 gap-y-0.5">
+                                <span className="font-semibold text-slate-800">{row["Organization Name"]}</span>
+                                <span className="text-slate-400">{fileName}</span>
+                                {row["Headquarters Location"] && <span className="flex items-center gap-1"><MapPin size={10} /> {row["Headquarters Location"]}</span>}
+                                {row["Organization Name URL"] && <span className="flex items-center gap-1 truncate max-w-[220px]"><LinkIcon size={10} /> {row["Organization Name URL"]}</span>}
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </label>
+    );
+};
+
+export const DuplicateReview: React.FC<DuplicateReviewProps> = ({ records, duplicates, strategy, onStrategyChange, confirmed, onToggle }) => {
+  const { t } = useLanguage();
+  const mergedRows = duplicates.matches.reduce((acc, g) => acc + g.members.length - 1, 0);
+  const listed = duplicates.ambiguous.slice(0, MAX_LISTED_GROUPS);
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm space-y-4">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+            <div>
+                <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+                    <Copy size={18} className="text-indigo-600" /> {t('duplicates')}
+                </h3>
+                <p className="text-sm text-slate-500">
+                    {mergedRows} {t('duplicates_merged')}, {duplicates.ambiguous.length} {t('duplicates_to_review')}
+                </p>
+            </div>
+            <div className="flex items-center gap-2">
+                <GitMerge size={14} className="text-slate-400" />
+                <select
+                    value={strategy}
+                    onChange={(e) => onStrategyChange(e.target.value as MergeStrategy)}
+                    className="text-xs border border-slate-200 rounded-lg bg-white py-2 px-2 text-slate-700 focus:ring-indigo-500 focus:border-indigo-500"
+                >
+                    {(Object.keys(STRATEGY_LABELS) as MergeStrategy[]).map(s => (
+                        <option key={s} value={s}>{t(STRATEGY_LABELS[s])}</option>
+                    ))}
+                </select>
+            </div>
+        </div>
+
+        {listed.length > 0 && (
+            <div>
+                <h5 className="text-xs font-bold text-amber-700 uppercase tracking-wider mb-2">{t('possible_duplicates')}</h5>
+                <div className="max-h-72 overflow-y-auto custom-scrollbar space-y-2">
+                    {listed.map(group => (
+                        <GroupCard
+                            key={group.id}
+                            group={group}
+                            records={records}
+                            checked={confirmed.has(group.id)}
+                            onToggle={() => onToggle(group.id)}
+                        />
+                    ))}
+                    {duplicates.ambiguous.length > listed.length && (
+                        <div className="px-3 py-1.5 text-[10px] text-slate-400 italic">+ {duplicates.ambiguous.length - listed.length} more</div>
+                    )}
+                </div>
+            </div>
+        )}
+    </div>
+  );
+};
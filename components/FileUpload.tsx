@@ -2,37 +2,23 @@ import React, { useRef } from 'react';
 import { Upload, FileText, Files } from 'lucide-react';
 
 interface FileUploadProps {
-  onDataLoaded: (contents: string[]) => void;
+  onDataLoaded: (files: File[]) => void;
 }
 
 export const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (!files || files.length === 0) return;
 
-    const filePromises = Array.from(files).map((file: File) => {
-      return new Promise<string>((resolve) => {
-        const reader = new FileReader();
-        reader.onload = (event) => {
-          const text = event.target?.result;
-          if (typeof text === 'string') {
-            resolve(text);
-          } else {
-            resolve("");
-          }
-        };
-        reader.readAsText(file);
-      });
-    });
-
-    const contents = await Promise.all(filePromises);
-    const validContents = contents.filter(c => c.length > 0);
+    // Files are streamed by the CSV parser, so hand them over unread
+    const validFiles = Array.from(files).filter((file: File) => file.size > 0);
     
-    if (validContents.length > 0) {
-      onDataLoaded(validContents);
+    if (validFiles.length > 0) {
+      onDataLoaded(validFiles);
     }
+    e.target.value = '';
   };
 
   return (
@@ -40,7 +26,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded }) => {
          onClick={() => fileInputRef.current?.click()}>
       <input 
         type="file" 
-        accept=".csv" 
+        accept=".csv,.tsv,.txt" 
         multiple
         ref={fileInputRef} 
         onChange={handleFileChange} 
@@ -56,7 +42,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded }) => {
         </div>
         <div className="flex items-center space-x-2 text-xs text-slate-400 bg-slate-100 px-3 py-1 rounded-full">
            <Files size={12} />
-           <span>Supports multiple Research Capstone formatted CSVs</span>
+           <span>Supports multiple Research Capstone formatted CSVs, plus a Funding Rounds export</span>
         </div>
       </div>
     </div>
@@ -0,0 +1,55 @@
+import React from 'react';
+import { FundingTimelineEntry } from '../types';
+import { History } from 'lucide-react';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface FundingTimelineProps {
+  timeline: FundingTimelineEntry[];
+}
+
+const formatRoundDate = (date: number | undefined, locale: string) =>
+  date === undefined ? null : new Date(date).toLocaleDateString(locale, { month: 'short', year: 'numeric' });
+
+export const FundingTimeline: React.FC<FundingTimelineProps> = ({ timeline }) => {
+  const { t, language } = useLanguage();
+  const { formatAmount } = useCurrency();
+
+  return (
+    <div className="mb-6">
+        <h5 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3 flex items-center gap-2">
+            <History size={14} /> {t('funding_timeline')} ({timeline.length})
+        </h5>
+        {timeline.length === 0 ? (
+            <p className="text-xs text-slate-400 italic">{t('no_rounds_joined')}</p>
+        ) : (
+            <div className="relative overflow-x-auto custom-scrollbar pb-2">
+                <div className="flex gap-3 min-w-max">
+                    {timeline.map((round, idx) => (
+                        <div key={idx} className="relative w-44 flex-shrink-0 pt-4">
+                            {/* Rail and dot */}
+                            <div className="absolute top-1.5 left-0 right-0 h-px bg-slate-200" />
+                            <div className="absolute top-0 left-0 w-3 h-3 rounded-full bg-emerald-500 border-2 border-white shadow-sm" />
+                            <div className="bg-white p-3 rounded-lg border border-slate-200 shadow-sm">
+                                <p className="text-[10px] text-slate-400">{formatRoundDate(round.date, language === 'fr' ? 'fr-CA' : 'en-CA') || t('undated')}</p>
+                                <p className="text-xs font-semibold text-slate-800 truncate" title={round.fundingType}>{round.fundingType}</p>
+                                <p className="text-sm font-bold text-emerald-600">{round.amountUSD > 0 ? formatAmount(round.amountUSD) : t('undisclosed')}</p>
+                                {round.leadInvestors.length > 0 && (
+                                    <p className="text-[10px] text-slate-500 truncate mt-1" title={round.leadInvestors.join(', ')}>
+                                        {t('led_by')} {round.leadInvestors.join(', ')}
+                                    </p>
+                                )}
+                                {round.investors.length > 0 && (
+                                    <p className="text-[10px] text-slate-400 truncate" title={round.investors.join(', ')}>
+                                        {round.investors.length} {t('participants')}
+                                    </p>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        )}
+    </div>
+  );
+};
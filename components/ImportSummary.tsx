@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { ImportReport, ImportIssue, SourcedRecord, DuplicateAnalysis, MergeStrategy } from '../types';
+import { FileText, CheckCircle2, XCircle, AlertTriangle, ChevronDown, ChevronUp, Columns, ArrowRight } from 'lucide-react';
+import { DuplicateReview } from './DuplicateReview';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface ImportSummaryProps {
+  reports: ImportReport[];
+  records: SourcedRecord[];
+  duplicates: DuplicateAnalysis;
+  roundCount?: number; // Rounds from a Funding Rounds file uploaded alongside
+  onContinue: (strategy: MergeStrategy, confirmedIds: string[]) => void;
+  onCancel: () => void;
+}
+
+const MAX_LISTED_ISSUES = 200;
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab',
+  '|': 'Pipe'
+};
+
+const IssueList = ({ issues, tone }: { issues: ImportIssue[], tone: 'error' | 'warning' }) => {
+    const { t } = useLanguage();
+    const listed = issues.slice(0, MAX_LISTED_ISSUES);
+    return (
+        <div className="max-h-48 overflow-y-auto custom-scrollbar border border-slate-100 rounded-lg divide-y divide-slate-100">
+            {listed.map((issue, idx) => (
+                <div key={idx} className="flex items-start gap-3 px-3 py-1.5 text-xs">
+                    <span className={`font-mono font-semibold flex-shrink-0 ${tone === 'error' ? 'text-rose-600' : 'text-amber-600'}`}>L{issue.line}</span>
+                    <span className="text-slate-600">{issue.reason}</span>
+                </div>
+            ))}
+            {issues.length > listed.length && (
+                <div className="px-3 py-1.5 text-[10px] text-slate-400 italic">+ {issues.length - listed.length} {t('more_items')}</div>
+            )}
+        </div>
+    );
+};
+
+const FileReportCard: React.FC<{ report: ImportReport }> = ({ report }) => {
+    const { t } = useLanguage();
+    const hasProblems = report.rejected.length > 0 || report.missingRequiredColumns.length > 0;
+    const [isOpen, setIsOpen] = useState(hasProblems);
+
+    return (
+        <div className={`bg-white rounded-xl border shadow-sm ${hasProblems ? 'border-amber-200' : 'border-slate-200'}`}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full p-4 flex items-center justify-between text-left"
+            >
+                <div className="flex items-center gap-3 min-w-0">
+                    <div className="p-2 bg-slate-50 rounded-lg text-slate-500"><FileText size={18} /></div>
+                    <div className="min-w-0">
+                        <h4 className="font-semibold text-slate-800 text-sm truncate">{report.fileName}</h4>
+                        <p className="text-xs text-slate-400">{DELIMITER_LABELS[report.delimiter] || report.delimiter} {t('delimited')}</p>
+                    </div>
+                </div>
+                <div className="flex items-center gap-4 text-xs flex-shrink-0">
+                    <span className="text-slate-500">{report.rowsRead} {t('rows_read')}</span>
+                    <span className="flex items-center gap-1 text-emerald-600 font-medium"><CheckCircle2 size={14} /> {report.rowsAccepted}</span>
+                    <span className={`flex items-center gap-1 font-medium ${report.rejected.length > 0 ? 'text-rose-600' : 'text-slate-300'}`}><XCircle size={14} /> {report.rejected.length}</span>
+                    {isOpen ? <ChevronUp size={16} className="text-slate-400" /> : <ChevronDown size={16} className="text-slate-400" />}
+                </div>
+            </button>
+
+            {isOpen && (
+                <div className="px-4 pb-4 space-y-4 border-t border-slate-100 pt-4 animate-fadeIn">
+                    {report.missingRequiredColumns.length > 0 && (
+                        <div className="bg-rose-50 border border-rose-100 rounded-lg p-3 text-xs text-rose-700">
+                            <span className="font-bold">{t('missing_required')}:</span> {report.missingRequiredColumns.join(', ')}
+                        </div>
+                    )}
+
+                    {report.rejected.length > 0 && (
+                        <div>
+                            <h5 className="text-xs font-bold text-rose-700 uppercase tracking-wider mb-2 flex items-center gap-1"><XCircle size={12} /> {t('rejected_rows')} ({report.rejected.length})</h5>
+                            <IssueList issues={report.rejected} tone="error" />
+                        </div>
+                    )}
+
+                    {report.warnings.length > 0 && (
+                        <div>
+                            <h5 className="text-xs font-bold text-amber-700 uppercase tracking-wider mb-2 flex items-center gap-1"><AlertTriangle size={12} /> {t('row_warnings')} ({report.warnings.length})</h5>
+                            <IssueList issues={report.warnings} tone="warning" />
+                        </div>
+                    )}
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <h5 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-1"><Columns size={12} /> {t('unrecognised_columns')} ({report.unrecognisedColumns.length})</h5>
+                            <div className="flex flex-wrap gap-1.5">
+                                {report.unrecognisedColumns.length > 0 ? report.unrecognisedColumns.map(col => (
+                                    <span key={col} className="text-[10px] px-2 py-0.5 rounded border bg-slate-50 text-slate-600 border-slate-200">{col}</span>
+                                )) : <span className="text-[10px] text-slate-400 italic">{t('none')}</span>}
+                            </div>
+                        </div>
+                        <div>
+                            <h5 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-1"><Columns size={12} /> {t('missing_optional')} ({report.missingOptionalColumns.length})</h5>
+                            <div className="flex flex-wrap gap-1.5">
+                                {report.missingOptionalColumns.length > 0 ? report.missingOptionalColumns.map(col => (
+                                    <span key={col} className="text-[10px] px-2 py-0.5 rounded border bg-amber-50 text-amber-700 border-amber-200">{col}</span>
+                                )) : <span className="text-[10px] text-slate-400 italic">{t('none')}</span>}
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export const ImportSummary: React.FC<ImportSummaryProps> = ({ reports, records, duplicates, roundCount, onContinue, onCancel }) => {
+  const { t } = useLanguage();
+  const [strategy, setStrategy] = useState<MergeStrategy>('preferMostComplete');
+  // Ambiguous matches stay separate unless the user ticks them
+  const [confirmed, setConfirmed] = useState<Set<string>>(new Set());
+
+  const toggleConfirmed = (id: string) => {
+    setConfirmed(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const totals = reports.reduce((acc, r) => ({
+      read: acc.read + r.rowsRead,
+      accepted: acc.accepted + r.rowsAccepted,
+      rejected: acc.rejected + r.rejected.length
+  }), { read: 0, accepted: 0, rejected: 0 });
+
+  return (
+    <div className="w-full max-w-3xl mx-auto space-y-4">
+        <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+            <h3 className="text-lg font-semibold text-slate-800">{t('import_summary')}</h3>
+            <p className="text-sm text-slate-500 mb-4">{t('import_summary_desc')}</p>
+            {roundCount !== undefined && (
+                <p className="text-xs text-indigo-700 bg-indigo-50 border border-indigo-100 rounded-lg px-3 py-2 mb-4">
+                    {roundCount} {t('funding_rounds_joined')}
+                </p>
+            )}
+            <div className="grid grid-cols-3 gap-3">
+                <div className="bg-slate-50 p-3 rounded-lg border border-slate-100 text-center">
+                    <div className="text-lg font-bold text-slate-800">{totals.read}</div>
+                    <div className="text-[10px] text-slate-500 uppercase">{t('rows_read')}</div>
+                </div>
+                <div className="bg-slate-50 p-3 rounded-lg border border-slate-100 text-center">
+                    <div className="text-lg font-bold text-emerald-600">{totals.accepted}</div>
+                    <div className="text-[10px] text-slate-500 uppercase">{t('rows_accepted')}</div>
+                </div>
+                <div className="bg-slate-50 p-3 rounded-lg border border-slate-100 text-center">
+                    <div className={`text-lg font-bold ${totals.rejected > 0 ? 'text-rose-600' : 'text-slate-800'}`}>{totals.rejected}</div>
+                    <div className="text-[10px] text-slate-500 uppercase">{t('rows_rejected')}</div>
+                </div>
+            </div>
+        </div>
+
+        {reports.map((report, idx) => <FileReportCard key={`${report.fileName}-${idx}`} report={report} />)}
+
+        {(duplicates.matches.length > 0 || duplicates.ambiguous.length > 0) && (
+            <DuplicateReview
+                records={records}
+                duplicates={duplicates}
+                strategy={strategy}
+                onStrategyChange={setStrategy}
+                confirmed={confirmed}
+                onToggle={toggleConfirmed}
+            />
+        )}
+
+        <div className="flex items-center justify-end gap-3 pt-2">
+            <button
+                onClick={onCancel}
+                className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-900 rounded-lg hover:bg-white border border-transparent hover:border-slate-200 transition-colors"
+            >
+                {t('cancel')}
+            </button>
+            <button
+                onClick={() => onContinue(strategy, [...confirmed])}
+                disabled={totals.accepted === 0}
+                className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50 flex items-center gap-2 shadow-sm"
+            >
+                {t('continue_dashboard')} <ArrowRight size={16} />
+            </button>
+        </div>
+    </div>
+  );
+};
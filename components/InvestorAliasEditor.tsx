@@ -0,0 +1,169 @@
+import React, { useState, useMemo } from 'react';
+import { ScoredCompany } from '../types';
+import { GitMerge, X, Check, ArrowLeftRight, ArrowRight, Trash2, RotateCcw, Plus, ChevronDown, ChevronUp } from 'lucide-react';
+import { extractInvestors } from '../services/dataProcessing';
+import { groupInvestorVariants, suggestInvestorAliases } from '../services/investorAliases';
+import { useInvestorAliases } from '../contexts/InvestorAliasContext';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface InvestorAliasEditorProps {
+  companies: ScoredCompany[];
+  onClose: () => void;
+}
+
+const MAX_SUGGESTIONS_SHOWN = 25;
+
+export const InvestorAliasEditor: React.FC<InvestorAliasEditorProps> = ({ companies, onClose }) => {
+  const { t } = useLanguage();
+  const { dictionary, addAlias, removeAlias, dismissSuggestion, resetAliases } = useInvestorAliases();
+  const [swapped, setSwapped] = useState<Set<string>>(new Set());
+  const [manualFrom, setManualFrom] = useState("");
+  const [manualTo, setManualTo] = useState("");
+  const [showAutomatic, setShowAutomatic] = useState(false);
+
+  // Spellings as they appear in the data, before any merge
+  const rawNames = useMemo(() => companies.flatMap(extractInvestors), [companies]);
+  const groups = useMemo(() => groupInvestorVariants(rawNames), [rawNames]);
+  const automaticMerges = useMemo(() => groups.filter(g => g.variants.length > 1), [groups]);
+  const suggestions = useMemo(() => suggestInvestorAliases(rawNames, dictionary), [rawNames, dictionary]);
+
+  const toggleSwap = (id: string) => {
+    const next = new Set(swapped);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    setSwapped(next);
+  };
+
+  const handleManualAdd = () => {
+    if (!manualFrom.trim() || !manualTo.trim()) return;
+    addAlias(manualFrom, manualTo);
+    setManualFrom("");
+    setManualTo("");
+  };
+
+  const inputClass = "flex-1 text-xs px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-slate-700 focus:outline-none focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500";
+  const aliasEntries = Object.entries(dictionary.aliases);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 print:hidden">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-4 mb-4">
+            <div>
+                <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+                    <GitMerge size={20} className="text-indigo-600" /> {t('investor_aliases')}
+                </h3>
+                <p className="text-sm text-slate-500">{t('investor_aliases_desc')}</p>
+            </div>
+            <div className="flex items-center gap-2">
+                <button
+                    onClick={resetAliases}
+                    className="p-2 text-slate-400 hover:text-indigo-600 rounded-lg border border-slate-200"
+                    title={t('reset_aliases')}
+                >
+                    <RotateCcw size={14} />
+                </button>
+                <button onClick={onClose} className="text-slate-400 hover:text-slate-600 ml-2">
+                    <X size={18} />
+                </button>
+            </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Suggestions */}
+            <div>
+                <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">{t('suggested_merges')} ({suggestions.length})</h4>
+                {suggestions.length === 0 ? (
+                    <p className="text-xs text-slate-400 italic">{t('no_alias_suggestions')}</p>
+                ) : (
+                    <div className="space-y-1.5 max-h-[360px] overflow-y-auto pr-1 custom-scrollbar">
+                        {suggestions.slice(0, MAX_SUGGESTIONS_SHOWN).map(s => {
+                            const [from, to] = swapped.has(s.id) ? [s.to, s.from] : [s.from, s.to];
+                            return (
+                                <div key={s.id} className="flex items-center gap-2 p-2 rounded-lg border border-slate-100 bg-slate-50/50">
+                                    <div className="flex-1 min-w-0">
+                                        <div className="flex items-center gap-1.5 text-xs">
+                                            <span className="text-slate-500 truncate" title={from}>{from}</span>
+                                            <ArrowRight size={12} className="text-slate-300 flex-shrink-0" />
+                                            <span className="font-semibold text-slate-800 truncate" title={to}>{to}</span>
+                                        </div>
+                                        <p className="text-[10px] text-slate-400">
+                                            {t(`alias_reason_${s.reason}`)}{s.reason === 'spelling' && ` · ${(s.similarity * 100).toFixed(0)}%`} · {s.mentions} {t('mentions')}
+                                        </p>
+                                    </div>
+                                    <button onClick={() => toggleSwap(s.id)} className="p-1.5 text-slate-400 hover:text-indigo-600 rounded" title={t('swap_direction')}>
+                                        <ArrowLeftRight size={14} />
+                                    </button>
+                                    <button onClick={() => addAlias(from, to)} className="p-1.5 text-emerald-600 hover:bg-emerald-50 rounded" title={t('confirm_merge')}>
+                                        <Check size={14} />
+                                    </button>
+                                    <button onClick={() => dismissSuggestion(s.id)} className="p-1.5 text-slate-400 hover:text-rose-600 rounded" title={t('dismiss')}>
+                                        <X size={14} />
+                                    </button>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+
+            {/* Confirmed aliases */}
+            <div className="space-y-4">
+                <div>
+                    <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">{t('confirmed_aliases')} ({aliasEntries.length})</h4>
+                    <div className="flex items-center gap-2 mb-2">
+                        <input type="text" list="investor-alias-names" value={manualFrom} onChange={(e) => setManualFrom(e.target.value)} placeholder={t('alias_from')} className={inputClass} />
+                        <ArrowRight size={12} className="text-slate-300 flex-shrink-0" />
+                        <input type="text" list="investor-alias-names" value={manualTo} onChange={(e) => setManualTo(e.target.value)} placeholder={t('alias_to')} className={inputClass} />
+                        <button
+                            onClick={handleManualAdd}
+                            disabled={!manualFrom.trim() || !manualTo.trim()}
+                            className="p-2 bg-slate-900 hover:bg-slate-800 text-white rounded-lg disabled:opacity-50"
+                            title={t('add_alias')}
+                        >
+                            <Plus size={14} />
+                        </button>
+                        <datalist id="investor-alias-names">
+                            {groups.map(g => <option key={g.key} value={g.canonical} />)}
+                        </datalist>
+                    </div>
+                    {aliasEntries.length === 0 ? (
+                        <p className="text-xs text-slate-400 italic">{t('no_aliases')}</p>
+                    ) : (
+                        <div className="space-y-1 max-h-[200px] overflow-y-auto pr-1 custom-scrollbar">
+                            {aliasEntries.map(([key, name]) => (
+                                <div key={key} className="flex items-center justify-between gap-2 text-xs py-1 border-b border-slate-100 last:border-0">
+                                    <span className="flex items-center gap-1.5 min-w-0">
+                                        <span className="text-slate-500 truncate">{key}</span>
+                                        <ArrowRight size={12} className="text-slate-300 flex-shrink-0" />
+                                        <span className="font-semibold text-slate-800 truncate">{name}</span>
+                                    </span>
+                                    <button onClick={() => removeAlias(key)} className="p-1 text-slate-400 hover:text-rose-600 rounded" title={t('remove_alias')}>
+                                        <Trash2 size={12} />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                {/* Automatic merges */}
+                <div>
+                    <button onClick={() => setShowAutomatic(!showAutomatic)} className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-1">
+                        {t('automatic_merges')} ({automaticMerges.length}) {showAutomatic ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+                    </button>
+                    <p className="text-[10px] text-slate-400 mt-0.5">{t('automatic_merges_desc')}</p>
+                    {showAutomatic && (
+                        <div className="space-y-1 mt-2 max-h-[200px] overflow-y-auto pr-1 custom-scrollbar">
+                            {automaticMerges.map(g => (
+                                <div key={g.key} className="text-xs">
+                                    <span className="font-semibold text-slate-800">{g.canonical}</span>
+                                    <span className="text-slate-400"> ← {g.variants.filter(v => v !== g.canonical).join(' · ')}</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    </div>
+  );
+};
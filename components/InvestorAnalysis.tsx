@@ -1,39 +1,101 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
-import { InvestorStat, LiveIntelResult, PortfolioItem } from '../types';
-import { Briefcase, TrendingUp, ChevronDown, ChevronUp, Search, Filter, Globe, ExternalLink, Activity, Award, Copy, Check, Info, BrainCircuit, Lightbulb, PieChart } from 'lucide-react';
-import { generateLiveIntelligence, generateInvestorInternalAnalysis, InvestorInternalAnalysis } from '../services/geminiService';
+import { InvestorStat, PortfolioItem, ThemeDefinition, CoInvestmentGraph, InvestorMetricKey, StageBucket } from '../types';
+import { Briefcase, TrendingUp, ChevronDown, ChevronUp, Search, Filter, Globe, ExternalLink, Activity, Award, Copy, Check, Info, BrainCircuit, ArrowDownWideNarrow, ArrowUpNarrowWide } from 'lucide-react';
+import { generateLiveIntelligence, generateInvestorInternalAnalysis } from '../services/geminiService';
+import { useAIResults } from '../contexts/AIResultsContext';
+import { useAIProvider } from '../contexts/AIProviderContext';
+import { toAIRequestError } from '../services/aiProviders';
+import { useThemes } from '../contexts/ThemeContext';
+import { usePromptTemplates } from '../contexts/PromptTemplateContext';
+import { memoToText } from '../services/promptTemplates';
+import { CoInvestmentNetwork } from './CoInvestmentNetwork';
+import { AIErrorNotice } from './AIErrorNotice';
+import { MemoSections } from './MemoSections';
+import { STAGE_BUCKETS } from '../services/dataProcessing';
 
 interface InvestorAnalysisProps {
   investors: InvestorStat[];
+  network: CoInvestmentGraph;
 }
 
-const THEME_STYLES: Record<string, string> = {
-  'AI': 'bg-blue-50 text-blue-700 border-blue-200',
-  'Climate': 'bg-emerald-50 text-emerald-700 border-emerald-200',
-  'Fintech': 'bg-amber-50 text-amber-700 border-amber-200',
-  'Healthcare': 'bg-rose-50 text-rose-700 border-rose-200',
-  'SaaS': 'bg-violet-50 text-violet-700 border-violet-200',
-  'Consumer': 'bg-teal-50 text-teal-700 border-teal-200',
-  'General': 'bg-slate-50 text-slate-700 border-slate-200'
+// Tint for a portfolio company's primary theme; slate when it matched none
+const themeChipStyle = (theme?: ThemeDefinition): React.CSSProperties => {
+  const color = theme?.color || '#64748b';
+  return { backgroundColor: `${color}14`, borderColor: `${color}40`, color };
 };
 
-const CustomTooltip = ({ active, payload, label }: any) => {
+const STAGE_LABELS: Record<StageBucket, string> = {
+  seed: 'Seed',
+  seriesA: 'Series A',
+  seriesB: 'Series B',
+  growth: 'Series C+',
+  other: 'Other'
+};
+
+const STAGE_COLORS: Record<StageBucket, string> = {
+  seed: '#a5b4fc',
+  seriesA: '#818cf8',
+  seriesB: '#6366f1',
+  growth: '#4338ca',
+  other: '#cbd5e1'
+};
+
+const formatPercent = (v: number) => `${(v * 100).toFixed(0)}%`;
+
+interface InvestorMetric {
+  key: InvestorMetricKey;
+  label: string;
+  format: (value: number) => string;
+}
+
+const INVESTOR_METRICS: InvestorMetric[] = [
+  { key: 'count', label: 'Deal Count', format: v => `${v}` },
+  { key: 'leadCount', label: 'Lead Deals', format: v => `${v}` },
+  { key: 'avgScore', label: 'Avg. Portfolio Score', format: v => v.toFixed(1) },
+  { key: 'medianScore', label: 'Median Portfolio Score', format: v => v.toFixed(1) },
+  { key: 'exitShare', label: 'Acquired or Closed', format: formatPercent },
+  { key: 'leadShare', label: 'Lead Share', format: formatPercent },
+  { key: 'themeConcentration', label: 'Theme Concentration (HHI)', format: v => v.toFixed(2) },
+  ...STAGE_BUCKETS.map(stage => ({ key: `stage_${stage}` as InvestorMetricKey, label: `${STAGE_LABELS[stage]} Share`, format: formatPercent }))
+];
+
+const MIN_DEAL_OPTIONS = [1, 2, 3, 5, 10];
+const LIST_PAGE_SIZE = 20;
+
+// Stage metrics are shares of the investor's deals; everything else is stored on InvestorStat
+const metricValue = (inv: InvestorStat, key: InvestorMetricKey): number =>
+  key.startsWith('stage_') ? inv.stageMix[key.slice('stage_'.length) as StageBucket] / inv.count : inv[key as Exclude<InvestorMetricKey, `stage_${string}`>];
+
+const StageMixBar = ({ inv }: { inv: InvestorStat }) => (
+    <div className="h-1.5 w-full bg-slate-100 rounded-full overflow-hidden flex" title={STAGE_BUCKETS.filter(s => inv.stageMix[s] > 0).map(s => `${STAGE_LABELS[s]}: ${inv.stageMix[s]}`).join(' · ')}>
+        {STAGE_BUCKETS.map(stage => (
+            <div key={stage} className="h-full" style={{ width: `${(inv.stageMix[stage] / inv.count) * 100}%`, backgroundColor: STAGE_COLORS[stage] }} />
+        ))}
+    </div>
+);
+
+const CustomTooltip = ({ active, payload, metric }: any) => {
+  const { getTheme } = useThemes();
   if (active && payload && payload.length) {
     const data = payload[0].payload as InvestorStat;
+    const m = metric as InvestorMetric;
     return (
       <div className="bg-white p-3 border border-slate-200 shadow-lg rounded-lg max-w-[250px] z-50">
         <p className="font-bold text-slate-800 mb-1">{data.name}</p>
-        <p className="text-xs text-slate-500 mb-2">{data.count} Investment{data.count !== 1 ? 's' : ''}</p>
+        <p className="text-xs text-slate-500 mb-2">
+            {data.count} Investment{data.count !== 1 ? 's' : ''}
+            {m.key !== 'count' && m.key !== 'leadCount' && <> · {m.label}: <span className="font-semibold text-slate-700">{m.format(metricValue(data, m.key))}</span></>}
+        </p>
+        <p className="text-[10px] text-slate-500 mb-2">Led {data.leadCount} · Followed {data.count - data.leadCount}</p>
+        <div className="mb-2"><StageMixBar inv={data} /></div>
         
         <div className="border-t border-slate-100 pt-2">
             <p className="text-[10px] font-semibold text-slate-400 uppercase tracking-wider mb-1">Portfolio (Batch)</p>
             <div className="flex flex-wrap gap-1 max-h-32 overflow-y-auto custom-scrollbar">
                 {data.portfolio.slice(0, 10).map((item, idx) => {
-                     const primaryTheme = item.themes[0] || 'General';
-                     const style = THEME_STYLES[primaryTheme] || THEME_STYLES['General'];
                      return (
-                         <span key={idx} className={`text-[9px] px-1.5 py-0.5 rounded border truncate max-w-full ${style}`}>
+                         <span key={idx} className={`text-[9px] px-1.5 py-0.5 rounded border truncate max-w-full ${item.role === 'lead' ? 'font-bold' : ''}`} style={themeChipStyle(getTheme(item.themes[0]))}>
                              {item.name}
                          </span>
                      );
@@ -111,6 +173,7 @@ const MarkdownText = ({ content }: { content: string }) => (
 // Collapsible Portfolio Component
 const InvestorPortfolioList = ({ portfolio }: { portfolio: PortfolioItem[] }) => {
   const [isOpen, setIsOpen] = useState(false);
+  const { themes, getTheme } = useThemes();
 
   return (
     <div className="mt-3 mb-4">
@@ -129,11 +192,13 @@ const InvestorPortfolioList = ({ portfolio }: { portfolio: PortfolioItem[] }) =>
         {isOpen && (
             <div className="mt-2 pl-2 animate-fadeIn">
                 <div className="flex flex-wrap gap-1.5 mb-3">
-                    {portfolio.map((item, i) => {
-                        const primaryTheme = item.themes[0] || 'General';
-                        const style = THEME_STYLES[primaryTheme] || THEME_STYLES['General'];
+                    {/* Led companies first */}
+                    {[...portfolio].sort((a, b) => (a.role === 'lead' ? 0 : 1) - (b.role === 'lead' ? 0 : 1)).map((item, i) => {
                         return (
-                            <span key={i} className={`text-xs px-2 py-1 rounded border border-opacity-60 ${style}`}>
+                            <span key={i} className="text-xs px-2 py-1 rounded border flex items-center gap-1" style={themeChipStyle(getTheme(item.themes[0]))}>
+                                {item.role === 'lead' && (
+                                    <span className="text-[9px] font-bold uppercase px-1 rounded bg-white/70 border border-current" title="Lead investor">Lead</span>
+                                )}
                                 {item.name}
                             </span>
                         );
@@ -142,10 +207,10 @@ const InvestorPortfolioList = ({ portfolio }: { portfolio: PortfolioItem[] }) =>
                 
                 {/* Industry Color Legend */}
                 <div className="flex flex-wrap gap-x-4 gap-y-2 pt-3 border-t border-slate-100">
-                     {Object.keys(THEME_STYLES).filter(k => k !== 'General').map(theme => (
-                         <div key={theme} className="flex items-center gap-1.5">
-                             <div className={`w-2.5 h-2.5 rounded-full ${THEME_STYLES[theme].split(' ')[0]}`} />
-                             <span className="text-[11px] font-bold text-slate-600">{theme}</span>
+                     {themes.map(theme => (
+                         <div key={theme.id} className="flex items-center gap-1.5">
+                             <div className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: theme.color }} />
+                             <span className="text-[11px] font-bold text-slate-600">{theme.name}</span>
                          </div>
                      ))}
                 </div>
@@ -155,48 +220,83 @@ const InvestorPortfolioList = ({ portfolio }: { portfolio: PortfolioItem[] }) =>
   );
 };
 
-export const InvestorAnalysis: React.FC<InvestorAnalysisProps> = ({ investors }) => {
+export const InvestorAnalysis: React.FC<InvestorAnalysisProps> = ({ investors, network }) => {
   const [searchTerm, setSearchTerm] = useState("");
   const [activeTheme, setActiveTheme] = useState("All");
   const [expandedInvestor, setExpandedInvestor] = useState<string | null>(null);
   
-  // Live Intel State
-  const [liveIntel, setLiveIntel] = useState<Record<string, LiveIntelResult>>({});
+  // AI outputs are shared so they can be saved with the session
+  const { results, setResult, errors, setError } = useAIResults();
+  const { provider } = useAIProvider();
+  const liveIntel = results.investorIntel;
+  const internalAnalyses = results.investorAnalyses;
   const [loadingIntel, setLoadingIntel] = useState<string | null>(null);
-
-  // Internal Analysis State
-  const [internalAnalyses, setInternalAnalyses] = useState<Record<string, InvestorInternalAnalysis>>({});
   const [loadingInternal, setLoadingInternal] = useState<string | null>(null);
+  const { getActiveTemplate } = usePromptTemplates();
+  const investorTemplate = getActiveTemplate('investor');
+  // Analyses written with another template can be redone with the active one
+  const needsAnalysis = (name: string) => !internalAnalyses[name] || internalAnalyses[name].templateId !== investorTemplate.id;
+
+  const { themes, getTheme } = useThemes();
+  const themeName = (id: string) => getTheme(id)?.name || id;
+
+  const [sortKey, setSortKey] = useState<InvestorMetricKey>('count');
+  const [sortAscending, setSortAscending] = useState(false);
+  const [minDeals, setMinDeals] = useState(1);
+  const [leadsOnly, setLeadsOnly] = useState(false);
+  const [visibleCount, setVisibleCount] = useState(6);
 
-  const themes = ["All", "AI", "Climate", "Fintech", "Healthcare", "SaaS", "Consumer"];
+  // In the leads-only ranking, "deals" means deals the investor led
+  const rankKey: InvestorMetricKey = leadsOnly && sortKey === 'count' ? 'leadCount' : sortKey;
+  const metric = INVESTOR_METRICS.find(m => m.key === rankKey)!;
 
-  const filteredInvestors = investors.filter(inv => {
-    const matchesSearch = inv.name.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesTheme = activeTheme === "All" || inv.topThemes.includes(activeTheme);
-    return matchesSearch && matchesTheme;
-  });
+  // Ties fall back to deal count, so small investors don't crowd out active ones with the same value
+  const filteredInvestors = useMemo(() => investors
+    .filter(inv => {
+      const matchesSearch = inv.name.toLowerCase().includes(searchTerm.toLowerCase());
+      const matchesTheme = activeTheme === "All" || inv.topThemes.includes(activeTheme);
+      return matchesSearch && matchesTheme && (leadsOnly ? inv.leadCount : inv.count) >= minDeals;
+    })
+    .sort((a, b) => (sortAscending ? 1 : -1) * (metricValue(a, rankKey) - metricValue(b, rankKey)) || b.count - a.count),
+    [investors, searchTerm, activeTheme, minDeals, leadsOnly, rankKey, sortAscending]);
 
-  const topInvestors = filteredInvestors.slice(0, 15);
-  const featuredInvestors = filteredInvestors.slice(0, 6);
+  // Deal counts are drawn as a lead/follow stack
+  const stackRoles = rankKey === 'count';
+  const topInvestors = filteredInvestors.slice(0, 15).map(inv => ({
+    ...inv,
+    value: metricValue(inv, rankKey),
+    lead: inv.leadCount,
+    follow: inv.count - inv.leadCount
+  }));
+  const listedInvestors = filteredInvestors.slice(0, visibleCount);
 
   const toggleExpand = (name: string) => {
     setExpandedInvestor(expandedInvestor === name ? null : name);
   };
 
-  const handleBackgroundCheck = async (e: React.MouseEvent, name: string) => {
-    e.stopPropagation();
+  const handleBackgroundCheck = async (name: string) => {
     setLoadingIntel(name);
-    const result = await generateLiveIntelligence(name, "investor");
-    setLiveIntel(prev => ({ ...prev, [name]: result }));
-    setLoadingIntel(null);
+    try {
+      setResult('investorIntel', name, await generateLiveIntelligence(name, "investor", provider));
+    } catch (error) {
+      const { kind, message } = toAIRequestError(error);
+      setError('investorIntel', name, { kind, message });
+    } finally {
+      setLoadingIntel(null);
+    }
   };
 
-  const handleInternalAnalysis = async (e: React.MouseEvent, investor: InvestorStat) => {
-      e.stopPropagation();
+  const handleInternalAnalysis = async (investor: InvestorStat) => {
       setLoadingInternal(investor.name);
-      const analysis = await generateInvestorInternalAnalysis(investor);
-      setInternalAnalyses(prev => ({ ...prev, [investor.name]: analysis }));
-      setLoadingInternal(null);
+      try {
+          const analysis = await generateInvestorInternalAnalysis(investor, investorTemplate, provider, themeName);
+          setResult('investorAnalyses', investor.name, analysis);
+      } catch (error) {
+          const { kind, message } = toAIRequestError(error);
+          setError('investorAnalyses', investor.name, { kind, message });
+      } finally {
+          setLoadingInternal(null);
+      }
   };
 
   return (
@@ -205,7 +305,7 @@ export const InvestorAnalysis: React.FC<InvestorAnalysisProps> = ({ investors })
       <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 print:hidden">
         {/* Theme Filters */}
         <div className="flex flex-wrap gap-2 order-2 md:order-1">
-        {themes.map(theme => (
+        {["All", ...themes.map(theme => theme.id)].map(theme => (
             <button
             key={theme}
             onClick={() => setActiveTheme(theme)}
@@ -215,7 +315,7 @@ export const InvestorAnalysis: React.FC<InvestorAnalysisProps> = ({ investors })
                 : 'bg-white text-slate-600 border-slate-200 hover:border-indigo-300 hover:text-indigo-600'
             }`}
             >
-            {theme}
+            {theme === "All" ? theme : themeName(theme)}
             </button>
         ))}
         </div>
@@ -240,13 +340,51 @@ export const InvestorAnalysis: React.FC<InvestorAnalysisProps> = ({ investors })
         <div className="lg:col-span-2 bg-white p-6 rounded-xl shadow-sm border border-slate-200">
           <h3 className="text-lg font-semibold text-slate-800 mb-4 flex items-center gap-2">
             <Briefcase size={20} className="text-indigo-600" />
-            Most Active Investors {activeTheme !== "All" && <span className="text-slate-400 text-sm font-normal">in {activeTheme}</span>}
+            Top Investors by {metric.label} {activeTheme !== "All" && <span className="text-slate-400 text-sm font-normal">in {themeName(activeTheme)}</span>}
           </h3>
-          <p className="text-sm text-slate-500 mb-6">
-            {filteredInvestors.length === 0 
-                ? "No investors found matching your criteria."
-                : `Top 15 investors by deal volume ${activeTheme !== 'All' ? `with interests in ${activeTheme}` : 'in this dataset'}.`}
-          </p>
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+            <p className="text-sm text-slate-500">
+                {filteredInvestors.length === 0 
+                    ? "No investors found matching your criteria."
+                    : `Top 15 of ${filteredInvestors.length} investors ${activeTheme !== 'All' ? `with interests in ${themeName(activeTheme)}` : 'in this dataset'}.`}
+            </p>
+            {/* Ranking controls */}
+            <div className="flex items-center gap-2 print:hidden">
+                <div className="flex bg-slate-100 p-1 rounded-lg">
+                    {[false, true].map(only => (
+                        <button
+                            key={String(only)}
+                            onClick={() => setLeadsOnly(only)}
+                            className={`px-2.5 py-1 text-xs font-semibold rounded-md transition-all ${leadsOnly === only ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                        >
+                            {only ? 'Leads only' : 'All deals'}
+                        </button>
+                    ))}
+                </div>
+                <select
+                    value={sortKey}
+                    onChange={(e) => setSortKey(e.target.value as InvestorMetricKey)}
+                    className="text-xs px-2 py-1.5 bg-white border border-slate-200 rounded-lg text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500"
+                >
+                    {INVESTOR_METRICS.map(m => <option key={m.key} value={m.key}>{m.label}</option>)}
+                </select>
+                <button
+                    onClick={() => setSortAscending(!sortAscending)}
+                    className="p-1.5 text-slate-500 hover:text-indigo-600 border border-slate-200 rounded-lg"
+                    title={sortAscending ? 'Lowest first' : 'Highest first'}
+                >
+                    {sortAscending ? <ArrowUpNarrowWide size={14} /> : <ArrowDownWideNarrow size={14} />}
+                </button>
+                <select
+                    value={minDeals}
+                    onChange={(e) => setMinDeals(Number(e.target.value))}
+                    className="text-xs px-2 py-1.5 bg-white border border-slate-200 rounded-lg text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500"
+                    title="Averages and shares are noisy for investors with few deals"
+                >
+                    {MIN_DEAL_OPTIONS.map(n => <option key={n} value={n}>{n}+ deal{n !== 1 ? 's' : ''}</option>)}
+                </select>
+            </div>
+          </div>
           
           {topInvestors.length > 0 ? (
               <div className="h-[320px] w-full">
@@ -264,13 +402,20 @@ export const InvestorAnalysis: React.FC<InvestorAnalysisProps> = ({ investors })
                     />
                     <Tooltip 
                       cursor={{ fill: '#f1f5f9' }}
-                      content={<CustomTooltip />}
+                      content={<CustomTooltip metric={metric} />}
                     />
-                    <Bar dataKey="count" fill="#4f46e5" radius={[0, 4, 4, 0]} barSize={12}>
-                      {topInvestors.map((entry, index) => (
-                          <Cell key={`cell-${index}`} fill={index < 3 ? '#4f46e5' : '#818cf8'} />
-                      ))}
-                    </Bar>
+                    {stackRoles ? (
+                      <>
+                        <Bar dataKey="lead" name="Led" stackId="deals" fill="#4f46e5" barSize={12} />
+                        <Bar dataKey="follow" name="Followed" stackId="deals" fill="#c7d2fe" radius={[0, 4, 4, 0]} barSize={12} />
+                      </>
+                    ) : (
+                      <Bar dataKey="value" fill="#4f46e5" radius={[0, 4, 4, 0]} barSize={12}>
+                        {topInvestors.map((entry, index) => (
+                            <Cell key={`cell-${index}`} fill={index < 3 ? '#4f46e5' : '#818cf8'} />
+                        ))}
+                      </Bar>
+                    )}
                   </BarChart>
                 </ResponsiveContainer>
               </div>
@@ -295,7 +440,7 @@ export const InvestorAnalysis: React.FC<InvestorAnalysisProps> = ({ investors })
           </div>
 
           <div className="space-y-3 max-h-[600px] overflow-y-auto pr-2 custom-scrollbar">
-              {featuredInvestors.map((inv) => (
+              {listedInvestors.map((inv) => (
                   <div 
                       key={inv.name} 
                       className={`bg-white rounded-xl border border-slate-200 shadow-sm transition-all duration-200 ${expandedInvestor === inv.name ? 'ring-2 ring-indigo-500/20' : 'hover:shadow-md'}`}
@@ -306,8 +451,28 @@ export const InvestorAnalysis: React.FC<InvestorAnalysisProps> = ({ investors })
                       >
                           <div className="flex justify-between items-start mb-2">
                               <h5 className="font-semibold text-slate-800 text-sm">{inv.name}</h5>
-                              <span className="bg-indigo-50 text-indigo-700 text-xs font-bold px-2 py-1 rounded-full">{inv.count} Deals</span>
+                              <div className="flex items-center gap-1.5 flex-shrink-0">
+                                  {rankKey !== 'count' && (
+                                      <span className="bg-emerald-50 text-emerald-700 text-xs font-bold px-2 py-1 rounded-full" title={metric.label}>{metric.format(metricValue(inv, rankKey))}</span>
+                                  )}
+                                  <span className="bg-indigo-50 text-indigo-700 text-xs font-bold px-2 py-1 rounded-full">{inv.count} Deals</span>
+                              </div>
+                          </div>
+                          {/* Quality metrics */}
+                          <div className="grid grid-cols-4 gap-2 mb-2 text-center">
+                              {[
+                                  { label: 'Avg', value: inv.avgScore.toFixed(0), title: `Avg. portfolio score (median ${inv.medianScore.toFixed(0)})` },
+                                  { label: 'Exits', value: formatPercent(inv.exitShare), title: 'Portfolio acquired or closed' },
+                                  { label: 'Lead', value: formatPercent(inv.leadShare), title: `Led ${inv.leadCount} of ${inv.count} deals` },
+                                  { label: 'HHI', value: inv.themeConcentration.toFixed(2), title: 'Theme concentration (1 = single theme)' }
+                              ].map(stat => (
+                                  <div key={stat.label} className="bg-slate-50 rounded-md py-1" title={stat.title}>
+                                      <p className="text-xs font-bold text-slate-700">{stat.value}</p>
+                                      <p className="text-[9px] text-slate-400 uppercase tracking-wider">{stat.label}</p>
+                                  </div>
+                              ))}
                           </div>
+                          <div className="mb-3"><StageMixBar inv={inv} /></div>
                           <div className="flex justify-between items-end">
                               <div>
                                   <p className="text-[10px] text-slate-400 uppercase tracking-wider mb-1">Top Interests</p>
@@ -319,7 +484,7 @@ export const InvestorAnalysis: React.FC<InvestorAnalysisProps> = ({ investors })
                                                     ? 'bg-indigo-100 text-indigo-700 border-indigo-200 font-medium' 
                                                     : 'bg-slate-100 text-slate-600 border-slate-200'
                                               }`}>
-                                                  {theme}
+                                                  {themeName(theme)}
                                               </span>
                                           ))
                                       ) : (
@@ -339,9 +504,9 @@ export const InvestorAnalysis: React.FC<InvestorAnalysisProps> = ({ investors })
 
                               {/* Action Buttons */}
                               <div className="grid grid-cols-2 gap-2 mb-3 print:hidden">
-                                  {!internalAnalyses[inv.name] && (
+                                  {needsAnalysis(inv.name) && (
                                       <button
-                                        onClick={(e) => handleInternalAnalysis(e, inv)}
+                                        onClick={(e) => { e.stopPropagation(); handleInternalAnalysis(inv); }}
                                         disabled={loadingInternal === inv.name}
                                         className="py-2 bg-indigo-600 text-white hover:bg-indigo-700 rounded-lg text-xs font-medium flex items-center justify-center gap-2 transition-colors shadow-sm"
                                       >
@@ -352,7 +517,7 @@ export const InvestorAnalysis: React.FC<InvestorAnalysisProps> = ({ investors })
                                               </>
                                           ) : (
                                               <>
-                                                <BrainCircuit size={12} /> Internal Analytics
+                                                <BrainCircuit size={12} /> {internalAnalyses[inv.name] ? 'Regenerate with Template' : 'Internal Analytics'}
                                               </>
                                           )}
                                       </button>
@@ -360,9 +525,9 @@ export const InvestorAnalysis: React.FC<InvestorAnalysisProps> = ({ investors })
 
                                   {!liveIntel[inv.name] && (
                                     <button 
-                                        onClick={(e) => handleBackgroundCheck(e, inv.name)}
+                                        onClick={(e) => { e.stopPropagation(); handleBackgroundCheck(inv.name); }}
                                         disabled={loadingIntel === inv.name}
-                                        className={`py-2 bg-white border border-slate-200 text-slate-600 hover:text-indigo-600 hover:border-indigo-200 hover:bg-slate-50 rounded-lg text-xs font-medium flex items-center justify-center gap-2 transition-colors ${internalAnalyses[inv.name] ? 'col-span-2' : ''}`}
+                                        className={`py-2 bg-white border border-slate-200 text-slate-600 hover:text-indigo-600 hover:border-indigo-200 hover:bg-slate-50 rounded-lg text-xs font-medium flex items-center justify-center gap-2 transition-colors ${needsAnalysis(inv.name) ? '' : 'col-span-2'}`}
                                     >
                                         {loadingIntel === inv.name ? (
                                             <>
@@ -378,6 +543,26 @@ export const InvestorAnalysis: React.FC<InvestorAnalysisProps> = ({ investors })
                                   )}
                               </div>
 
+                              {/* Failed requests, with a retry */}
+                              {!internalAnalyses[inv.name] && errors.investorAnalyses[inv.name] && (
+                                  <div className="mb-3">
+                                      <AIErrorNotice
+                                          error={errors.investorAnalyses[inv.name]}
+                                          onRetry={() => handleInternalAnalysis(inv)}
+                                          retrying={loadingInternal === inv.name}
+                                      />
+                                  </div>
+                              )}
+                              {!liveIntel[inv.name] && errors.investorIntel[inv.name] && (
+                                  <div className="mb-3">
+                                      <AIErrorNotice
+                                          error={errors.investorIntel[inv.name]}
+                                          onRetry={() => handleBackgroundCheck(inv.name)}
+                                          retrying={loadingIntel === inv.name}
+                                      />
+                                  </div>
+                              )}
+
                               {/* Internal Analysis Results */}
                               {internalAnalyses[inv.name] && (
                                   <div className="mt-3 bg-white p-3 rounded-xl border border-slate-200 shadow-sm mb-3">
@@ -386,24 +571,9 @@ export const InvestorAnalysis: React.FC<InvestorAnalysisProps> = ({ investors })
                                               <BrainCircuit size={14} className="text-indigo-600" />
                                               Internal Portfolio Analysis
                                           </h5>
-                                          <CopyButton 
-                                            text={`Thesis: ${internalAnalyses[inv.name].investmentThesis}\nComposition: ${internalAnalyses[inv.name].portfolioComposition}\nFocus: ${internalAnalyses[inv.name].strategicFocus}`} 
-                                          />
-                                      </div>
-                                      <div className="space-y-3">
-                                          <div className="bg-indigo-50/50 p-2 rounded-lg border border-indigo-100">
-                                              <h6 className="text-[10px] font-bold text-indigo-700 uppercase mb-1 flex items-center gap-1"><Lightbulb size={10}/> Thesis</h6>
-                                              <p className="text-xs text-slate-600 leading-relaxed">{internalAnalyses[inv.name].investmentThesis}</p>
-                                          </div>
-                                          <div className="bg-emerald-50/50 p-2 rounded-lg border border-emerald-100">
-                                              <h6 className="text-[10px] font-bold text-emerald-700 uppercase mb-1 flex items-center gap-1"><PieChart size={10}/> Diversity</h6>
-                                              <p className="text-xs text-slate-600 leading-relaxed">{internalAnalyses[inv.name].portfolioComposition}</p>
-                                          </div>
-                                          <div className="bg-violet-50/50 p-2 rounded-lg border border-violet-100">
-                                              <h6 className="text-[10px] font-bold text-violet-700 uppercase mb-1 flex items-center gap-1"><Award size={10}/> Strategic Focus</h6>
-                                              <p className="text-xs text-slate-600 leading-relaxed">{internalAnalyses[inv.name].strategicFocus}</p>
-                                          </div>
+                                          <CopyButton text={memoToText(internalAnalyses[inv.name])} />
                                       </div>
+                                      <MemoSections memo={internalAnalyses[inv.name]} compact />
                                   </div>
                               )}
 
@@ -469,6 +639,14 @@ export const InvestorAnalysis: React.FC<InvestorAnalysisProps> = ({ investors })
                       )}
                   </div>
               ))}
+              {filteredInvestors.length > visibleCount && (
+                  <button
+                      onClick={() => setVisibleCount(visibleCount + LIST_PAGE_SIZE)}
+                      className="w-full py-2 text-xs font-medium text-indigo-600 hover:bg-indigo-50 rounded-lg border border-dashed border-indigo-200 print:hidden"
+                  >
+                      Show more ({filteredInvestors.length - visibleCount} remaining)
+                  </button>
+              )}
               {filteredInvestors.length === 0 && (
                   <div className="text-center py-8 text-slate-400 text-sm">
                       No matching investors found.
@@ -477,6 +655,9 @@ export const InvestorAnalysis: React.FC<InvestorAnalysisProps> = ({ investors })
           </div>
         </div>
       </div>
+
+      {/* Co-investment Network */}
+      <CoInvestmentNetwork graph={network} />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,46 @@
+import React from 'react';
+import { AIMemo } from '../types';
+
+interface MemoSectionsProps {
+  memo: AIMemo;
+  compact?: boolean; // Smaller type for the investor cards
+}
+
+// Card tints cycle in field order, so the built-in memo keeps its blue / emerald / amber look
+const SECTION_STYLES = [
+  { card: 'bg-blue-50/50 border-blue-100', title: 'text-blue-700' },
+  { card: 'bg-emerald-50/50 border-emerald-100', title: 'text-emerald-700' },
+  { card: 'bg-amber-50/50 border-amber-100', title: 'text-amber-700' },
+  { card: 'bg-violet-50/50 border-violet-100', title: 'text-violet-700' },
+  { card: 'bg-rose-50/50 border-rose-100', title: 'text-rose-700' },
+  { card: 'bg-indigo-50/50 border-indigo-100', title: 'text-indigo-700' }
+];
+
+// Renders whatever fields the memo's template declared; the first one spans the full width
+export const MemoSections: React.FC<MemoSectionsProps> = ({ memo, compact }) => {
+  const [lead, ...rest] = memo.sections;
+
+  const renderSection = (section: AIMemo['sections'][number], index: number) => {
+    const style = SECTION_STYLES[index % SECTION_STYLES.length];
+    return (
+      <div key={section.key} className={`${compact ? 'p-2' : 'p-3'} rounded-lg border ${style.card}`}>
+          <h5 className={`${compact ? 'text-[10px]' : 'text-xs'} font-bold uppercase mb-1 ${style.title}`}>{section.label}</h5>
+          <p className={`${compact ? 'text-xs text-slate-600 leading-relaxed' : 'text-sm text-slate-700'} whitespace-pre-line`}>{section.value}</p>
+      </div>
+    );
+  };
+
+  if (!lead) return null;
+
+  return (
+    <div className={compact ? 'space-y-3' : 'space-y-4'}>
+        {renderSection(lead, 0)}
+        {rest.length > 0 && (
+            <div className={compact ? 'space-y-3' : 'grid grid-cols-2 gap-3'}>
+                {rest.map((section, i) => renderSection(section, i + 1))}
+            </div>
+        )}
+        <p className="text-[10px] text-slate-400">{memo.templateName}</p>
+    </div>
+  );
+};
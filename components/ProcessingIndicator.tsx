@@ -0,0 +1,45 @@
+import React from 'react';
+import { AnalysisProgress, AnalysisStage } from '../types';
+import { Loader2, X } from 'lucide-react';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface ProcessingIndicatorProps {
+  progress: AnalysisProgress | null;
+  onCancel: () => void;
+}
+
+const STAGE_ORDER: AnalysisStage[] = ['parsing', 'scoring', 'trends', 'investors'];
+
+export const ProcessingIndicator: React.FC<ProcessingIndicatorProps> = ({ progress, onCancel }) => {
+  const { t } = useLanguage();
+  const fraction = progress?.fraction;
+
+  return (
+    <div className="flex flex-col items-center gap-2 print:hidden">
+        <div className="flex items-center space-x-2 text-indigo-600 font-medium">
+            <Loader2 size={16} className="animate-spin" />
+            <span>{t('crunching')}</span>
+            {progress && <span className="text-slate-500 text-sm">{t(`stage_${progress.stage}`)}{fraction !== undefined && ` ${(fraction * 100).toFixed(0)}%`}</span>}
+            <button
+                onClick={onCancel}
+                className="ml-2 flex items-center gap-1 px-2 py-1 text-xs font-medium text-slate-500 hover:text-rose-600 rounded border border-slate-200 hover:border-rose-200 bg-white transition-colors"
+            >
+                <X size={12} /> {t('cancel')}
+            </button>
+        </div>
+        <div className="flex gap-1">
+            {STAGE_ORDER.map(stage => {
+                const current = progress ? STAGE_ORDER.indexOf(progress.stage) : -1;
+                const idx = STAGE_ORDER.indexOf(stage);
+                return (
+                    <div
+                        key={stage}
+                        className={`h-1 w-10 rounded-full ${idx < current ? 'bg-indigo-500' : idx === current ? 'bg-indigo-300 animate-pulse' : 'bg-slate-200'}`}
+                        title={t(`stage_${stage}`)}
+                    />
+                );
+            })}
+        </div>
+    </div>
+  );
+};
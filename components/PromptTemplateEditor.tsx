@@ -0,0 +1,308 @@
+import React, { useState, useRef } from 'react';
+import { FileText, X, Plus, Copy, Trash2, Upload, Download, AlertTriangle, Lock, Save } from 'lucide-react';
+import { PromptTemplate, PromptTemplateKind } from '../types';
+import { COMPANY_VARIABLES, INVESTOR_VARIABLES, findUnknownVariables, createFieldKey, createTemplateId, exportTemplates, parseTemplateFile } from '../services/promptTemplates';
+import { usePromptTemplates } from '../contexts/PromptTemplateContext';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface PromptTemplateEditorProps {
+  onClose: () => void;
+}
+
+interface TemplateFormProps {
+  template: PromptTemplate;
+  onSave: (template: PromptTemplate) => void;
+}
+
+const TEMPLATE_KINDS: PromptTemplateKind[] = ['company', 'investor'];
+
+const inputClass = "w-full text-xs px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-slate-700 focus:outline-none focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 disabled:text-slate-500";
+const labelClass = "block text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1";
+
+// Edits a draft; nothing reaches the store (or the next memo) until it is saved
+const TemplateForm: React.FC<TemplateFormProps> = ({ template, onSave }) => {
+  const { t } = useLanguage();
+  const [draft, setDraft] = useState(template);
+  const promptRef = useRef<HTMLTextAreaElement>(null);
+  const readOnly = Boolean(template.builtIn);
+  const variables = template.kind === 'company' ? COMPANY_VARIABLES : INVESTOR_VARIABLES;
+  const unknown = findUnknownVariables(draft);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(template);
+  const canSave = isDirty && draft.name.trim() !== '' && draft.fields.length > 0 && draft.fields.every(f => f.label.trim() !== '');
+
+  // Inserts at the caret, so variables can be dropped into the middle of a sentence
+  const insertVariable = (name: string) => {
+    const el = promptRef.current;
+    const at = el ? el.selectionStart : draft.prompt.length;
+    const end = el ? el.selectionEnd : at;
+    const token = `{{${name}}}`;
+    setDraft({ ...draft, prompt: draft.prompt.slice(0, at) + token + draft.prompt.slice(end) });
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(at + token.length, at + token.length);
+    });
+  };
+
+  const updateField = (index: number, patch: { label?: string; description?: string }) => {
+    setDraft({
+      ...draft,
+      fields: draft.fields.map((f, i) => {
+        if (i !== index) return f;
+        const next = { ...f, ...patch };
+        // Keys follow the label so the JSON the model returns stays readable
+        return patch.label !== undefined ? { ...next, key: createFieldKey(patch.label, draft.fields.filter((_, j) => j !== index)) } : next;
+      })
+    });
+  };
+
+  const addField = () => {
+    const label = t('new_field');
+    setDraft({ ...draft, fields: [...draft.fields, { key: createFieldKey(label, draft.fields), label, description: '' }] });
+  };
+
+  return (
+    <div className="space-y-4">
+        {readOnly && (
+            <p className="text-[11px] text-slate-500 flex items-center gap-1.5"><Lock size={12} /> {t('template_built_in_hint')}</p>
+        )}
+
+        <div>
+            <label className={labelClass}>{t('template_name')}</label>
+            <input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} disabled={readOnly} className={`${inputClass} font-semibold`} />
+        </div>
+
+        <div>
+            <label className={labelClass}>{t('template_prompt')}</label>
+            <textarea
+                ref={promptRef}
+                value={draft.prompt}
+                onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+                disabled={readOnly}
+                rows={10}
+                className={`${inputClass} font-mono leading-relaxed`}
+            />
+            <div className="flex flex-wrap gap-1 mt-2">
+                {variables.map(v => (
+                    <button
+                        key={v.name}
+                        onClick={() => insertVariable(v.name)}
+                        disabled={readOnly}
+                        title={v.description}
+                        className="text-[10px] font-mono px-1.5 py-0.5 rounded border border-indigo-100 bg-indigo-50 text-indigo-700 hover:border-indigo-300 disabled:opacity-60 disabled:hover:border-indigo-100"
+                    >
+                        {`{{${v.name}}}`}
+                    </button>
+                ))}
+            </div>
+            <p className="text-[10px] text-slate-400 mt-1">{t('template_variables_hint')}</p>
+            {unknown.length > 0 && (
+                <p className="text-[11px] text-amber-700 flex items-center gap-1.5 mt-2">
+                    <AlertTriangle size={12} /> {t('template_unknown_variables')}: {unknown.map(name => `{{${name}}}`).join(', ')}
+                </p>
+            )}
+        </div>
+
+        {/* Output Fields */}
+        <div>
+            <label className={labelClass}>{t('template_fields')}</label>
+            <p className="text-[10px] text-slate-400 mb-2">{t('template_fields_hint')}</p>
+            <div className="space-y-2">
+                {draft.fields.map((field, i) => (
+                    <div key={i} className="grid grid-cols-12 gap-2 items-start">
+                        <div className="col-span-4">
+                            <input type="text" value={field.label} onChange={(e) => updateField(i, { label: e.target.value })} disabled={readOnly} placeholder={t('field_label')} className={inputClass} />
+                            <p className="text-[10px] font-mono text-slate-400 mt-0.5 truncate">{field.key}</p>
+                        </div>
+                        <textarea value={field.description} onChange={(e) => updateField(i, { description: e.target.value })} disabled={readOnly} rows={2} placeholder={t('field_description')} className={`${inputClass} col-span-7`} />
+                        {!readOnly && (
+                            <button onClick={() => setDraft({ ...draft, fields: draft.fields.filter((_, j) => j !== i) })} className="col-span-1 p-2 text-slate-400 hover:text-rose-600 rounded-lg justify-self-end" title={t('remove_field')}>
+                                <Trash2 size={14} />
+                            </button>
+                        )}
+                    </div>
+                ))}
+            </div>
+            {draft.fields.length === 0 && (
+                <p className="text-[11px] text-amber-700 flex items-center gap-1.5"><AlertTriangle size={12} /> {t('template_needs_fields')}</p>
+            )}
+        </div>
+
+        {!readOnly && (
+            <div className="flex items-center justify-between pt-3 border-t border-slate-100">
+                <button onClick={addField} className="flex items-center gap-1.5 px-3 py-2 border border-slate-200 text-slate-600 hover:text-indigo-600 hover:border-indigo-200 rounded-lg text-xs font-medium transition-colors">
+                    <Plus size={14} /> {t('add_field')}
+                </button>
+                <div className="flex items-center gap-2">
+                    {isDirty && (
+                        <button onClick={() => setDraft(template)} className="px-3 py-2 text-xs font-medium text-slate-500 hover:text-slate-700">
+                            {t('cancel')}
+                        </button>
+                    )}
+                    <button
+                        onClick={() => onSave({ ...draft, name: draft.name.trim() })}
+                        disabled={!canSave}
+                        className="flex items-center gap-1.5 px-3 py-2 bg-slate-900 hover:bg-slate-800 text-white rounded-lg text-xs font-medium transition-colors disabled:opacity-50"
+                    >
+                        <Save size={14} /> {t('save_template')}
+                    </button>
+                </div>
+            </div>
+        )}
+    </div>
+  );
+};
+
+/**
+ * Lists the prompt templates for companies and investors, picks the active
+ * one for each, and edits the user's own. Built-in templates are read-only
+ * but can be duplicated as a starting point.
+ */
+export const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ onClose }) => {
+  const { t } = useLanguage();
+  const { templates, saveTemplate, deleteTemplate, importTemplates, activeIds, setActiveTemplate } = usePromptTemplates();
+  const [kind, setKind] = useState<PromptTemplateKind>('company');
+  const [selectedId, setSelectedId] = useState<string>(activeIds.company);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const listed = templates.filter(tpl => tpl.kind === kind);
+  const selected = listed.find(tpl => tpl.id === selectedId) || listed.find(tpl => tpl.id === activeIds[kind]) || listed[0];
+  const customTemplates = templates.filter(tpl => !tpl.builtIn);
+
+  const switchKind = (next: PromptTemplateKind) => {
+    setKind(next);
+    setSelectedId(activeIds[next]);
+  };
+
+  const addTemplate = (template: PromptTemplate) => {
+    saveTemplate(template);
+    setSelectedId(template.id);
+  };
+
+  const handleNew = () => addTemplate({
+    id: createTemplateId(),
+    name: t('untitled_template'),
+    kind,
+    prompt: kind === 'company' ? 'Write a short investment memo on {{name}}.\n\nDescription: {{description}}' : 'Summarise the investment strategy of {{name}}.\n\nTop themes: {{top_themes}}',
+    fields: [{ key: 'summary', label: 'Summary', description: 'A one-paragraph summary' }]
+  });
+
+  const handleDuplicate = () => {
+    if (!selected) return;
+    addTemplate({ ...selected, id: createTemplateId(), name: `${selected.name} (${t('copy_suffix')})`, builtIn: undefined });
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseTemplateFile(await file.text());
+      importTemplates(imported);
+      setImportError(null);
+      const first = imported.find(tpl => tpl.kind === kind) || imported[0];
+      setKind(first.kind);
+      setSelectedId(first.id);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 print:hidden">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+            <div>
+                <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+                    <FileText size={20} className="text-indigo-600" /> {t('prompt_templates')}
+                </h3>
+                <p className="text-sm text-slate-500">{t('prompt_templates_desc')}</p>
+            </div>
+            <div className="flex items-center gap-2">
+                <div className="flex bg-slate-100 p-1 rounded-lg">
+                    {TEMPLATE_KINDS.map(k => (
+                        <button
+                            key={k}
+                            onClick={() => switchKind(k)}
+                            className={`px-3 py-1 text-xs font-semibold rounded-md transition-all ${kind === k ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                        >
+                            {t(`template_kind_${k}`)}
+                        </button>
+                    ))}
+                </div>
+                <label className="p-2 text-slate-400 hover:text-indigo-600 rounded-lg border border-slate-200 cursor-pointer" title={t('import_templates')}>
+                    <Upload size={14} />
+                    <input
+                        type="file"
+                        accept=".json,application/json"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) handleImport(file);
+                            e.target.value = '';
+                        }}
+                    />
+                </label>
+                <button
+                    onClick={() => exportTemplates(customTemplates)}
+                    disabled={customTemplates.length === 0}
+                    className="p-2 text-slate-400 hover:text-indigo-600 rounded-lg border border-slate-200 disabled:opacity-50 disabled:hover:text-slate-400"
+                    title={t('export_templates')}
+                >
+                    <Download size={14} />
+                </button>
+                <button onClick={onClose} className="text-slate-400 hover:text-slate-600 ml-2">
+                    <X size={18} />
+                </button>
+            </div>
+        </div>
+
+        {importError && (
+            <p className="text-xs text-rose-600 flex items-center gap-1.5 mb-4"><AlertTriangle size={14} /> {t('import_templates_failed')}: {importError}</p>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-12 gap-6">
+            {/* Template List */}
+            <div className="md:col-span-4">
+                <div className="space-y-1 mb-3">
+                    {listed.map(tpl => (
+                        <div
+                            key={tpl.id}
+                            onClick={() => setSelectedId(tpl.id)}
+                            className={`flex items-center gap-2 px-3 py-2 rounded-lg border cursor-pointer transition-colors ${selected?.id === tpl.id ? 'border-indigo-200 bg-indigo-50/50' : 'border-transparent hover:bg-slate-50'}`}
+                        >
+                            <input
+                                type="radio"
+                                checked={activeIds[kind] === tpl.id}
+                                onChange={() => setActiveTemplate(kind, tpl.id)}
+                                onClick={(e) => e.stopPropagation()}
+                                title={t('use_template')}
+                            />
+                            <span className="text-sm text-slate-700 truncate flex-1">{tpl.name}</span>
+                            {tpl.builtIn && <span className="text-[9px] font-bold uppercase text-slate-400">{t('built_in')}</span>}
+                        </div>
+                    ))}
+                </div>
+                <p className="text-[10px] text-slate-400 mb-3">{t('active_template_hint')}</p>
+                <div className="flex flex-wrap gap-2">
+                    <button onClick={handleNew} className="flex items-center gap-1.5 px-3 py-2 bg-slate-900 hover:bg-slate-800 text-white rounded-lg text-xs font-medium transition-colors">
+                        <Plus size={14} /> {t('new_template')}
+                    </button>
+                    <button onClick={handleDuplicate} disabled={!selected} className="flex items-center gap-1.5 px-3 py-2 border border-slate-200 text-slate-600 hover:text-indigo-600 hover:border-indigo-200 rounded-lg text-xs font-medium transition-colors disabled:opacity-50">
+                        <Copy size={14} /> {t('duplicate_template')}
+                    </button>
+                    {selected && !selected.builtIn && (
+                        <button onClick={() => deleteTemplate(selected.id)} className="flex items-center gap-1.5 px-3 py-2 border border-slate-200 text-slate-600 hover:text-rose-600 hover:border-rose-200 rounded-lg text-xs font-medium transition-colors">
+                            <Trash2 size={14} /> {t('delete')}
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {/* Template Form */}
+            <div className="md:col-span-8">
+                {selected && (
+                    // Remount on save so the draft starts from the stored copy
+                    <TemplateForm key={JSON.stringify(selected)} template={selected} onSave={saveTemplate} />
+                )}
+            </div>
+        </div>
+    </div>
+  );
+};
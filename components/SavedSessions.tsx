@@ -0,0 +1,113 @@
+import React, { useState, useEffect } from 'react';
+import { SessionSummary } from '../types';
+import { History, FolderOpen, Pencil, Trash2, Check, X } from 'lucide-react';
+import { listSessions, renameSession, deleteSession } from '../services/sessionStore';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface SavedSessionsProps {
+  onOpen: (id: string) => void;
+}
+
+const SessionRow: React.FC<{ session: SessionSummary, onOpen: () => void, onRename: (name: string) => void, onDelete: () => void }> = ({ session, onOpen, onRename, onDelete }) => {
+    const { t } = useLanguage();
+    const [isEditing, setIsEditing] = useState(false);
+    const [name, setName] = useState(session.name);
+
+    const handleSubmit = () => {
+        const trimmed = name.trim();
+        if (trimmed && trimmed !== session.name) onRename(trimmed);
+        setIsEditing(false);
+    };
+
+    return (
+        <div className="flex items-center gap-3 px-4 py-3 hover:bg-slate-50 transition-colors">
+            <div className="min-w-0 flex-1">
+                {isEditing ? (
+                    <input
+                        autoFocus
+                        type="text"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleSubmit();
+                            if (e.key === 'Escape') { setName(session.name); setIsEditing(false); }
+                        }}
+                        className="w-full text-sm px-2 py-1 bg-white border border-indigo-300 rounded text-slate-800 focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                    />
+                ) : (
+                    <h4 className="text-sm font-semibold text-slate-800 truncate">{session.name}</h4>
+                )}
+                <p className="text-[11px] text-slate-400 truncate">
+                    {session.companyCount} {t('companies')} · {new Date(session.updatedAt).toLocaleString()}
+                    {session.sourceFiles.length > 0 && ` · ${session.sourceFiles.join(', ')}`}
+                </p>
+            </div>
+            <div className="flex items-center gap-1 flex-shrink-0">
+                {isEditing ? (
+                    <>
+                        <button onClick={handleSubmit} className="p-1.5 text-emerald-600 hover:bg-emerald-50 rounded" title={t('rename')}><Check size={14} /></button>
+                        <button onClick={() => { setName(session.name); setIsEditing(false); }} className="p-1.5 text-slate-400 hover:bg-slate-100 rounded" title={t('cancel')}><X size={14} /></button>
+                    </>
+                ) : (
+                    <>
+                        <button
+                            onClick={onOpen}
+                            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-indigo-600 hover:bg-indigo-50 rounded-lg border border-indigo-100 transition-colors"
+                        >
+                            <FolderOpen size={14} /> {t('open')}
+                        </button>
+                        <button onClick={() => setIsEditing(true)} className="p-1.5 text-slate-400 hover:text-indigo-600 rounded" title={t('rename')}><Pencil size={14} /></button>
+                        <button onClick={onDelete} className="p-1.5 text-slate-400 hover:text-rose-600 rounded" title={t('delete')}><Trash2 size={14} /></button>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export const SavedSessions: React.FC<SavedSessionsProps> = ({ onOpen }) => {
+  const { t } = useLanguage();
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+
+  const refresh = () => {
+    listSessions()
+      .then(setSessions)
+      .catch(error => console.error("Failed to list sessions:", error));
+  };
+
+  useEffect(refresh, []);
+
+  const handleRename = (id: string, name: string) => {
+    renameSession(id, name)
+      .then(refresh)
+      .catch(error => console.error("Failed to rename session:", error));
+  };
+
+  const handleDelete = (id: string) => {
+    deleteSession(id)
+      .then(refresh)
+      .catch(error => console.error("Failed to delete session:", error));
+  };
+
+  if (sessions.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-xl mx-auto mt-8 bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+        <div className="px-4 py-3 border-b border-slate-100 flex items-center gap-2">
+            <History size={16} className="text-indigo-600" />
+            <h3 className="text-sm font-semibold text-slate-800">{t('saved_sessions')}</h3>
+        </div>
+        <div className="divide-y divide-slate-100 max-h-80 overflow-y-auto custom-scrollbar">
+            {sessions.map(session => (
+                <SessionRow
+                    key={session.id}
+                    session={session}
+                    onOpen={() => onOpen(session.id)}
+                    onRename={(name) => handleRename(session.id, name)}
+                    onDelete={() => handleDelete(session.id)}
+                />
+            ))}
+        </div>
+    </div>
+  );
+};
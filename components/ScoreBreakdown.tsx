@@ -0,0 +1,101 @@
+import React from 'react';
+import { ScoreBreakdown as ScoreBreakdownData, ScoreContribution, ScoringWeights } from '../types';
+import { Calculator } from 'lucide-react';
+import { WEIGHT_LABELS } from '../services/scoringModel';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface ScoreBreakdownProps {
+  breakdown: ScoreBreakdownData;
+}
+
+// Segment colours, assigned by input position within each sub-score
+const SEGMENT_COLORS = ['#6366f1', '#10b981', '#f59e0b', '#8b5cf6', '#3b82f6'];
+
+const GROUP_ORDER: (keyof ScoringWeights)[] = ['comprehensive', 'funding', 'operations', 'brandTrend', 'potential'];
+
+// Inputs whose raw value is a USD amount, shown in the reporting currency
+const AMOUNT_INPUTS: Partial<Record<keyof ScoringWeights, string[]>> = { funding: ['amount'] };
+
+// Helper: Compact display of the raw input value
+const formatRaw = (raw: number | string) => {
+  if (typeof raw === 'string') return raw;
+  if (Math.abs(raw) >= 1000000) return `${(raw / 1000000).toFixed(1)}M`;
+  return raw.toLocaleString(undefined, { maximumFractionDigits: 1 });
+};
+
+const ContributionCard: React.FC<{ group: keyof ScoringWeights, label: string, contributions: ScoreContribution[] }> = ({ group, label, contributions }) => {
+    const { t } = useLanguage();
+    const { formatAmount } = useCurrency();
+    const total = contributions.reduce((acc, c) => acc + c.contribution, 0);
+
+    return (
+        <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+            <div className="flex justify-between items-baseline mb-2">
+                <h5 className="text-xs font-bold text-slate-500 uppercase tracking-wider">{label}</h5>
+                <span className="text-lg font-bold text-slate-800">{total.toFixed(0)}</span>
+            </div>
+
+            {/* Contribution Bar */}
+            <div className="h-2.5 w-full bg-slate-100 rounded-full overflow-hidden flex mb-3">
+                {contributions.map((c, idx) => (
+                    <div
+                        key={c.key}
+                        className="h-full"
+                        style={{ width: `${c.contribution}%`, backgroundColor: SEGMENT_COLORS[idx % SEGMENT_COLORS.length] }}
+                        title={`${c.label}: +${c.contribution.toFixed(1)}`}
+                    />
+                ))}
+            </div>
+
+            <table className="w-full text-[11px]">
+                <thead>
+                    <tr className="text-slate-400 text-left">
+                        <th className="font-medium pb-1">{t('breakdown_input')}</th>
+                        <th className="font-medium pb-1 text-right">{t('breakdown_value')}</th>
+                        <th className="font-medium pb-1 text-right">{t('breakdown_norm')}</th>
+                        <th className="font-medium pb-1 text-right">{t('breakdown_weight')}</th>
+                        <th className="font-medium pb-1 text-right">{t('breakdown_points')}</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {contributions.map((c, idx) => {
+                        const value = c.raw === ''
+                            ? t('none')
+                            : typeof c.raw === 'number' && AMOUNT_INPUTS[group]?.includes(c.key) ? formatAmount(c.raw) : formatRaw(c.raw);
+                        return (
+                            <tr key={c.key} className="text-slate-600">
+                                <td className="py-0.5">
+                                    <span className="inline-flex items-center gap-1.5">
+                                        <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: SEGMENT_COLORS[idx % SEGMENT_COLORS.length] }} />
+                                        {c.label}
+                                    </span>
+                                </td>
+                                <td className="py-0.5 text-right truncate max-w-[90px]" title={String(c.raw)}>{value}</td>
+                                <td className="py-0.5 text-right">{(c.normalised * 100).toFixed(0)}%</td>
+                                <td className="py-0.5 text-right">{(c.weight * 100).toFixed(0)}%</td>
+                                <td className="py-0.5 text-right font-semibold text-slate-800">+{c.contribution.toFixed(1)}</td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+export const ScoreBreakdown: React.FC<ScoreBreakdownProps> = ({ breakdown }) => {
+  const { t } = useLanguage();
+  return (
+    <div>
+        <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2 flex items-center gap-1.5">
+            <Calculator size={12} /> {t('score_breakdown')}
+        </h4>
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
+            {GROUP_ORDER.map(group => (
+                <ContributionCard key={group} group={group} label={WEIGHT_LABELS[group].label} contributions={breakdown[group]} />
+            ))}
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { ScoringModel, ScoringWeights, NormalisedInput, NormalisationStrategy } from '../types';
+import { SlidersHorizontal, X, Save, Trash2, RotateCcw } from 'lucide-react';
+import { BUILT_IN_PRESETS, DEFAULT_SCORING_MODEL, WEIGHT_LABELS, NORMALISED_INPUT_LABELS, resolveNormalisation, resolveWeights, loadCustomPresets, saveCustomPreset, deleteCustomPreset } from '../services/scoringModel';
+import { NORMALISATION_STRATEGIES, NORMALISATION_LABELS } from '../services/normalisation';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface ScoringSettingsProps {
+  model: ScoringModel;
+  onChange: (model: ScoringModel) => void;
+  onClose: () => void;
+}
+
+const GROUP_COLORS: Record<keyof ScoringWeights, string> = {
+  funding: 'accent-emerald-600',
+  operations: 'accent-blue-600',
+  brandTrend: 'accent-amber-500',
+  potential: 'accent-violet-600',
+  comprehensive: 'accent-indigo-600'
+};
+
+export const ScoringSettings: React.FC<ScoringSettingsProps> = ({ model, onChange, onClose }) => {
+  const { t } = useLanguage();
+  const [customPresets, setCustomPresets] = useState<ScoringModel[]>(() => loadCustomPresets());
+  const [presetName, setPresetName] = useState("");
+
+  const allPresets = [...BUILT_IN_PRESETS, ...customPresets];
+  const isCustom = (name: string) => customPresets.some(p => p.name === name) && !BUILT_IN_PRESETS.some(p => p.name === name);
+
+  const weights = resolveWeights(model);
+
+  const handleWeightChange = (group: keyof ScoringWeights, input: string, value: number) => {
+    onChange({
+      ...model,
+      name: t('custom_weights'),
+      weights: {
+        ...weights,
+        [group]: { ...weights[group], [input]: value }
+      }
+    });
+  };
+
+  const handleNormalisationChange = (input: NormalisedInput, strategy: NormalisationStrategy) => {
+    onChange({
+      ...model,
+      name: t('custom_weights'),
+      normalisation: { ...resolveNormalisation(model), [input]: strategy }
+    });
+  };
+
+  const normalisation = resolveNormalisation(model);
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    const saved = { ...model, name };
+    setCustomPresets(saveCustomPreset(saved));
+    onChange(saved);
+    setPresetName("");
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 print:hidden">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+            <div>
+                <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+                    <SlidersHorizontal size={20} className="text-indigo-600" /> {t('scoring_model')}
+                </h3>
+                <p className="text-sm text-slate-500">{t('scoring_model_desc')}</p>
+            </div>
+            <div className="flex items-center gap-2">
+                <select
+                    value={allPresets.some(p => p.name === model.name) ? model.name : ""}
+                    onChange={(e) => {
+                        const preset = allPresets.find(p => p.name === e.target.value);
+                        if (preset) onChange(preset);
+                    }}
+                    className="text-xs border border-slate-200 rounded-lg bg-white py-2 px-2 text-slate-700 focus:ring-indigo-500 focus:border-indigo-500"
+                >
+                    <option value="" disabled>{model.name}</option>
+                    {allPresets.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+                </select>
+                {isCustom(model.name) && (
+                    <button
+                        onClick={() => { setCustomPresets(deleteCustomPreset(model.name)); onChange(DEFAULT_SCORING_MODEL); }}
+                        className="p-2 text-slate-400 hover:text-rose-600 rounded-lg border border-slate-200"
+                        title={t('delete_preset')}
+                    >
+                        <Trash2 size={14} />
+                    </button>
+                )}
+                <button
+                    onClick={() => onChange(DEFAULT_SCORING_MODEL)}
+                    className="p-2 text-slate-400 hover:text-indigo-600 rounded-lg border border-slate-200"
+                    title={t('reset_weights')}
+                >
+                    <RotateCcw size={14} />
+                </button>
+                <button onClick={onClose} className="text-slate-400 hover:text-slate-600 ml-2">
+                    <X size={18} />
+                </button>
+            </div>
+        </div>
+
+        {/* Weight Groups */}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
+            {(Object.keys(WEIGHT_LABELS) as (keyof ScoringWeights)[]).map(group => {
+                const groupWeights = weights[group] as Record<string, number>;
+                const total = Object.values(groupWeights).reduce((a, b) => a + Math.max(b, 0), 0);
+                const inputLabels = WEIGHT_LABELS[group].inputs as Record<string, string>;
+                return (
+                    <div key={group}>
+                        <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">{WEIGHT_LABELS[group].label}</h4>
+                        <div className="space-y-3">
+                            {Object.keys(inputLabels).map(input => {
+                                const value = groupWeights[input];
+                                const share = total > 0 ? (Math.max(value, 0) / total) * 100 : 0;
+                                return (
+                                    <div key={input}>
+                                        <div className="flex justify-between text-[11px] mb-1">
+                                            <span className="text-slate-600">{inputLabels[input]}</span>
+                                            <span className="font-semibold text-slate-700">{share.toFixed(0)}%</span>
+                                        </div>
+                                        <input
+                                            type="range"
+                                            min="0"
+                                            max="100"
+                                            step="5"
+                                            value={Math.round(value * 100)}
+                                            onChange={(e) => handleWeightChange(group, input, parseInt(e.target.value) / 100)}
+                                            className={`w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer ${GROUP_COLORS[group]}`}
+                                        />
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+
+        {/* Normalisation */}
+        <div className="mt-6 pt-4 border-t border-slate-100">
+            <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">{t('normalisation')}</h4>
+            <p className="text-xs text-slate-400 mb-3">{t('normalisation_desc')}</p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {(Object.keys(NORMALISED_INPUT_LABELS) as NormalisedInput[]).map(input => (
+                    <label key={input} className="flex flex-col gap-1 text-[11px] text-slate-600">
+                        {NORMALISED_INPUT_LABELS[input]}
+                        <select
+                            value={normalisation[input]}
+                            onChange={(e) => handleNormalisationChange(input, e.target.value as NormalisationStrategy)}
+                            className="text-xs border border-slate-200 rounded-lg bg-white py-1.5 px-2 text-slate-700 focus:ring-indigo-500 focus:border-indigo-500"
+                        >
+                            {NORMALISATION_STRATEGIES.map(s => <option key={s} value={s}>{NORMALISATION_LABELS[s]}</option>)}
+                        </select>
+                    </label>
+                ))}
+            </div>
+        </div>
+
+        {/* Save Preset */}
+        <div className="flex items-center justify-end gap-2 mt-6 pt-4 border-t border-slate-100">
+            <input
+                type="text"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                placeholder={t('preset_name')}
+                className="text-xs px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-slate-700 focus:outline-none focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500"
+            />
+            <button
+                onClick={handleSavePreset}
+                disabled={!presetName.trim()}
+                className="flex items-center gap-1.5 px-3 py-2 bg-slate-900 hover:bg-slate-800 text-white rounded-lg text-xs font-medium transition-colors disabled:opacity-50"
+            >
+                <Save size={14} /> {t('save_preset')}
+            </button>
+        </div>
+    </div>
+  );
+};
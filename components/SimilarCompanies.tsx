@@ -0,0 +1,65 @@
+import React from 'react';
+import { ScoredCompany, SimilarCompany } from '../types';
+import { Network, Crown } from 'lucide-react';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface SimilarCompaniesProps {
+  company: ScoredCompany;
+  peers: SimilarCompany[];
+  onSelect: (company: ScoredCompany) => void;
+}
+
+export const SimilarCompanies: React.FC<SimilarCompaniesProps> = ({ company, peers, onSelect }) => {
+  const { t } = useLanguage();
+
+  // Position by comprehensive score among the company and its peers
+  const nicheRank = 1 + peers.filter(p => p.company.scores.comprehensive > company.scores.comprehensive).length;
+
+  return (
+    <div className="mb-6">
+        <div className="flex items-center justify-between mb-3">
+            <h5 className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                <Network size={14} /> {t('similar_companies')}
+            </h5>
+            {peers.length > 0 && (
+                <span className={`text-[10px] font-semibold px-2 py-0.5 rounded-full flex items-center gap-1 ${nicheRank === 1 ? 'bg-amber-100 text-amber-700' : 'bg-slate-100 text-slate-600'}`}>
+                    {nicheRank === 1 && <Crown size={10} />}
+                    {nicheRank === 1 ? t('leads_niche') : `#${nicheRank} ${t('of')} ${peers.length + 1} ${t('in_niche')}`}
+                </span>
+            )}
+        </div>
+        {peers.length === 0 ? (
+            <p className="text-xs text-slate-400 italic">{t('no_similar_companies')}</p>
+        ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-5 gap-3">
+                {peers.map(peer => (
+                    <button
+                        key={peer.company.id}
+                        onClick={() => onSelect(peer.company)}
+                        className="text-left bg-white p-3 rounded-lg border border-slate-200 shadow-sm hover:border-indigo-300 transition-colors"
+                    >
+                        <div className="flex justify-between items-baseline gap-2">
+                            <p className="text-xs font-semibold text-slate-800 truncate" title={peer.company["Organization Name"]}>{peer.company["Organization Name"]}</p>
+                            <span className={`text-sm font-bold ${peer.company.scores.comprehensive > company.scores.comprehensive ? 'text-emerald-600' : 'text-slate-500'}`} title={t('comprehensive_score')}>
+                                {peer.company.scores.comprehensive.toFixed(0)}
+                            </span>
+                        </div>
+                        {/* Similarity bar */}
+                        <div className="flex items-center gap-2 mt-2">
+                            <div className="h-1.5 flex-1 bg-slate-100 rounded-full overflow-hidden">
+                                <div className="h-full bg-indigo-500" style={{ width: `${peer.similarity * 100}%` }} />
+                            </div>
+                            <span className="text-[10px] text-slate-500 w-8 text-right">{(peer.similarity * 100).toFixed(0)}%</span>
+                        </div>
+                        {peer.sharedTerms.length > 0 && (
+                            <p className="text-[10px] text-slate-400 truncate mt-1" title={peer.sharedTerms.join(', ')}>
+                                {peer.sharedTerms.join(' · ')}
+                            </p>
+                        )}
+                    </button>
+                ))}
+            </div>
+        )}
+    </div>
+  );
+};
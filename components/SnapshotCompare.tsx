@@ -0,0 +1,271 @@
+import React, { useState, useMemo } from 'react';
+import { ScoredCompany, ScoringModel, SnapshotDiff, ScoreKey, CompanyDelta } from '../types';
+import { GitCompare, X, Upload, PlusCircle, MinusCircle, ArrowUp, ArrowDown, Wallet, Flag, Loader2, AlertTriangle } from 'lucide-react';
+import { SCORE_KEYS } from '../services/snapshotDiff';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useThemes } from '../contexts/ThemeContext';
+import { useInvestorAliases } from '../contexts/InvestorAliasContext';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface SnapshotCompareProps {
+  current?: ScoredCompany[]; // Loaded dashboard, offered as the baseline
+  model: ScoringModel;
+  onClose: () => void;
+}
+
+interface Snapshot {
+  label: string;
+  companies: ScoredCompany[];
+}
+
+const MAX_LISTED = 25;
+
+// Same labels as the company list columns
+const SCORE_LABEL_KEYS: Record<ScoreKey, string> = {
+  comprehensive: 'col_comprehensive',
+  potential: 'col_potential',
+  funding: 'col_funding',
+  operations: 'col_ops',
+  brandTrend: 'col_brand'
+};
+
+const formatDelta = (value: number, digits = 1) => `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+const deltaColor = (value: number) => value > 0 ? 'text-emerald-600' : value < 0 ? 'text-rose-600' : 'text-slate-400';
+
+const SnapshotSlot: React.FC<{ title: string, snapshot: Snapshot | null, loading: boolean, error?: string, onFiles: (files: File[]) => void }> = ({ title, snapshot, loading, error, onFiles }) => {
+    const { t } = useLanguage();
+    return (
+        <label className="flex-1 flex items-center gap-3 p-4 rounded-xl border-2 border-dashed border-slate-200 hover:border-indigo-300 bg-slate-50 cursor-pointer transition-colors">
+            <div className="p-2 bg-white rounded-lg border border-slate-200 text-indigo-600">
+                {loading ? <Loader2 size={18} className="animate-spin" /> : <Upload size={18} />}
+            </div>
+            <div className="min-w-0">
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{title}</p>
+                <p className="text-sm font-semibold text-slate-800 truncate">{snapshot ? snapshot.label : t('choose_csv')}</p>
+                {snapshot && <p className="text-[11px] text-slate-500">{snapshot.companies.length} {t('companies')}</p>}
+                {error && (
+                    <p className="text-[11px] text-rose-600 flex items-center gap-1" title={error}>
+                        <AlertTriangle size={12} className="flex-shrink-0" /> {t('snapshot_load_failed')}
+                    </p>
+                )}
+            </div>
+            <input
+                type="file"
+                accept=".csv,.tsv,.txt"
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                    const files = Array.from(e.target.files || []);
+                    if (files.length > 0) onFiles(files);
+                    e.target.value = '';
+                }}
+            />
+        </label>
+    );
+};
+
+const Section: React.FC<{ title: string, icon: React.ElementType, count: number, children: React.ReactNode }> = ({ title, icon: Icon, count, children }) => {
+    const { t } = useLanguage();
+    return (
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm">
+            <div className="px-4 py-3 border-b border-slate-100 flex items-center gap-2">
+                <Icon size={16} className="text-indigo-600" />
+                <h4 className="text-sm font-semibold text-slate-800">{title}</h4>
+                <span className="text-xs text-slate-400">({count})</span>
+            </div>
+            <div className="max-h-80 overflow-y-auto custom-scrollbar">
+                {count === 0 ? <p className="px-4 py-3 text-xs text-slate-400 italic">{t('none')}</p> : children}
+            </div>
+        </div>
+    );
+};
+
+const MoreRow: React.FC<{ total: number }> = ({ total }) => {
+    const { t } = useLanguage();
+    return total > MAX_LISTED
+        ? <div className="px-4 py-1.5 text-[10px] text-slate-400 italic">+ {total - MAX_LISTED} {t('more_items')}</div>
+        : null;
+};
+
+export const SnapshotCompare: React.FC<SnapshotCompareProps> = ({ current, model, onClose }) => {
+  const { t } = useLanguage();
+  const { rates } = useCurrency();
+  const { themes, minConfidence } = useThemes();
+  const { dictionary } = useInvestorAliases();
+  const [baseline, setBaseline] = useState<Snapshot | null>(current && current.length > 0 ? { label: t('current_dataset'), companies: current } : null);
+  const [latest, setLatest] = useState<Snapshot | null>(null);
+  const [loadingSlot, setLoadingSlot] = useState<'baseline' | 'latest' | null>(null);
+  // Last load failure per slot, cleared when that slot is loaded again
+  const [slotErrors, setSlotErrors] = useState<Partial<Record<'baseline' | 'latest', string>>>({});
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null);
+  const [scoreKey, setScoreKey] = useState<ScoreKey>('comprehensive');
+
+  const loadSnapshot = (slot: 'baseline' | 'latest', files: File[]) => {
+    setLoadingSlot(slot);
+    setSlotErrors(current => ({ ...current, [slot]: undefined }));
+    import('../services/snapshotDiff').then(async differ => {
+        const companies = await differ.scoreSnapshotFiles(files, { model, fxRates: rates, themes, minThemeConfidence: minConfidence, investorAliases: dictionary.aliases });
+        const snapshot = { label: files.map(f => f.name).join(', '), companies };
+        const nextBaseline = slot === 'baseline' ? snapshot : baseline;
+        const nextLatest = slot === 'latest' ? snapshot : latest;
+        if (slot === 'baseline') setBaseline(snapshot); else setLatest(snapshot);
+        setDiff(nextBaseline && nextLatest ? differ.diffSnapshots(nextBaseline.companies, nextLatest.companies) : null);
+    }).catch(error => {
+        console.error("Failed to load snapshot:", error);
+        setSlotErrors(current => ({ ...current, [slot]: error instanceof Error ? error.message : String(error) }));
+    }).finally(() => setLoadingSlot(null));
+  };
+
+  const views = useMemo(() => {
+    if (!diff) return null;
+    const byAbs = (pick: (d: CompanyDelta) => number) => (a: CompanyDelta, b: CompanyDelta) => Math.abs(pick(b)) - Math.abs(pick(a));
+    return {
+        added: [...diff.added].sort((a, b) => b.scores.comprehensive - a.scores.comprehensive),
+        removed: [...diff.removed].sort((a, b) => b.scores.comprehensive - a.scores.comprehensive),
+        movers: diff.changed.filter(d => d.rankChange !== 0).sort(byAbs(d => d.rankChange)),
+        scoreChanges: diff.changed.filter(d => Math.abs(d.scoreDeltas[scoreKey]) >= 0.05).sort(byAbs(d => d.scoreDeltas[scoreKey])),
+        funding: diff.changed.filter(d => d.newFunding),
+        status: diff.changed.filter(d => d.statusChange)
+    };
+  }, [diff, scoreKey]);
+
+  return (
+    <div className="space-y-6">
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+            <div className="flex items-start justify-between gap-4 mb-4">
+                <div>
+                    <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+                        <GitCompare size={20} className="text-indigo-600" /> {t('compare_snapshots')}
+                    </h3>
+                    <p className="text-sm text-slate-500">{t('compare_snapshots_desc')}</p>
+                </div>
+                <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+                    <X size={18} />
+                </button>
+            </div>
+            <div className="flex flex-col md:flex-row gap-4">
+                <SnapshotSlot title={t('baseline_snapshot')} snapshot={baseline} loading={loadingSlot === 'baseline'} error={slotErrors.baseline} onFiles={(f) => loadSnapshot('baseline', f)} />
+                <SnapshotSlot title={t('latest_snapshot')} snapshot={latest} loading={loadingSlot === 'latest'} error={slotErrors.latest} onFiles={(f) => loadSnapshot('latest', f)} />
+            </div>
+
+            {views && (
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mt-6">
+                    {[
+                        { label: t('new_companies'), value: views.added.length, color: 'text-emerald-600' },
+                        { label: t('removed_companies'), value: views.removed.length, color: 'text-rose-600' },
+                        { label: t('rank_movers'), value: views.movers.length, color: 'text-indigo-600' },
+                        { label: t('new_funding'), value: views.funding.length, color: 'text-amber-600' },
+                        { label: t('status_changes'), value: views.status.length, color: 'text-purple-600' }
+                    ].map(card => (
+                        <div key={card.label} className="bg-slate-50 p-3 rounded-lg border border-slate-100 text-center">
+                            <div className={`text-lg font-bold ${card.color}`}>{card.value}</div>
+                            <div className="text-[10px] text-slate-500 uppercase">{card.label}</div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+
+        {views && (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <Section title={t('new_companies')} icon={PlusCircle} count={views.added.length}>
+                    <div className="divide-y divide-slate-100">
+                        {views.added.slice(0, MAX_LISTED).map(c => (
+                            <div key={c.id} className="px-4 py-2 flex justify-between text-xs">
+                                <span className="font-medium text-slate-700 truncate">{c["Organization Name"]}</span>
+                                <span className="font-semibold text-slate-800">{c.scores.comprehensive.toFixed(1)}</span>
+                            </div>
+                        ))}
+                        <MoreRow total={views.added.length} />
+                    </div>
+                </Section>
+
+                <Section title={t('removed_companies')} icon={MinusCircle} count={views.removed.length}>
+                    <div className="divide-y divide-slate-100">
+                        {views.removed.slice(0, MAX_LISTED).map(c => (
+                            <div key={c.id} className="px-4 py-2 flex justify-between text-xs">
+                                <span className="font-medium text-slate-700 truncate">{c["Organization Name"]}</span>
+                                <span className="text-slate-400">{c.scores.comprehensive.toFixed(1)}</span>
+                            </div>
+                        ))}
+                        <MoreRow total={views.removed.length} />
+                    </div>
+                </Section>
+
+                <Section title={t('rank_movers')} icon={ArrowUp} count={views.movers.length}>
+                    <table className="w-full text-xs">
+                        <tbody className="divide-y divide-slate-100">
+                            {views.movers.slice(0, MAX_LISTED).map(d => (
+                                <tr key={d.key}>
+                                    <td className="px-4 py-2 font-medium text-slate-700 truncate max-w-[180px]">{d.name}</td>
+                                    <td className="px-2 py-2 text-slate-500 text-right">#{d.rankBefore} → #{d.rankAfter}</td>
+                                    <td className={`px-4 py-2 text-right font-semibold ${deltaColor(d.rankChange)}`}>
+                                        <span className="inline-flex items-center gap-0.5">
+                                            {d.rankChange > 0 ? <ArrowUp size={12} /> : <ArrowDown size={12} />}{Math.abs(d.rankChange)}
+                                        </span>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <MoreRow total={views.movers.length} />
+                </Section>
+
+                <Section title={t('score_deltas')} icon={GitCompare} count={views.scoreChanges.length}>
+                    <div className="px-4 pt-3 flex flex-wrap gap-1.5">
+                        {SCORE_KEYS.map(k => (
+                            <button
+                                key={k}
+                                onClick={() => setScoreKey(k)}
+                                className={`px-2 py-0.5 text-[10px] font-medium rounded-full border transition-all ${scoreKey === k ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-200 hover:border-indigo-300'}`}
+                            >
+                                {t(SCORE_LABEL_KEYS[k])}
+                            </button>
+                        ))}
+                    </div>
+                    <table className="w-full text-xs mt-2">
+                        <tbody className="divide-y divide-slate-100">
+                            {views.scoreChanges.slice(0, MAX_LISTED).map(d => (
+                                <tr key={d.key}>
+                                    <td className="px-4 py-2 font-medium text-slate-700 truncate max-w-[180px]">{d.name}</td>
+                                    <td className="px-2 py-2 text-slate-500 text-right">{d.before.scores[scoreKey].toFixed(1)} → {d.after.scores[scoreKey].toFixed(1)}</td>
+                                    <td className={`px-4 py-2 text-right font-semibold ${deltaColor(d.scoreDeltas[scoreKey])}`}>{formatDelta(d.scoreDeltas[scoreKey])}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <MoreRow total={views.scoreChanges.length} />
+                </Section>
+
+                <Section title={t('new_funding')} icon={Wallet} count={views.funding.length}>
+                    <table className="w-full text-xs">
+                        <tbody className="divide-y divide-slate-100">
+                            {views.funding.slice(0, MAX_LISTED).map(d => (
+                                <tr key={d.key}>
+                                    <td className="px-4 py-2 font-medium text-slate-700 truncate max-w-[180px]">{d.name}</td>
+                                    <td className="px-2 py-2 text-slate-500">{d.before["Last Funding Type"] || '—'} → <span className="font-semibold text-slate-700">{d.after["Last Funding Type"] || '—'}</span></td>
+                                    <td className="px-4 py-2 text-right text-slate-500">{d.before["Number of Funding Rounds"] || 0} → {d.after["Number of Funding Rounds"] || 0} {t('rounds_count')}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <MoreRow total={views.funding.length} />
+                </Section>
+
+                <Section title={t('status_changes')} icon={Flag} count={views.status.length}>
+                    <div className="divide-y divide-slate-100">
+                        {views.status.slice(0, MAX_LISTED).map(d => (
+                            <div key={d.key} className="px-4 py-2 flex items-center justify-between gap-3 text-xs">
+                                <span className="font-medium text-slate-700 truncate">{d.name}</span>
+                                <span className={`px-2 py-0.5 rounded-full border text-[10px] font-medium ${d.statusChange!.color}`}>{d.statusChange!.label}</span>
+                            </div>
+                        ))}
+                        <MoreRow total={views.status.length} />
+                    </div>
+                </Section>
+            </div>
+        )}
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+import { ThemeMatch } from '../types';
+import { useThemes } from '../contexts/ThemeContext';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface ThemeTagProps {
+  themeId: string;
+  match?: ThemeMatch; // Weak matches render dashed, and the signals show on hover
+  className?: string;
+}
+
+// Colours come from the taxonomy, so tints are inline styles rather than Tailwind classes
+export const ThemeTag: React.FC<ThemeTagProps> = ({ themeId, match, className = "px-2 py-1 text-xs rounded-full font-medium" }) => {
+  const { getTheme } = useThemes();
+  const { t } = useLanguage();
+  const theme = getTheme(themeId);
+  const color = theme?.color || '#64748b';
+  const weak = match?.confidence === 'weak';
+
+  const title = match && [
+    `${t(`confidence_${match.confidence}`)} (${(match.score * 100).toFixed(0)}%)`,
+    match.industries.length > 0 && `${t('industries')}: ${match.industries.join(', ')}`,
+    match.keywords.length > 0 && `${t('keywords')}: ${match.keywords.join(', ')}`
+  ].filter(Boolean).join('\n');
+
+  return (
+    <span
+      className={`border ${weak ? 'border-dashed opacity-70' : ''} ${className}`}
+      style={{ backgroundColor: weak ? 'transparent' : `${color}1a`, borderColor: `${color}${weak ? '80' : '40'}`, color }}
+      title={title || undefined}
+    >
+      {theme?.name || themeId}
+    </span>
+  );
+};
@@ -0,0 +1,204 @@
+import React, { useState, useMemo } from 'react';
+import { ScoredCompany, ThemeDefinition, ThemeKeywords, ThemeConfidence, Language } from '../types';
+import { Tags, X, Plus, Trash2, RotateCcw } from 'lucide-react';
+import { THEME_PALETTE, createThemeId, parseKeywordList } from '../services/themeTaxonomy';
+import { useThemes } from '../contexts/ThemeContext';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface ThemeTaxonomyEditorProps {
+  companies: ScoredCompany[];
+  onClose: () => void;
+}
+
+interface ThemeRowProps {
+  theme: ThemeDefinition;
+  language: Language; // Which keyword set the text areas edit
+  matchCount: Record<ThemeConfidence, number>;
+  onChange: (theme: ThemeDefinition) => void;
+  onRemove: () => void;
+}
+
+const KEYWORD_LANGUAGES: Language[] = ['en', 'fr'];
+const CONFIDENCE_LEVELS: ThemeConfidence[] = ['weak', 'strong'];
+
+// English keywords live on the theme itself, other languages under `localized`
+const getKeywords = (theme: ThemeDefinition, language: Language): ThemeKeywords =>
+  language === 'en' ? theme : theme.localized?.[language] || { include: [], exclude: [] };
+
+const setKeywords = (theme: ThemeDefinition, language: Language, keywords: ThemeKeywords): ThemeDefinition =>
+  language === 'en' ? { ...theme, ...keywords } : { ...theme, localized: { ...theme.localized, [language]: keywords } };
+
+// Text fields commit on blur so the dataset isn't re-scored on every keystroke
+const ThemeRow: React.FC<ThemeRowProps> = ({ theme, language, matchCount, onChange, onRemove }) => {
+  const { t } = useLanguage();
+  const keywords = getKeywords(theme, language);
+  const [name, setName] = useState(theme.name);
+  const [include, setInclude] = useState(keywords.include.join(', '));
+  const [exclude, setExclude] = useState(keywords.exclude.join(', '));
+  const [industries, setIndustries] = useState((theme.industries || []).join(', '));
+
+  const commit = () => {
+    const base = { ...theme, name: name.trim() || theme.name, industries: parseKeywordList(industries) };
+    const next = setKeywords(base, language, { include: parseKeywordList(include), exclude: parseKeywordList(exclude) });
+    if (JSON.stringify(next) !== JSON.stringify(theme)) onChange(next);
+  };
+
+  const inputClass = "w-full text-xs px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-slate-700 focus:outline-none focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500";
+
+  return (
+    <div className="grid grid-cols-12 gap-3 items-start py-3 border-b border-slate-100 last:border-0">
+        <div className="col-span-12 md:col-span-3 flex items-center gap-2">
+            <input
+                type="color"
+                value={theme.color}
+                onChange={(e) => onChange({ ...theme, color: e.target.value })}
+                className="w-7 h-7 rounded cursor-pointer border border-slate-200 flex-shrink-0"
+                title={t('theme_color')}
+            />
+            <div className="flex-1">
+                <input type="text" value={name} onChange={(e) => setName(e.target.value)} onBlur={commit} className={`${inputClass} font-semibold`} />
+                <p className="text-[10px] text-slate-400 mt-1">{matchCount.strong} {t('confidence_strong').toLowerCase()} · {matchCount.weak} {t('confidence_weak').toLowerCase()}</p>
+            </div>
+        </div>
+        <div className="col-span-12 md:col-span-3">
+            <textarea value={industries} onChange={(e) => setIndustries(e.target.value)} onBlur={commit} rows={2} className={inputClass} placeholder={t('industry_tags')} />
+        </div>
+        <div className="col-span-12 md:col-span-3">
+            <textarea value={include} onChange={(e) => setInclude(e.target.value)} onBlur={commit} rows={2} className={inputClass} placeholder={language === 'en' ? t('include_keywords') : t('falls_back_to_english')} />
+        </div>
+        <div className="col-span-11 md:col-span-2">
+            <textarea value={exclude} onChange={(e) => setExclude(e.target.value)} onBlur={commit} rows={2} className={inputClass} placeholder={t('exclude_keywords')} />
+        </div>
+        <div className="col-span-1 flex justify-end">
+            <button onClick={onRemove} className="p-2 text-slate-400 hover:text-rose-600 rounded-lg" title={t('remove_theme')}>
+                <Trash2 size={14} />
+            </button>
+        </div>
+    </div>
+  );
+};
+
+export const ThemeTaxonomyEditor: React.FC<ThemeTaxonomyEditorProps> = ({ companies, onClose }) => {
+  const { t } = useLanguage();
+  const { themes, setThemes, resetThemes, minConfidence, setMinConfidence } = useThemes();
+  const [newName, setNewName] = useState("");
+  const [keywordLanguage, setKeywordLanguage] = useState<Language>('en');
+
+  // Strong and weak counts regardless of the filter, so users can see what "strong only" would drop
+  const matchCounts = useMemo(() => {
+    const counts: Record<string, Record<ThemeConfidence, number>> = {};
+    companies.forEach(c => c.themeMatches.forEach(m => {
+      counts[m.themeId] = counts[m.themeId] || { strong: 0, weak: 0 };
+      counts[m.themeId][m.confidence]++;
+    }));
+    return counts;
+  }, [companies]);
+
+  const handleAdd = () => {
+    const name = newName.trim();
+    if (!name) return;
+    setThemes([...themes, {
+        id: createThemeId(name, themes),
+        name,
+        include: [name.toLowerCase()],
+        exclude: [],
+        color: THEME_PALETTE[themes.length % THEME_PALETTE.length]
+    }]);
+    setNewName("");
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 print:hidden">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-4">
+            <div>
+                <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+                    <Tags size={20} className="text-indigo-600" /> {t('theme_taxonomy')}
+                </h3>
+                <p className="text-sm text-slate-500">{t('theme_taxonomy_desc')}</p>
+            </div>
+            <div className="flex items-center gap-2">
+                <span className="text-xs text-slate-500">{t('theme_confidence')}</span>
+                <div className="flex bg-slate-100 p-1 rounded-lg">
+                    {CONFIDENCE_LEVELS.map(level => (
+                        <button
+                            key={level}
+                            onClick={() => setMinConfidence(level)}
+                            className={`px-3 py-1 text-xs font-semibold rounded-md transition-all ${minConfidence === level ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                        >
+                            {t(`min_confidence_${level}`)}
+                        </button>
+                    ))}
+                </div>
+                <span className="text-xs text-slate-500 ml-2">{t('keyword_language')}</span>
+                <div className="flex bg-slate-100 p-1 rounded-lg">
+                    {KEYWORD_LANGUAGES.map(lang => (
+                        <button
+                            key={lang}
+                            onClick={() => setKeywordLanguage(lang)}
+                            className={`px-3 py-1 text-xs font-semibold rounded-md transition-all ${keywordLanguage === lang ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                        >
+                            {lang.toUpperCase()}
+                        </button>
+                    ))}
+                </div>
+                <button
+                    onClick={resetThemes}
+                    className="p-2 text-slate-400 hover:text-indigo-600 rounded-lg border border-slate-200"
+                    title={t('reset_themes')}
+                >
+                    <RotateCcw size={14} />
+                </button>
+                <button onClick={onClose} className="text-slate-400 hover:text-slate-600 ml-2">
+                    <X size={18} />
+                </button>
+            </div>
+        </div>
+
+        {/* Column headings */}
+        <div className="hidden md:grid grid-cols-12 gap-3 text-[10px] font-bold text-slate-400 uppercase tracking-wider pb-2 border-b border-slate-100">
+            <span className="col-span-3">{t('theme')}</span>
+            <span className="col-span-3">{t('industry_tags')}</span>
+            <span className="col-span-3">{t('include_keywords')}</span>
+            <span className="col-span-2">{t('exclude_keywords')}</span>
+        </div>
+
+        {themes.map((theme, idx) => {
+            const keywords = getKeywords(theme, keywordLanguage);
+            return (
+                <ThemeRow
+                    // Remount when the rules change from outside (e.g. reset) or the language switches so the drafts don't go stale
+                    key={[keywordLanguage, theme.id, theme.name, ...(theme.industries || []), '|', ...keywords.include, '|', ...keywords.exclude].join('\u0000')}
+                    theme={theme}
+                    language={keywordLanguage}
+                    matchCount={matchCounts[theme.id] || { strong: 0, weak: 0 }}
+                    onChange={(next) => setThemes(themes.map((th, i) => i === idx ? next : th))}
+                    onRemove={() => setThemes(themes.filter((_, i) => i !== idx))}
+                />
+            );
+        })}
+
+        {/* Add Theme */}
+        <div className="flex items-center justify-between gap-2 mt-4 pt-4 border-t border-slate-100">
+            <p className="text-[11px] text-slate-400">{t('keyword_hint')}</p>
+            <div className="flex items-center gap-2">
+                <input
+                    type="text"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                    placeholder={t('new_theme_name')}
+                    className="text-xs px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-slate-700 focus:outline-none focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500"
+                />
+                <button
+                    onClick={handleAdd}
+                    disabled={!newName.trim()}
+                    className="flex items-center gap-1.5 px-3 py-2 bg-slate-900 hover:bg-slate-800 text-white rounded-lg text-xs font-medium transition-colors disabled:opacity-50"
+                >
+                    <Plus size={14} /> {t('add_theme')}
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -2,23 +2,21 @@ import React, { useState, useMemo, useEffect } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { ThemeTrend } from '../types';
 import { SlidersHorizontal, X, Calendar, Layers, Check, TrendingUp, PieChart } from 'lucide-react';
+import { useThemes } from '../contexts/ThemeContext';
 
 interface TrendChartProps {
   data: ThemeTrend[];
 }
 
-const THEME_CONFIG: Record<string, { color: string, label: string }> = {
-  AI: { color: '#3b82f6', label: 'AI' },
-  Climate: { color: '#10b981', label: 'Climate' },
-  Fintech: { color: '#f59e0b', label: 'Fintech' },
-  Healthcare: { color: '#e11d48', label: 'Healthcare' },
-  SaaS: { color: '#8b5cf6', label: 'SaaS' },
-  Consumer: { color: '#14b8a6', label: 'Consumer' }
-};
-
 export const TrendChart: React.FC<TrendChartProps> = ({ data }) => {
+  const { themes, getTheme } = useThemes();
   const [isPanelOpen, setIsPanelOpen] = useState(false);
-  const [selectedThemes, setSelectedThemes] = useState<string[]>(Object.keys(THEME_CONFIG));
+  const [selectedThemes, setSelectedThemes] = useState<string[]>(() => themes.map(t => t.id));
+
+  // Show every theme again whenever the taxonomy is edited
+  useEffect(() => {
+    setSelectedThemes(themes.map(t => t.id));
+  }, [themes]);
   
   // Date Range State
   const [yearRange, setYearRange] = useState<{start: number, end: number}>({ start: 2015, end: 2025 });
@@ -46,7 +44,7 @@ export const TrendChart: React.FC<TrendChartProps> = ({ data }) => {
     let dominantTheme = "N/A";
     
     selectedThemes.forEach(theme => {
-        const sum = filteredData.reduce((acc, curr) => acc + (curr[theme as keyof ThemeTrend] as number || 0), 0);
+        const sum = filteredData.reduce((acc, curr) => acc + (curr[theme] || 0), 0);
         const avg = sum / filteredData.length;
         if (avg > maxAvg) {
             maxAvg = avg;
@@ -62,8 +60,8 @@ export const TrendChart: React.FC<TrendChartProps> = ({ data }) => {
 
     if (startData && endData) {
         selectedThemes.forEach(theme => {
-            const startVal = startData[theme as keyof ThemeTrend] as number || 0;
-            const endVal = endData[theme as keyof ThemeTrend] as number || 0;
+            const startVal = startData[theme] || 0;
+            const endVal = endData[theme] || 0;
             const growth = endVal - startVal;
             if (growth > maxGrowth) {
                 maxGrowth = growth;
@@ -73,11 +71,11 @@ export const TrendChart: React.FC<TrendChartProps> = ({ data }) => {
     }
 
     return {
-        dominant: dominantTheme,
-        growth: growthTheme,
+        dominant: getTheme(dominantTheme)?.name || dominantTheme,
+        growth: getTheme(growthTheme)?.name || growthTheme,
         avgShare: maxAvg.toFixed(1)
     };
-  }, [filteredData, selectedThemes]);
+  }, [filteredData, selectedThemes, getTheme]);
 
   const toggleTheme = (theme: string) => {
     setSelectedThemes(prev => {
@@ -137,13 +135,14 @@ export const TrendChart: React.FC<TrendChartProps> = ({ data }) => {
                 />
                 <Legend wrapperStyle={{ paddingTop: '20px' }} iconType="circle" />
                 
-                {Object.keys(THEME_CONFIG).map((theme) => (
-                    selectedThemes.includes(theme) && (
+                {themes.map((theme) => (
+                    selectedThemes.includes(theme.id) && (
                         <Line 
-                            key={theme}
+                            key={theme.id}
                             type="monotone" 
-                            dataKey={theme} 
-                            stroke={THEME_CONFIG[theme].color} 
+                            dataKey={theme.id} 
+                            name={theme.name}
+                            stroke={theme.color} 
                             strokeWidth={3} 
                             dot={false} 
                             activeDot={{ r: 6, strokeWidth: 0 }}
@@ -233,7 +232,7 @@ export const TrendChart: React.FC<TrendChartProps> = ({ data }) => {
                     <Layers size={14} /> Visible Themes
                 </label>
                 <div className="space-y-2">
-                    {Object.entries(THEME_CONFIG).map(([key, config]) => (
+                    {themes.map(({ id: key, name, color }) => (
                         <button
                             key={key}
                             onClick={() => toggleTheme(key)}
@@ -246,17 +245,17 @@ export const TrendChart: React.FC<TrendChartProps> = ({ data }) => {
                             <div className="flex items-center gap-3">
                                 <div 
                                     className={`w-3 h-3 rounded-full transition-colors`} 
-                                    style={{ backgroundColor: selectedThemes.includes(key) ? config.color : '#cbd5e1' }} 
+                                    style={{ backgroundColor: selectedThemes.includes(key) ? color : '#cbd5e1' }} 
                                 />
-                                {config.label}
+                                {name}
                             </div>
                             {selectedThemes.includes(key) && <Check size={14} className="text-slate-400" />}
                         </button>
                     ))}
                 </div>
-                {selectedThemes.length < Object.keys(THEME_CONFIG).length && (
+                {selectedThemes.length < themes.length && (
                     <button 
-                        onClick={() => setSelectedThemes(Object.keys(THEME_CONFIG))}
+                        onClick={() => setSelectedThemes(themes.map(t => t.id))}
                         className="mt-3 text-[10px] text-indigo-600 font-medium hover:underline w-full text-center"
                     >
                         Reset to Show All
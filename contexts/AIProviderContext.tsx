@@ -0,0 +1,37 @@
+import React, { createContext, useContext, useState, useMemo, ReactNode } from 'react';
+import { AIProviderSettings } from '../types';
+import { AIProvider, createAIProvider, loadAIProviderSettings, saveAIProviderSettings } from '../services/aiProviders';
+import { withRequestLayer } from '../services/aiRequests';
+
+interface AIProviderContextType {
+  settings: AIProviderSettings;
+  setSettings: (settings: AIProviderSettings) => void;
+  provider: AIProvider; // Cached, retried and rate-limited
+}
+
+const AIProviderContext = createContext<AIProviderContextType | undefined>(undefined);
+
+export const AIProviderProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [settings, setSettingsState] = useState<AIProviderSettings>(() => loadAIProviderSettings());
+
+  const setSettings = (next: AIProviderSettings) => {
+    setSettingsState(next);
+    saveAIProviderSettings(next);
+  };
+
+  const provider = useMemo(() => withRequestLayer(createAIProvider(settings), settings), [settings]);
+
+  return (
+    <AIProviderContext.Provider value={{ settings, setSettings, provider }}>
+      {children}
+    </AIProviderContext.Provider>
+  );
+};
+
+export const useAIProvider = () => {
+  const context = useContext(AIProviderContext);
+  if (context === undefined) {
+    throw new Error('useAIProvider must be used within an AIProviderProvider');
+  }
+  return context;
+};
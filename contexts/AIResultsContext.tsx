@@ -0,0 +1,74 @@
+import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
+import { AIResults, AIErrors, AIError } from '../types';
+import { upgradeLegacyMemos } from '../services/promptTemplates';
+
+interface AIResultsContextType {
+  results: AIResults;
+  setResult: <K extends keyof AIResults>(kind: K, key: string, value: AIResults[K][string]) => void;
+  errors: AIErrors;
+  setError: (kind: keyof AIResults, key: string, error: AIError) => void;
+  replaceResults: (results: AIResults) => void;
+  clearResults: () => void;
+}
+
+export const EMPTY_AI_RESULTS: AIResults = {
+  companyAnalyses: {},
+  companyIntel: {},
+  investorAnalyses: {},
+  investorIntel: {}
+};
+
+const EMPTY_AI_ERRORS: AIErrors = {
+  companyAnalyses: {},
+  companyIntel: {},
+  investorAnalyses: {},
+  investorIntel: {}
+};
+
+const AIResultsContext = createContext<AIResultsContextType | undefined>(undefined);
+
+// AI outputs live above the dashboard so they survive re-scoring and can be saved with a session
+export const AIResultsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [results, setResults] = useState<AIResults>(EMPTY_AI_RESULTS);
+  // Failures are only kept for the running session, never saved with it
+  const [errors, setErrors] = useState<AIErrors>(EMPTY_AI_ERRORS);
+
+  const clearError = (kind: keyof AIResults, key: string) => setErrors(prev => {
+    if (!prev[kind][key]) return prev;
+    const { [key]: _cleared, ...rest } = prev[kind];
+    return { ...prev, [kind]: rest };
+  });
+
+  const setResult = useCallback(<K extends keyof AIResults>(kind: K, key: string, value: AIResults[K][string]) => {
+    setResults(prev => ({ ...prev, [kind]: { ...prev[kind], [key]: value } }));
+    clearError(kind, key);
+  }, []);
+
+  const setError = useCallback((kind: keyof AIResults, key: string, error: AIError) => {
+    setErrors(prev => ({ ...prev, [kind]: { ...prev[kind], [key]: error } }));
+  }, []);
+
+  const replaceResults = useCallback((next: AIResults) => {
+    setResults(upgradeLegacyMemos({ ...EMPTY_AI_RESULTS, ...next }));
+    setErrors(EMPTY_AI_ERRORS);
+  }, []);
+
+  const clearResults = useCallback(() => {
+    setResults(EMPTY_AI_RESULTS);
+    setErrors(EMPTY_AI_ERRORS);
+  }, []);
+
+  return (
+    <AIResultsContext.Provider value={{ results, setResult, errors, setError, replaceResults, clearResults }}>
+      {children}
+    </AIResultsContext.Provider>
+  );
+};
+
+export const useAIResults = () => {
+  const context = useContext(AIResultsContext);
+  if (context === undefined) {
+    throw new Error('useAIResults must be used within an AIResultsProvider');
+  }
+  return context;
+};
@@ -0,0 +1,43 @@
+import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
+import { ReportingCurrency, FXRates } from '../types';
+import { loadFXRates, saveFXRates, fromUSD, formatMillions } from '../services/currency';
+
+interface CurrencyContextType {
+  currency: ReportingCurrency;
+  setCurrency: (currency: ReportingCurrency) => void;
+  rates: FXRates;
+  setRates: (rates: FXRates) => void;
+  convert: (amountUSD: number) => number;
+  formatAmount: (amountUSD: number, digits?: number) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+export const CurrencyProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [currency, setCurrency] = useState<ReportingCurrency>('USD');
+  const [rates, setRatesState] = useState<FXRates>(() => loadFXRates());
+
+  const setRates = (next: FXRates) => {
+    setRatesState(next);
+    saveFXRates(next);
+  };
+
+  // Stable between renders so components can list them as memo dependencies
+  const convert = useCallback((amountUSD: number) => fromUSD(amountUSD, currency, rates), [currency, rates]);
+
+  const formatAmount = useCallback((amountUSD: number, digits = 1) => formatMillions(convert(amountUSD), currency, digits), [convert, currency]);
+
+  return (
+    <CurrencyContext.Provider value={{ currency, setCurrency, rates, setRates, convert, formatAmount }}>
+      {children}
+    </CurrencyContext.Provider>
+  );
+};
+
+export const useCurrency = () => {
+  const context = useContext(CurrencyContext);
+  if (context === undefined) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+};
@@ -0,0 +1,55 @@
+import React, { createContext, useContext, useState, ReactNode } from 'react';
+import { InvestorAliasDictionary } from '../types';
+import { EMPTY_ALIASES, investorKey, loadInvestorAliases, saveInvestorAliases } from '../services/investorAliases';
+
+interface InvestorAliasContextType {
+  dictionary: InvestorAliasDictionary;
+  setDictionary: (dictionary: InvestorAliasDictionary) => void;
+  addAlias: (from: string, to: string) => void; // `from` is then counted as `to`
+  removeAlias: (key: string) => void;
+  dismissSuggestion: (id: string) => void;
+  resetAliases: () => void;
+}
+
+const InvestorAliasContext = createContext<InvestorAliasContextType | undefined>(undefined);
+
+export const InvestorAliasProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [dictionary, setDictionaryState] = useState<InvestorAliasDictionary>(() => loadInvestorAliases());
+
+  const setDictionary = (next: InvestorAliasDictionary) => {
+    setDictionaryState(next);
+    saveInvestorAliases(next);
+  };
+
+  const addAlias = (from: string, to: string) => {
+    const key = investorKey(from);
+    // Aliasing a name to itself (or to another spelling of it) would only loop
+    if (!key || key === investorKey(to)) return;
+    setDictionary({ ...dictionary, aliases: { ...dictionary.aliases, [key]: to.trim() } });
+  };
+
+  const removeAlias = (key: string) => {
+    const { [key]: _removed, ...aliases } = dictionary.aliases;
+    setDictionary({ ...dictionary, aliases });
+  };
+
+  const dismissSuggestion = (id: string) => {
+    if (!dictionary.dismissed.includes(id)) setDictionary({ ...dictionary, dismissed: [...dictionary.dismissed, id] });
+  };
+
+  const resetAliases = () => setDictionary(EMPTY_ALIASES);
+
+  return (
+    <InvestorAliasContext.Provider value={{ dictionary, setDictionary, addAlias, removeAlias, dismissSuggestion, resetAliases }}>
+      {children}
+    </InvestorAliasContext.Provider>
+  );
+};
+
+export const useInvestorAliases = () => {
+  const context = useContext(InvestorAliasContext);
+  if (context === undefined) {
+    throw new Error('useInvestorAliases must be used within an InvestorAliasProvider');
+  }
+  return context;
+};
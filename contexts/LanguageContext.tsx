@@ -1,6 +1,5 @@
 import React, { createContext, useContext, useState, ReactNode } from 'react';
-
-type Language = 'en' | 'fr';
+import { Language } from '../types';
 
 interface LanguageContextType {
   language: Language;
@@ -13,6 +12,7 @@ const translations: Record<string, { en: string; fr: string }> = {
   'app_name': { en: 'Capital Compass', fr: 'Capital Compass' },
   'export_csv': { en: 'Export CSV', fr: 'Exporter CSV' },
   'start_over': { en: 'Start Over', fr: 'Recommencer' },
+  'scoring': { en: 'Scoring', fr: 'Notation' },
   'download_report': { en: 'Download Report', fr: 'Télécharger le Rapport' },
   
   // Empty State
@@ -21,6 +21,272 @@ const translations: Record<string, { en: string; fr: string }> = {
   'upload_datasets': { en: 'Upload Dataset(s)', fr: 'Télécharger les Données' },
   'drag_drop': { en: 'Drag and drop or click to select one or multiple CSV files', fr: 'Glissez-déposez ou cliquez pour sélectionner des fichiers' },
   'crunching': { en: 'Crunching the numbers...', fr: 'Analyse des chiffres en cours...' },
+  'cancel': { en: 'Cancel', fr: 'Annuler' },
+  'stage_parsing': { en: 'Parsing files', fr: 'Lecture des fichiers' },
+  'stage_scoring': { en: 'Scoring companies', fr: 'Notation des entreprises' },
+  'stage_trends': { en: 'Aggregating trends', fr: 'Agrégation des tendances' },
+  'stage_investors': { en: 'Aggregating investors', fr: 'Agrégation des investisseurs' },
+  'import_merge_failed': { en: 'The duplicate merge failed, so the dashboard could not be built. Review the import and try again.', fr: 'La fusion des doublons a échoué et le tableau de bord n\'a pas pu être généré. Vérifiez l\'importation et réessayez.' },
+  'import_parse_failed': { en: 'The files could not be read. Check that they are CSV exports and try again.', fr: 'Les fichiers n\'ont pas pu être lus. Vérifiez qu\'il s\'agit d\'exports CSV et réessayez.' },
+  'analysis_failed': { en: 'Scoring the dataset failed, so the dashboard could not be updated.', fr: 'La notation des données a échoué et le tableau de bord n\'a pas pu être mis à jour.' },
+  'results_stale': { en: 'The dashboard still shows results from the previous settings.', fr: 'Le tableau de bord affiche encore les résultats des réglages précédents.' },
+  'rescore': { en: 'Re-score', fr: 'Renoter' },
+  'import_rounds_only': { en: 'Funding rounds files are joined to an organisations export. Upload them together with the organisations file.', fr: 'Les fichiers de tours de financement sont joints à un export d\'organisations. Importez-les avec le fichier des organisations.' },
+  'import_mapping_failed': { en: 'The files could not be checked with this column mapping. Adjust the mapping and try again.', fr: 'Les fichiers n\'ont pas pu être vérifiés avec ce mappage de colonnes. Ajustez le mappage et réessayez.' },
+
+  // Currency
+  'currency_settings': { en: 'Currency & FX Rates', fr: 'Devise et Taux de Change' },
+  'currency_settings_desc': { en: 'Funding in other currencies is converted with these rates. Amounts are reported in the selected currency.', fr: 'Les financements en devises étrangères sont convertis avec ces taux. Les montants sont affichés dans la devise choisie.' },
+  'reporting_currency': { en: 'Report in', fr: 'Afficher en' },
+  'fx_rates': { en: 'FX Rates', fr: 'Taux de Change' },
+  'fx_rate_hint': { en: 'Value of one unit of each currency in USD.', fr: 'Valeur d\'une unité de chaque devise en USD.' },
+  'add_currency': { en: 'Add Currency', fr: 'Ajouter une Devise' },
+  'reset_rates': { en: 'Reset to default rates', fr: 'Rétablir les taux par défaut' },
+  'unknown_currencies': { en: 'No rate for these currencies; their funding counts as 0:', fr: 'Aucun taux pour ces devises ; leur financement compte pour 0 :' },
+
+  // Duplicates
+  'duplicates': { en: 'Duplicate Companies', fr: 'Entreprises en Double' },
+  'duplicates_merged': { en: 'duplicate rows merged', fr: 'lignes en double fusionnées' },
+  'duplicates_to_review': { en: 'possible matches to review', fr: 'correspondances possibles à vérifier' },
+  'possible_duplicates': { en: 'Possible duplicates (tick to merge)', fr: 'Doublons possibles (cochez pour fusionner)' },
+  'merge_most_complete': { en: 'Most complete row wins', fr: 'La ligne la plus complète l\'emporte' },
+  'merge_first': { en: 'First upload wins', fr: 'Le premier fichier l\'emporte' },
+  'merge_latest': { en: 'Latest upload wins', fr: 'Le dernier fichier l\'emporte' },
+
+  // Saved Sessions
+  'saved_sessions': { en: 'Saved Sessions', fr: 'Sessions Enregistrées' },
+  'save_session': { en: 'Save Session', fr: 'Enregistrer' },
+  'session_saved': { en: 'Saved', fr: 'Enregistré' },
+  'session_save_failed': { en: 'Save failed', fr: 'Échec de l\'enregistrement' },
+  'companies': { en: 'companies', fr: 'entreprises' },
+  'open': { en: 'Open', fr: 'Ouvrir' },
+  'rename': { en: 'Rename', fr: 'Renommer' },
+  'delete': { en: 'Delete', fr: 'Supprimer' },
+
+  // Snapshot Compare
+  'compare': { en: 'Compare', fr: 'Comparer' },
+  'compare_two_snapshots': { en: 'Compare two snapshots', fr: 'Comparer deux instantanés' },
+  'compare_snapshots': { en: 'Snapshot Comparison', fr: 'Comparaison d\'Instantanés' },
+  'compare_snapshots_desc': { en: 'Load two exports of the same list to see what changed between them. Select a Funding Rounds export together with its list to include its rounds.', fr: 'Chargez deux exports de la même liste pour voir ce qui a changé. Sélectionnez un export Funding Rounds avec sa liste pour inclure ses tours.' },
+  'baseline_snapshot': { en: 'Baseline', fr: 'Référence' },
+  'latest_snapshot': { en: 'Latest', fr: 'Plus Récent' },
+  'choose_csv': { en: 'Choose a CSV...', fr: 'Choisir un CSV...' },
+  'current_dataset': { en: 'Current dataset', fr: 'Données actuelles' },
+  'snapshot_load_failed': { en: 'These files could not be read or scored', fr: 'Ces fichiers n\'ont pas pu être lus ou notés' },
+  'new_companies': { en: 'New Companies', fr: 'Nouvelles Entreprises' },
+  'removed_companies': { en: 'Removed', fr: 'Retirées' },
+  'rank_movers': { en: 'Rank Movers', fr: 'Mouvements de Rang' },
+  'score_deltas': { en: 'Score Changes', fr: 'Variations de Score' },
+  'new_funding': { en: 'New Funding Rounds', fr: 'Nouveaux Tours de Table' },
+  'rounds_count': { en: 'rounds', fr: 'tours' },
+  'status_changes': { en: 'Acquired / Closed', fr: 'Acquises / Fermées' },
+
+  // Theme Taxonomy
+  'themes': { en: 'Themes', fr: 'Thèmes' },
+  'theme': { en: 'Theme', fr: 'Thème' },
+  'theme_taxonomy': { en: 'Theme Taxonomy', fr: 'Taxonomie des Thèmes' },
+  'theme_taxonomy_desc': { en: 'Define the themes companies are tagged with. Charts, filters and tags follow this list.', fr: 'Définissez les thèmes attribués aux entreprises. Graphiques, filtres et étiquettes suivent cette liste.' },
+  'include_keywords': { en: 'Include keywords', fr: 'Mots-clés inclus' },
+  'exclude_keywords': { en: 'Exclude keywords', fr: 'Mots-clés exclus' },
+  'keyword_hint': { en: 'Comma-separated, whole words, accents optional. End a keyword with * to match any ending (e.g. quantum*). Each description is matched in its own language.', fr: 'Séparés par des virgules, mots entiers, accents facultatifs. Terminez par * pour toute terminaison (ex. quantique*). Chaque description est analysée dans sa propre langue.' },
+  'industry_tags': { en: 'Industry tags', fr: 'Secteurs (Industries)' },
+  'industries': { en: 'Industries', fr: 'Secteurs' },
+  'keywords': { en: 'Keywords', fr: 'Mots-clés' },
+  'confidence_strong': { en: 'Strong', fr: 'Forte' },
+  'confidence_weak': { en: 'Weak', fr: 'Faible' },
+  'theme_confidence': { en: 'Show', fr: 'Afficher' },
+  'min_confidence_weak': { en: 'All matches', fr: 'Toutes' },
+  'min_confidence_strong': { en: 'Strong only', fr: 'Fortes seulement' },
+  'theme_color': { en: 'Theme colour', fr: 'Couleur du thème' },
+  'remove_theme': { en: 'Remove theme', fr: 'Supprimer le thème' },
+  'new_theme_name': { en: 'New theme name', fr: 'Nom du nouveau thème' },
+  'add_theme': { en: 'Add Theme', fr: 'Ajouter' },
+  'reset_themes': { en: 'Reset to default themes', fr: 'Rétablir les thèmes par défaut' },
+  'keyword_language': { en: 'Keywords for', fr: 'Mots-clés en' },
+  'falls_back_to_english': { en: 'Empty: English keywords are used', fr: 'Vide : les mots-clés anglais sont utilisés' },
+
+  // Funding Rounds
+  'funding_rounds_joined': { en: 'funding rounds from a Funding Rounds file will be joined to companies by organisation URL or name.', fr: 'tours de financement d\'un fichier Funding Rounds seront rattachés aux entreprises par URL ou nom.' },
+  'funding_timeline': { en: 'Funding Timeline', fr: 'Historique de Financement' },
+  'no_rounds_joined': { en: 'No rounds in the funding rounds file matched this company.', fr: 'Aucun tour du fichier de financement ne correspond à cette entreprise.' },
+  'undated': { en: 'Undated', fr: 'Non daté' },
+  'undisclosed': { en: 'Undisclosed', fr: 'Non divulgué' },
+  'led_by': { en: 'Led by', fr: 'Mené par' },
+  'participants': { en: 'participants', fr: 'participants' },
+  'led_this_round': { en: 'Led this company\'s funding', fr: 'A mené le financement de cette entreprise' },
+
+  // Similar Companies
+  'similar_companies': { en: 'Similar Companies', fr: 'Entreprises Similaires' },
+  'no_similar_companies': { en: 'No company in this dataset shares enough description words or industry tags.', fr: 'Aucune entreprise de ce jeu de données ne partage assez de mots ou de secteurs.' },
+  'leads_niche': { en: 'Leads its niche', fr: 'En tête de sa niche' },
+  'in_niche': { en: 'in its niche', fr: 'dans sa niche' },
+
+  // Co-investment Network
+  'co_investment_network': { en: 'Co-investment Network', fr: 'Réseau de Co-investissement' },
+  'co_investment_network_desc': { en: 'Investors linked by the companies they backed together. Colours mark syndicates found by community detection.', fr: 'Investisseurs reliés par les entreprises financées ensemble. Les couleurs indiquent les syndicats détectés.' },
+  'no_co_investments': { en: 'No two investors share a portfolio company in this dataset.', fr: 'Aucun investisseur ne partage une entreprise avec un autre dans ce jeu de données.' },
+  'find_investor': { en: 'Find an investor...', fr: 'Trouver un investisseur...' },
+  'syndicates': { en: 'Syndicates:', fr: 'Syndicats :' },
+  'syndicate': { en: 'Syndicate', fr: 'Syndicat' },
+  'deals': { en: 'deals', fr: 'opérations' },
+  'co_investors': { en: 'co-investors', fr: 'co-investisseurs' },
+  'top_co_investors': { en: 'Strongest Ties', fr: 'Liens les Plus Forts' },
+  'intro_path_to': { en: 'Warm intro path to', fr: 'Chemin d\'introduction vers' },
+  'investor_name': { en: 'Investor name', fr: 'Nom de l\'investisseur' },
+  'no_intro_path': { en: 'No chain of co-investors connects these two.', fr: 'Aucune chaîne de co-investisseurs ne relie ces deux investisseurs.' },
+  'clear_focus': { en: 'Back to overview', fr: 'Retour à la vue d\'ensemble' },
+  'network_hint': { en: 'Click an investor to focus on its neighbourhood, drag to rearrange. Thicker lines mean more shared companies.', fr: 'Cliquez sur un investisseur pour voir son voisinage, glissez pour réorganiser. Les traits épais indiquent plus d\'entreprises communes.' },
+
+  // Investor Aliases
+  'aliases': { en: 'Aliases', fr: 'Alias' },
+  'investor_aliases': { en: 'Investor Aliases', fr: 'Alias d\'Investisseurs' },
+  'investor_aliases_desc': { en: 'Merge spellings of the same investor so counts, portfolios and the network treat them as one.', fr: 'Fusionnez les variantes d\'un même investisseur pour que les comptes, portefeuilles et le réseau les traitent comme une seule entité.' },
+  'reset_aliases': { en: 'Clear all aliases', fr: 'Effacer tous les alias' },
+  'suggested_merges': { en: 'Suggested Merges', fr: 'Fusions Suggérées' },
+  'no_alias_suggestions': { en: 'No likely duplicates left to review.', fr: 'Aucun doublon probable à examiner.' },
+  'alias_reason_generic_words': { en: 'Same name apart from words like Capital or Ventures', fr: 'Même nom à part des mots comme Capital ou Ventures' },
+  'alias_reason_spelling': { en: 'Near-identical spelling', fr: 'Orthographe quasi identique' },
+  'mentions': { en: 'mentions', fr: 'mentions' },
+  'swap_direction': { en: 'Swap which name is kept', fr: 'Inverser le nom conservé' },
+  'confirm_merge': { en: 'Merge', fr: 'Fusionner' },
+  'dismiss': { en: 'Dismiss', fr: 'Ignorer' },
+  'confirmed_aliases': { en: 'Confirmed Aliases', fr: 'Alias Confirmés' },
+  'alias_from': { en: 'Name as written...', fr: 'Nom tel qu\'écrit...' },
+  'alias_to': { en: 'Count it as...', fr: 'Le compter comme...' },
+  'add_alias': { en: 'Add alias', fr: 'Ajouter l\'alias' },
+  'no_aliases': { en: 'No aliases yet. Confirm a suggestion or add one by hand.', fr: 'Aucun alias. Confirmez une suggestion ou ajoutez-en un.' },
+  'remove_alias': { en: 'Remove alias', fr: 'Supprimer l\'alias' },
+  'automatic_merges': { en: 'Merged Automatically', fr: 'Fusionnés Automatiquement' },
+  'automatic_merges_desc': { en: 'Spellings that differ only in case, punctuation, legal suffixes (Inc, LP) or fund numbers (Fund II).', fr: 'Variantes qui ne diffèrent que par la casse, la ponctuation, les suffixes juridiques (Inc, LP) ou les numéros de fonds (Fund II).' },
+
+  // AI Provider
+  'ai_settings': { en: 'AI Provider', fr: 'Fournisseur IA' },
+  'ai_settings_desc': { en: 'Choose which model writes memos, investor analyses and live intelligence.', fr: 'Choisissez le modèle qui rédige les mémos, les analyses d\'investisseurs et la veille en direct.' },
+  'reset_ai_settings': { en: 'Reset to defaults', fr: 'Rétablir les valeurs par défaut' },
+  'ai_provider_gemini': { en: 'Gemini', fr: 'Gemini' },
+  'ai_provider_openai': { en: 'OpenAI-compatible', fr: 'Compatible OpenAI' },
+  'ai_provider_mock': { en: 'Offline mock', fr: 'Simulation hors ligne' },
+  'ai_provider_gemini_desc': { en: 'Google Gemini with Google Search grounding for live intelligence. Needs GEMINI_API_KEY in .env.local.', fr: 'Google Gemini, avec la recherche Google pour la veille en direct. Nécessite GEMINI_API_KEY dans .env.local.' },
+  'ai_provider_openai_desc': { en: 'Any server that speaks the OpenAI Chat Completions API, such as Ollama, LM Studio, llama.cpp or vLLM. Live intelligence comes from the model\'s own knowledge, without web sources.', fr: 'Tout serveur compatible avec l\'API Chat Completions d\'OpenAI, comme Ollama, LM Studio, llama.cpp ou vLLM. La veille en direct repose sur les connaissances du modèle, sans sources web.' },
+  'ai_provider_mock_desc': { en: 'Deterministic sample responses generated locally. No key or network needed; useful for demos and development.', fr: 'Réponses d\'exemple déterministes générées localement. Ni clé ni réseau requis ; utile pour les démos et le développement.' },
+  'ai_model': { en: 'Model', fr: 'Modèle' },
+  'ai_base_url': { en: 'Base URL', fr: 'URL de base' },
+  'ai_api_key': { en: 'API Key', fr: 'Clé API' },
+  'optional': { en: 'Optional', fr: 'Facultatif' },
+  'gemini_key_found': { en: 'API key found in the environment', fr: 'Clé API trouvée dans l\'environnement' },
+  'ai_rate_limits': { en: 'Rate Limits', fr: 'Limites de Débit' },
+  'requests_per_minute': { en: 'Requests per minute', fr: 'Requêtes par minute' },
+  'max_concurrent_requests': { en: 'Requests at once', fr: 'Requêtes simultanées' },
+  'ai_rate_limits_hint': { en: 'Rate-limited and failed requests are retried with backoff. Identical requests are answered from a local cache.', fr: 'Les requêtes limitées ou en échec sont relancées avec un délai croissant. Les requêtes identiques sont servies depuis un cache local.' },
+  'clear_ai_cache': { en: 'Clear response cache', fr: 'Vider le cache des réponses' },
+  'retry': { en: 'Retry', fr: 'Réessayer' },
+  'ai_error_rate_limited': { en: 'The AI provider is rate-limiting requests and retries ran out. Wait a moment and try again.', fr: 'Le fournisseur IA limite les requêtes et les nouvelles tentatives sont épuisées. Patientez puis réessayez.' },
+  'ai_error_server': { en: 'The AI provider returned a server error.', fr: 'Le fournisseur IA a renvoyé une erreur serveur.' },
+  'ai_error_network': { en: 'Could not reach the AI provider. Check your connection or the server URL.', fr: 'Impossible de joindre le fournisseur IA. Vérifiez votre connexion ou l\'URL du serveur.' },
+  'ai_error_auth': { en: 'The AI provider rejected the API key.', fr: 'Le fournisseur IA a refusé la clé API.' },
+  'ai_error_request': { en: 'The AI provider rejected the request. Check the model name in the AI provider settings.', fr: 'Le fournisseur IA a refusé la requête. Vérifiez le nom du modèle dans les paramètres IA.' },
+  'ai_error_bad_response': { en: 'The model\'s answer was not in the expected format.', fr: 'La réponse du modèle n\'avait pas le format attendu.' },
+  'ai_error_config': { en: 'No API key is configured for this AI provider.', fr: 'Aucune clé API n\'est configurée pour ce fournisseur IA.' },
+  'ai_error_template': { en: 'The active prompt template has no output fields.', fr: 'Le modèle de prompt actif n\'a aucun champ de sortie.' },
+  'gemini_key_missing': { en: 'No GEMINI_API_KEY set; requests will fail', fr: 'Aucune GEMINI_API_KEY définie ; les requêtes échoueront' },
+
+  // Batch Memos
+  'batch_memos': { en: 'Batch Memos', fr: 'Mémos en Lot' },
+  'batch_memos_desc': { en: 'Generate memos for the top of the ranking or the ticked rows. Companies that already have one from the active template are skipped.', fr: 'Générez des mémos pour le haut du classement ou les lignes cochées. Les entreprises qui en ont déjà un issu du modèle actif sont ignorées.' },
+  'batch_close_hint': { en: 'Pause or cancel the run before closing', fr: 'Mettez en pause ou annulez avant de fermer' },
+  'batch_top': { en: 'Top', fr: 'Top' },
+  'batch_selected': { en: 'Selected rows', fr: 'Lignes sélectionnées' },
+  'batch_include_intel': { en: 'Include live intel', fr: 'Inclure la veille en direct' },
+  'batch_start': { en: 'Start', fr: 'Lancer' },
+  'batch_pause': { en: 'Pause', fr: 'Pause' },
+  'batch_resume': { en: 'Resume', fr: 'Reprendre' },
+  'batch_cancel': { en: 'Cancel', fr: 'Annuler' },
+  'batch_retry_failed': { en: 'Retry failed', fr: 'Relancer les échecs' },
+  'batch_state_running': { en: 'Running', fr: 'En cours' },
+  'batch_state_paused': { en: 'Paused', fr: 'En pause' },
+  'batch_state_finished': { en: 'Finished', fr: 'Terminé' },
+  'batch_state_cancelled': { en: 'Cancelled', fr: 'Annulé' },
+  'batch_generated': { en: 'generated', fr: 'générés' },
+  'batch_skipped': { en: 'skipped', fr: 'ignorés' },
+  'batch_failed': { en: 'failed', fr: 'échoués' },
+  'select_page': { en: 'Select all on this page', fr: 'Tout sélectionner sur cette page' },
+
+  // Prompt Templates
+  'templates': { en: 'Templates', fr: 'Modèles' },
+  'prompt_templates': { en: 'Prompt Templates', fr: 'Modèles de Prompt' },
+  'prompt_templates_desc': { en: 'Choose the prompt and output sections used for company memos and investor analyses.', fr: 'Choisissez le prompt et les sections de sortie des mémos d\'entreprise et des analyses d\'investisseurs.' },
+  'template_kind_company': { en: 'Company Memo', fr: 'Mémo Entreprise' },
+  'template_kind_investor': { en: 'Investor Analysis', fr: 'Analyse Investisseur' },
+  'use_template': { en: 'Use this template', fr: 'Utiliser ce modèle' },
+  'active_template_hint': { en: 'The selected radio is the template used for new memos.', fr: 'Le bouton radio coché indique le modèle utilisé pour les nouveaux mémos.' },
+  'built_in': { en: 'Built-in', fr: 'Intégré' },
+  'template_built_in_hint': { en: 'Built-in templates are read-only. Duplicate one to customise it.', fr: 'Les modèles intégrés sont en lecture seule. Dupliquez-en un pour le personnaliser.' },
+  'new_template': { en: 'New', fr: 'Nouveau' },
+  'untitled_template': { en: 'Untitled template', fr: 'Modèle sans titre' },
+  'duplicate_template': { en: 'Duplicate', fr: 'Dupliquer' },
+  'copy_suffix': { en: 'copy', fr: 'copie' },
+  'template_name': { en: 'Name', fr: 'Nom' },
+  'template_prompt': { en: 'Prompt', fr: 'Prompt' },
+  'template_variables_hint': { en: 'Click a variable to insert it at the cursor. The output fields are appended to the prompt automatically.', fr: 'Cliquez sur une variable pour l\'insérer au curseur. Les champs de sortie sont ajoutés au prompt automatiquement.' },
+  'template_unknown_variables': { en: 'Unknown variables, sent as written', fr: 'Variables inconnues, envoyées telles quelles' },
+  'template_fields': { en: 'Output Fields', fr: 'Champs de Sortie' },
+  'template_fields_hint': { en: 'Each field becomes a section of the memo. The description tells the model what to write.', fr: 'Chaque champ devient une section du mémo. La description indique au modèle quoi écrire.' },
+  'template_needs_fields': { en: 'Add at least one output field.', fr: 'Ajoutez au moins un champ de sortie.' },
+  'new_field': { en: 'New Section', fr: 'Nouvelle Section' },
+  'field_label': { en: 'Section title', fr: 'Titre de la section' },
+  'field_description': { en: 'What the model should write', fr: 'Ce que le modèle doit écrire' },
+  'add_field': { en: 'Add Field', fr: 'Ajouter un Champ' },
+  'remove_field': { en: 'Remove field', fr: 'Supprimer le champ' },
+  'save_template': { en: 'Save', fr: 'Enregistrer' },
+  'import_templates': { en: 'Import templates (JSON)', fr: 'Importer des modèles (JSON)' },
+  'import_templates_failed': { en: 'Could not import templates', fr: 'Impossible d\'importer les modèles' },
+  'export_templates': { en: 'Export your templates (JSON)', fr: 'Exporter vos modèles (JSON)' },
+  'regenerate_with_template': { en: 'Regenerate with Active Template', fr: 'Régénérer avec le Modèle Actif' },
+
+  // Dataset Q&A
+  'ask': { en: 'Ask', fr: 'Questions' },
+  'ask_dataset': { en: 'Ask the Dataset', fr: 'Interroger les Données' },
+  'ask_dataset_desc': { en: 'The model looks up companies, investors and trends with local queries, then answers and links to the matching rows.', fr: 'Le modèle interroge localement les entreprises, investisseurs et tendances, puis répond avec des liens vers les lignes correspondantes.' },
+  'chat_placeholder': { en: 'e.g. Which Series A climate companies in Ontario have a funding score above 70?', fr: 'ex. Quelles entreprises climat en Série A en Ontario ont un score de financement supérieur à 70 ?' },
+  'chat_send': { en: 'Ask', fr: 'Envoyer' },
+  'chat_thinking': { en: 'Querying the dataset…', fr: 'Interrogation des données…' },
+  'chat_example_filter': { en: 'Which Series A companies have a funding score above 70?', fr: 'Quelles entreprises en Série A ont un score de financement supérieur à 70 ?' },
+  'chat_example_investor': { en: 'Which investors led the most deals, and in which themes?', fr: 'Quels investisseurs ont mené le plus de tours, et dans quels thèmes ?' },
+  'chat_example_trend': { en: 'Which theme is growing fastest among recently founded companies?', fr: 'Quel thème progresse le plus parmi les entreprises récemment fondées ?' },
+  'clear_conversation': { en: 'Clear conversation', fr: 'Effacer la conversation' },
+  'show_matches_in_list': { en: 'Show matches in the list', fr: 'Afficher dans la liste' },
+  'focused_rows': { en: 'Showing rows from a chat answer', fr: 'Lignes issues d\'une réponse' },
+  'show_all_rows': { en: 'Show all', fr: 'Tout afficher' },
+
+  // Column Mapping
+  'column_mapping': { en: 'Map Your Columns', fr: 'Associez Vos Colonnes' },
+  'column_mapping_desc': { en: 'Match each column in your export to a Capital Compass field. Suggestions are pre-filled.', fr: 'Associez chaque colonne de votre export à un champ Capital Compass. Des suggestions sont pré-remplies.' },
+  'apply_profile': { en: 'Apply saved profile...', fr: 'Appliquer un profil...' },
+  'auto_suggest': { en: 'Auto-suggest', fr: 'Suggestion automatique' },
+  'profile_name': { en: 'Profile name', fr: 'Nom du profil' },
+  'save_profile': { en: 'Save Profile', fr: 'Enregistrer le Profil' },
+  'map_required': { en: 'Map a column to', fr: 'Associez une colonne à' },
+  'source_column': { en: 'Source Column', fr: 'Colonne Source' },
+  'sample_value': { en: 'Sample', fr: 'Exemple' },
+  'maps_to': { en: 'Maps To', fr: 'Correspond à' },
+  'keep_as_is': { en: '— Keep as-is —', fr: '— Conserver tel quel —' },
+  'review_import': { en: 'Review Import', fr: 'Vérifier l\'Importation' },
+
+  // Import Report
+  'import_summary': { en: 'Import Summary', fr: 'Résumé de l\'Importation' },
+  'import_summary_desc': { en: 'Review what was read from each file before building the dashboard.', fr: 'Vérifiez ce qui a été lu dans chaque fichier avant de générer le tableau de bord.' },
+  'delimited': { en: 'delimited', fr: 'comme séparateur' },
+  'rows_read': { en: 'Rows read', fr: 'Lignes lues' },
+  'rows_accepted': { en: 'Rows accepted', fr: 'Lignes acceptées' },
+  'rows_rejected': { en: 'Rows rejected', fr: 'Lignes rejetées' },
+  'rejected_rows': { en: 'Rejected rows', fr: 'Lignes rejetées' },
+  'row_warnings': { en: 'Warnings', fr: 'Avertissements' },
+  'missing_required': { en: 'Missing required columns', fr: 'Colonnes obligatoires manquantes' },
+  'unrecognised_columns': { en: 'Unrecognised columns', fr: 'Colonnes non reconnues' },
+  'missing_optional': { en: 'Missing optional columns', fr: 'Colonnes facultatives manquantes' },
+  'continue_dashboard': { en: 'Continue to Dashboard', fr: 'Continuer vers le Tableau de Bord' },
+  'none': { en: 'None', fr: 'Aucune' },
+  'more_items': { en: 'more', fr: 'de plus' },
 
   // Stats
   'total_companies': { en: 'Total Companies', fr: 'Total des Entreprises' },
@@ -29,8 +295,20 @@ const translations: Record<string, { en: string; fr: string }> = {
   'comprehensive_score': { en: 'Comprehensive Score (0-100)', fr: 'Score Global (0-100)' },
   'high_potential': { en: 'High Potential', fr: 'Haut Potentiel' },
   'potential_desc': { en: 'Companies with Potential > 80', fr: 'Entreprises avec Potentiel > 80' },
-  'ai_saturation': { en: 'AI / ML Saturation', fr: 'Saturation IA / ML' },
-  'companies_leveraging': { en: 'Companies leveraging AI', fr: 'Entreprises utilisant l\'IA' },
+  'leading_theme': { en: 'Leading Theme', fr: 'Thème Dominant' },
+  'companies_in_theme': { en: 'Companies tagged', fr: 'Entreprises classées' },
+
+  // Scoring Model
+  'scoring_model': { en: 'Scoring Model', fr: 'Modèle de Notation' },
+  'scoring_model_desc': { en: 'Adjust the weights behind each score. Rankings update live.', fr: 'Ajustez les pondérations de chaque score. Le classement se met à jour en direct.' },
+  'custom_weights': { en: 'Custom', fr: 'Personnalisé' },
+  'preset_name': { en: 'Preset name', fr: 'Nom du préréglage' },
+  'save_preset': { en: 'Save Preset', fr: 'Enregistrer' },
+  'delete_preset': { en: 'Delete preset', fr: 'Supprimer le préréglage' },
+  'reset_weights': { en: 'Reset to default weights', fr: 'Rétablir les pondérations par défaut' },
+  'normalisation': { en: 'Normalisation', fr: 'Normalisation' },
+  'normalisation_desc': { en: 'How each raw input is scaled to 0-1 before weighting. Log and percentile damp outliers.', fr: 'Mise à l\'échelle 0-1 de chaque donnée brute avant pondération. Log et percentile atténuent les valeurs extrêmes.' },
+  'scored_with': { en: 'Scored with', fr: 'Noté avec' },
 
   // Charts & Maps
   'score_distribution': { en: 'Score Distribution', fr: 'Distribution des Scores' },
@@ -78,6 +356,14 @@ const translations: Record<string, { en: string; fr: string }> = {
   'latest_headlines': { en: 'Latest Headlines', fr: 'Derniers Titres' },
   'market_sentiment': { en: 'Market Sentiment', fr: 'Sentiment du Marché' },
   'key_voices': { en: 'Key Voices', fr: 'Voix Clés' },
+
+  // Score Breakdown
+  'score_breakdown': { en: 'Score Breakdown', fr: 'Détail du Score' },
+  'breakdown_input': { en: 'Input', fr: 'Critère' },
+  'breakdown_value': { en: 'Value', fr: 'Valeur' },
+  'breakdown_norm': { en: 'Norm.', fr: 'Norm.' },
+  'breakdown_weight': { en: 'Weight', fr: 'Poids' },
+  'breakdown_points': { en: 'Pts', fr: 'Pts' },
 };
 
 const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
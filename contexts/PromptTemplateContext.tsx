@@ -0,0 +1,66 @@
+import React, { createContext, useContext, useState, useMemo, ReactNode } from 'react';
+import { PromptTemplate, PromptTemplateKind } from '../types';
+import { BUILT_IN_TEMPLATES, DEFAULT_ACTIVE_TEMPLATES, loadCustomTemplates, saveCustomTemplates, loadActiveTemplates, saveActiveTemplates } from '../services/promptTemplates';
+
+interface PromptTemplateContextType {
+  templates: PromptTemplate[]; // Built-in first, then the user's own
+  saveTemplate: (template: PromptTemplate) => void; // Adds or replaces by id; built-ins can't be changed
+  deleteTemplate: (id: string) => void;
+  importTemplates: (templates: PromptTemplate[]) => void;
+  activeIds: Record<PromptTemplateKind, string>;
+  setActiveTemplate: (kind: PromptTemplateKind, id: string) => void;
+  getActiveTemplate: (kind: PromptTemplateKind) => PromptTemplate;
+}
+
+const PromptTemplateContext = createContext<PromptTemplateContextType | undefined>(undefined);
+
+export const PromptTemplateProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [customTemplates, setCustomTemplatesState] = useState<PromptTemplate[]>(() => loadCustomTemplates());
+  const [activeIds, setActiveIdsState] = useState<Record<PromptTemplateKind, string>>(() => loadActiveTemplates());
+
+  const setCustomTemplates = (next: PromptTemplate[]) => {
+    setCustomTemplatesState(next);
+    saveCustomTemplates(next);
+  };
+
+  const setActiveIds = (next: Record<PromptTemplateKind, string>) => {
+    setActiveIdsState(next);
+    saveActiveTemplates(next);
+  };
+
+  const templates = useMemo(() => [...BUILT_IN_TEMPLATES, ...customTemplates], [customTemplates]);
+
+  const saveTemplate = (template: PromptTemplate) => {
+    if (template.builtIn) return;
+    const exists = customTemplates.some(t => t.id === template.id);
+    setCustomTemplates(exists ? customTemplates.map(t => (t.id === template.id ? template : t)) : [...customTemplates, template]);
+  };
+
+  const deleteTemplate = (id: string) => {
+    setCustomTemplates(customTemplates.filter(t => t.id !== id));
+    // Fall back to the built-in template if the active one goes
+    const kind = (Object.keys(activeIds) as PromptTemplateKind[]).find(k => activeIds[k] === id);
+    if (kind) setActiveIds({ ...activeIds, [kind]: DEFAULT_ACTIVE_TEMPLATES[kind] });
+  };
+
+  const importTemplates = (imported: PromptTemplate[]) => setCustomTemplates([...customTemplates, ...imported]);
+
+  const setActiveTemplate = (kind: PromptTemplateKind, id: string) => setActiveIds({ ...activeIds, [kind]: id });
+
+  const getActiveTemplate = (kind: PromptTemplateKind) =>
+    templates.find(t => t.id === activeIds[kind] && t.kind === kind) || templates.find(t => t.id === DEFAULT_ACTIVE_TEMPLATES[kind])!;
+
+  return (
+    <PromptTemplateContext.Provider value={{ templates, saveTemplate, deleteTemplate, importTemplates, activeIds, setActiveTemplate, getActiveTemplate }}>
+      {children}
+    </PromptTemplateContext.Provider>
+  );
+};
+
+export const usePromptTemplates = () => {
+  const context = useContext(PromptTemplateContext);
+  if (context === undefined) {
+    throw new Error('usePromptTemplates must be used within a PromptTemplateProvider');
+  }
+  return context;
+};
@@ -0,0 +1,47 @@
+import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
+import { ThemeDefinition, ThemeConfidence } from '../types';
+import { DEFAULT_THEMES, loadThemes, saveThemes, loadThemeConfidence, saveThemeConfidence } from '../services/themeTaxonomy';
+
+interface ThemeContextType {
+  themes: ThemeDefinition[];
+  setThemes: (themes: ThemeDefinition[]) => void;
+  resetThemes: () => void;
+  minConfidence: ThemeConfidence; // 'strong' hides weak matches everywhere
+  setMinConfidence: (confidence: ThemeConfidence) => void;
+  getTheme: (id: string) => ThemeDefinition | undefined;
+}
+
+const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
+
+export const ThemeProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [themes, setThemesState] = useState<ThemeDefinition[]>(() => loadThemes());
+  const [minConfidence, setMinConfidenceState] = useState<ThemeConfidence>(() => loadThemeConfidence());
+
+  const setThemes = (next: ThemeDefinition[]) => {
+    setThemesState(next);
+    saveThemes(next);
+  };
+
+  const resetThemes = () => setThemes(DEFAULT_THEMES);
+
+  const setMinConfidence = (next: ThemeConfidence) => {
+    setMinConfidenceState(next);
+    saveThemeConfidence(next);
+  };
+
+  const getTheme = useCallback((id: string) => themes.find(t => t.id === id), [themes]);
+
+  return (
+    <ThemeContext.Provider value={{ themes, setThemes, resetThemes, minConfidence, setMinConfidence, getTheme }}>
+      {children}
+    </ThemeContext.Provider>
+  );
+};
+
+export const useThemes = () => {
+  const context = useContext(ThemeContext);
+  if (context === undefined) {
+    throw new Error('useThemes must be used within a ThemeProvider');
+  }
+  return context;
+};
@@ -2,6 +2,12 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import { LanguageProvider } from './contexts/LanguageContext';
+import { CurrencyProvider } from './contexts/CurrencyContext';
+import { AIResultsProvider } from './contexts/AIResultsContext';
+import { ThemeProvider } from './contexts/ThemeContext';
+import { InvestorAliasProvider } from './contexts/InvestorAliasContext';
+import { AIProviderProvider } from './contexts/AIProviderContext';
+import { PromptTemplateProvider } from './contexts/PromptTemplateContext';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -12,7 +18,19 @@ const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
     <LanguageProvider>
-      <App />
+      <CurrencyProvider>
+        <ThemeProvider>
+          <InvestorAliasProvider>
+            <AIProviderProvider>
+              <PromptTemplateProvider>
+                <AIResultsProvider>
+                  <App />
+                </AIResultsProvider>
+              </PromptTemplateProvider>
+            </AIProviderProvider>
+          </InvestorAliasProvider>
+        </ThemeProvider>
+      </CurrencyProvider>
     </LanguageProvider>
   </React.StrictMode>
 );
@@ -0,0 +1,426 @@
+import { GoogleGenAI, Type, Content } from "@google/genai";
+import { AIProviderKind, AIProviderSettings, AIOutputField, AIErrorKind, LiveIntelResult, GroundingSource, ChatMessage, ChatToolCall } from '../types';
+
+const PROVIDER_STORAGE_KEY = 'capital-compass.aiProvider';
+
+// Pause before mock responses resolve, so loading states still show up in demos
+const MOCK_LATENCY_MS = 400;
+
+export const AI_PROVIDER_KINDS: AIProviderKind[] = ['gemini', 'openai', 'mock'];
+
+// Without a Gemini key the app starts on the mock provider, so it can be demoed offline
+export const DEFAULT_AI_PROVIDER: AIProviderSettings = {
+  kind: process.env.API_KEY ? 'gemini' : 'mock',
+  geminiModel: 'gemini-2.5-flash',
+  openaiBaseUrl: 'http://localhost:11434/v1',
+  openaiModel: 'llama3.1',
+  openaiApiKey: '',
+  requestsPerMinute: 10, // Gemini's free tier allows 10 a minute on Flash
+  maxConcurrentRequests: 2
+};
+
+export const hasGeminiKey = () => Boolean(process.env.API_KEY);
+
+export interface StructuredRequest {
+  subject: string; // Company or investor the prompt is about
+  prompt: string;
+  fields: AIOutputField[]; // Every field is required in the response
+}
+
+export interface GroundedSearchRequest {
+  subject: string;
+  prompt: string;
+  sections: string[]; // Markdown headers the prompt asks for, in order
+}
+
+// A function the model may call; the caller runs it and sends the result back
+export interface AIToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON Schema for the arguments object
+}
+
+export interface ChatRequest {
+  system: string;
+  messages: ChatMessage[];
+  tools: AIToolDefinition[]; // Empty to force a plain answer
+}
+
+// Either an answer, or tool calls to run before asking again
+export interface ChatReply {
+  text: string;
+  toolCalls: ChatToolCall[];
+}
+
+/**
+ * A model backend. Prompts are written by the caller; a provider only sends
+ * them and checks the response has the requested shape.
+ */
+export interface AIProvider {
+  kind: AIProviderKind;
+  model: string;
+  generateStructured: (request: StructuredRequest) => Promise<Record<string, string>>;
+  groundedSearch: (request: GroundedSearchRequest) => Promise<LiveIntelResult>;
+  chat: (request: ChatRequest) => Promise<ChatReply>;
+}
+
+export class AIRequestError extends Error {
+  kind: AIErrorKind;
+  status?: number;
+  retryAfterMs?: number; // From a Retry-After header, when the server sent one
+
+  constructor(kind: AIErrorKind, message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'AIRequestError';
+    this.kind = kind;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  // Rate limits, server errors and dropped connections usually clear up on their own
+  get retryable() {
+    return this.kind === 'rate_limited' || this.kind === 'server' || this.kind === 'network';
+  }
+}
+
+const kindForStatus = (status: number): AIErrorKind => {
+  if (status === 429) return 'rate_limited';
+  if (status === 401 || status === 403) return 'auth';
+  if (status >= 500) return 'server';
+  return 'request';
+};
+
+/**
+ * Normalises whatever a provider threw. The Gemini SDK's ApiError carries an
+ * HTTP status, fetch rejects with a TypeError when the server can't be reached,
+ * and an unparseable reply surfaces as a SyntaxError.
+ */
+export const toAIRequestError = (error: unknown): AIRequestError => {
+  if (error instanceof AIRequestError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : undefined;
+  if (status) return new AIRequestError(kindForStatus(status), message, status);
+  if (error instanceof TypeError) return new AIRequestError('network', message);
+  if (error instanceof SyntaxError) return new AIRequestError('bad_response', message);
+  return new AIRequestError('request', message);
+};
+
+// Helper: Reads a JSON object off a model reply (local models like to wrap it in a code fence) and checks every field is there
+const parseFields = (text: string, fields: AIOutputField[]): Record<string, string> => {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new AIRequestError('bad_response', "Response is not valid JSON");
+  }
+  return Object.fromEntries(fields.map(({ key }) => {
+    const value = parsed?.[key];
+    if (value === undefined || value === null) throw new AIRequestError('bad_response', `Response is missing "${key}"`);
+    return [key, typeof value === 'string' ? value : JSON.stringify(value)];
+  }));
+};
+
+// Helper: Tool arguments arrive as a JSON string over HTTP
+const parseToolArguments = (text: string | undefined): Record<string, unknown> => {
+  try {
+    const parsed = JSON.parse(text || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    throw new AIRequestError('bad_response', "Tool call arguments are not valid JSON");
+  }
+};
+
+// Gemini wants a tool's results in a user turn, one part per call
+const toGeminiContents = (messages: ChatMessage[]): Content[] => {
+  const contents: Content[] = [];
+  messages.forEach(message => {
+    if (message.role === 'user') {
+      contents.push({ role: 'user', parts: [{ text: message.text }] });
+    } else if (message.role === 'assistant') {
+      contents.push({
+        role: 'model',
+        parts: [
+          ...(message.text ? [{ text: message.text }] : []),
+          ...(message.toolCalls || []).map(call => ({ functionCall: { id: call.id, name: call.name, args: call.args } }))
+        ]
+      });
+    } else {
+      const part = { functionResponse: { id: message.callId, name: message.name, response: { output: message.content } } };
+      const previous = contents[contents.length - 1];
+      if (previous?.role === 'user' && previous.parts?.every(p => p.functionResponse)) previous.parts.push(part);
+      else contents.push({ role: 'user', parts: [part] });
+    }
+  });
+  return contents;
+};
+
+const createGeminiProvider = (model: string): AIProvider => {
+  const getAIClient = () => {
+    if (!process.env.API_KEY) {
+      throw new AIRequestError('config', "API Key not found");
+    }
+    return new GoogleGenAI({ apiKey: process.env.API_KEY });
+  };
+
+  return {
+    kind: 'gemini',
+    model,
+    generateStructured: async ({ prompt, fields }) => {
+      const response = await getAIClient().models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: Object.fromEntries(fields.map(f => [f.key, { type: Type.STRING, description: f.description }])),
+            required: fields.map(f => f.key)
+          }
+        }
+      });
+      if (!response.text) throw new AIRequestError('bad_response', "Empty response from AI");
+      return parseFields(response.text, fields);
+    },
+    groundedSearch: async ({ prompt }) => {
+      const response = await getAIClient().models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          tools: [{ googleSearch: {} }],
+          // Note: responseMimeType is NOT allowed with googleSearch
+        }
+      });
+
+      // Extract grounding chunks for sources
+      const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+      const sources: GroundingSource[] = groundingChunks
+        .map(chunk => ({
+          title: chunk.web?.title || "Source",
+          uri: chunk.web?.uri || ""
+        }))
+        .filter(s => s.uri !== "");
+
+      // Deduplicate sources
+      const uniqueSources = Array.from(new Map(sources.map(s => [s.uri, s])).values());
+
+      return {
+        markdown: response.text || "No information found.",
+        sources: uniqueSources
+      };
+    },
+    chat: async ({ system, messages, tools }) => {
+      const response = await getAIClient().models.generateContent({
+        model,
+        contents: toGeminiContents(messages),
+        config: {
+          systemInstruction: system,
+          ...(tools.length > 0 ? {
+            tools: [{ functionDeclarations: tools.map(t => ({ name: t.name, description: t.description, parametersJsonSchema: t.parameters })) }]
+          } : {})
+        }
+      });
+      // Read the text parts directly; response.text warns when a reply also holds function calls
+      const parts = response.candidates?.[0]?.content?.parts || [];
+      return {
+        text: parts.filter(p => p.text && !p.thought).map(p => p.text).join(''),
+        toolCalls: (response.functionCalls || []).map((call, i) => ({ id: call.id || `call-${i}`, name: call.name || '', args: call.args || {} }))
+      };
+    }
+  };
+};
+
+/**
+ * Chat Completions over HTTP, for Ollama, LM Studio, llama.cpp, vLLM or
+ * OpenAI itself. These servers have no search tool, so "grounded" search is
+ * answered from the model's own knowledge and comes back without sources.
+ */
+const createOpenAICompatibleProvider = (baseUrl: string, model: string, apiKey: string): AIProvider => {
+  // Returns the first choice's message
+  const send = async (payload: object) => {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({ model, ...payload })
+    });
+    if (!response.ok) {
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      throw new AIRequestError(
+        kindForStatus(response.status),
+        `${response.status} ${response.statusText}: ${await response.text()}`,
+        response.status,
+        retryAfter > 0 ? retryAfter * 1000 : undefined
+      );
+    }
+    const body = await response.json();
+    const message = body.choices?.[0]?.message;
+    if (!message) throw new AIRequestError('bad_response', "Empty response from AI");
+    return message as { content?: string | null; tool_calls?: { id: string; function: { name: string; arguments?: string } }[] };
+  };
+
+  const complete = async (messages: { role: 'system' | 'user'; content: string }[], responseFormat?: object) => {
+    const { content } = await send({ messages, ...(responseFormat ? { response_format: responseFormat } : {}) });
+    if (!content) throw new AIRequestError('bad_response', "Empty response from AI");
+    return content;
+  };
+
+  return {
+    kind: 'openai',
+    model,
+    generateStructured: async ({ prompt, fields }) => {
+      const text = await complete([{ role: 'user', content: prompt }], {
+        type: 'json_schema',
+        json_schema: {
+          name: 'analysis',
+          strict: true,
+          schema: {
+            type: 'object',
+            properties: Object.fromEntries(fields.map(f => [f.key, { type: 'string', description: f.description }])),
+            required: fields.map(f => f.key),
+            additionalProperties: false
+          }
+        }
+      });
+      return parseFields(text, fields);
+    },
+    groundedSearch: async ({ prompt }) => {
+      const markdown = await complete([
+        { role: 'system', content: 'You cannot browse the web. Answer from what you already know and say when it may be out of date.' },
+        { role: 'user', content: prompt }
+      ]);
+      return { markdown, sources: [] };
+    },
+    chat: async ({ system, messages, tools }) => {
+      const reply = await send({
+        messages: [
+          { role: 'system', content: system },
+          ...messages.map(message => {
+            if (message.role === 'user') return { role: 'user', content: message.text };
+            if (message.role === 'tool') return { role: 'tool', tool_call_id: message.callId, content: message.content };
+            return {
+              role: 'assistant',
+              content: message.text || null,
+              ...(message.toolCalls?.length ? {
+                tool_calls: message.toolCalls.map(call => ({ id: call.id, type: 'function', function: { name: call.name, arguments: JSON.stringify(call.args) } }))
+              } : {})
+            };
+          })
+        ],
+        // Some servers reject an empty tool list
+        ...(tools.length > 0 ? {
+          tools: tools.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: t.parameters } }))
+        } : {})
+      });
+      return {
+        text: reply.content || '',
+        toolCalls: (reply.tool_calls || []).map((call, i) => ({ id: call.id || `call-${i}`, name: call.function.name, args: parseToolArguments(call.function.arguments) }))
+      };
+    }
+  };
+};
+
+// Helper: FNV-1a, so the same subject always gets the same fixture
+const hashString = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const MOCK_OPENINGS = [
+  'shows a steady pattern worth a closer look',
+  'reads as an early but credible story',
+  'looks promising on paper, with open questions on execution',
+  'sits in a crowded space where focus will matter',
+  'has the profile of a solid, if unspectacular, opportunity'
+];
+
+const MOCK_FOLLOW_UPS = [
+  'A call with the team would settle the open points.',
+  'The dataset alone is not enough to be confident either way.',
+  'Recent rounds suggest investors share this view.',
+  'Comparable companies in the list are worth benchmarking against.',
+  'This would benefit from customer references.'
+];
+
+const MOCK_HEADLINES = [
+  'announces a new partnership',
+  'expands its team',
+  'is featured in an industry roundup',
+  'launches a product update',
+  'speaks at a sector conference'
+];
+
+// Helper: Picks one entry per (subject, slot) so fixtures vary across fields but never between runs
+const pick = (options: string[], subject: string, slot: string) => options[hashString(`${subject}\u0000${slot}`) % options.length];
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Offline provider for demos and development. Responses are fixtures built
+ * from the subject's name and the requested fields, so they always match the
+ * schema and are identical every time. In a chat it calls the first tool once
+ * with no arguments, then answers, so the tool loop can be exercised offline.
+ */
+const createMockProvider = (): AIProvider => ({
+  kind: 'mock',
+  model: 'mock',
+  generateStructured: async ({ subject, fields }) => {
+    await delay(MOCK_LATENCY_MS);
+    return Object.fromEntries(fields.map(({ key }) => [
+      key,
+      `[Mock] ${subject} ${pick(MOCK_OPENINGS, subject, key)}. ${pick(MOCK_FOLLOW_UPS, subject, `${key}:follow-up`)}`
+    ]));
+  },
+  groundedSearch: async ({ subject, sections }) => {
+    await delay(MOCK_LATENCY_MS);
+    const markdown = sections.map(section => [
+      `## ${section}`,
+      ...[0, 1, 2].map(i => `- [Mock] ${subject} ${pick(MOCK_HEADLINES, subject, `${section}:${i}`)}.`)
+    ].join('\n')).join('\n\n');
+    return {
+      markdown,
+      sources: [{ title: `Web search: ${subject}`, uri: `https://www.google.com/search?q=${encodeURIComponent(subject)}` }]
+    };
+  },
+  chat: async ({ messages, tools }) => {
+    await delay(MOCK_LATENCY_MS);
+    const last = messages[messages.length - 1];
+    if (last?.role === 'user' && tools.length > 0) {
+      return { text: '', toolCalls: [{ id: 'mock-call', name: tools[0].name, args: {} }] };
+    }
+    const question = [...messages].reverse().find(m => m.role === 'user');
+    const tool = last?.role === 'tool' ? ` from ${last.name}` : '';
+    return {
+      text: `[Mock] This is a fixture answer${tool} to "${question?.role === 'user' ? question.text : ''}". A configured model would filter the data to fit the question; the rows the tool returned are linked below.`,
+      toolCalls: []
+    };
+  }
+});
+
+export const createAIProvider = (settings: AIProviderSettings): AIProvider => {
+  switch (settings.kind) {
+    case 'openai': return createOpenAICompatibleProvider(settings.openaiBaseUrl, settings.openaiModel, settings.openaiApiKey);
+    case 'mock': return createMockProvider();
+    default: return createGeminiProvider(settings.geminiModel);
+  }
+};
+
+export const loadAIProviderSettings = (): AIProviderSettings => {
+  try {
+    const raw = localStorage.getItem(PROVIDER_STORAGE_KEY);
+    return raw ? { ...DEFAULT_AI_PROVIDER, ...JSON.parse(raw) } : DEFAULT_AI_PROVIDER;
+  } catch (error) {
+    console.error("Failed to load AI provider settings:", error);
+    return DEFAULT_AI_PROVIDER;
+  }
+};
+
+export const saveAIProviderSettings = (settings: AIProviderSettings) => {
+  localStorage.setItem(PROVIDER_STORAGE_KEY, JSON.stringify(settings));
+};
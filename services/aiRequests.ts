@@ -0,0 +1,184 @@
+import { AIProviderSettings, LiveIntelResult } from '../types';
+import { AIProvider, AIRequestError, toAIRequestError } from './aiProviders';
+
+const CACHE_STORAGE_KEY = 'capital-compass.aiCache';
+const MAX_CACHE_ENTRIES = 100;
+// Memos only depend on the prompt, but "live" intelligence goes stale
+const SEARCH_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+const MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+const MAX_JITTER_MS = 250;
+const RATE_WINDOW_MS = 60000;
+
+interface CacheEntry {
+  value: Record<string, string> | LiveIntelResult;
+  storedAt: number;
+  expiresAt: number | null;
+}
+
+type RequestLimits = Pick<AIProviderSettings, 'requestsPerMinute' | 'maxConcurrentRequests'>;
+type RequestSettings = RequestLimits & Pick<AIProviderSettings, 'openaiBaseUrl'>;
+
+// Helper: cyrb53, a fast 53-bit string hash; plenty to keep a hundred cache keys apart
+const contentHash = (text: string) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+const loadCache = (): Map<string, CacheEntry> => {
+  try {
+    const raw = localStorage.getItem(CACHE_STORAGE_KEY);
+    return new Map(raw ? JSON.parse(raw) : []);
+  } catch (error) {
+    console.error("Failed to load AI response cache:", error);
+    return new Map();
+  }
+};
+
+// Shared by every provider instance, so switching settings back and forth keeps earlier answers
+let cache: Map<string, CacheEntry> | null = null;
+
+const readCache = (key: string) => {
+  cache = cache || loadCache();
+  const entry = cache.get(key);
+  if (!entry) return undefined;
+  if (entry.expiresAt !== null && entry.expiresAt < Date.now()) {
+    cache.delete(key);
+    return undefined;
+  }
+  return entry.value;
+};
+
+const writeCache = (key: string, value: CacheEntry['value'], ttlMs: number | null) => {
+  cache = cache || loadCache();
+  const now = Date.now();
+  cache.delete(key);
+  cache.set(key, { value, storedAt: now, expiresAt: ttlMs === null ? null : now + ttlMs });
+  // Maps keep insertion order, so the oldest entries are evicted first
+  while (cache.size > MAX_CACHE_ENTRIES) cache.delete(cache.keys().next().value!);
+  try {
+    localStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify([...cache.entries()]));
+  } catch (error) {
+    // A full storage quota only costs us persistence; the in-memory copy still works
+    console.error("Failed to persist AI response cache:", error);
+  }
+};
+
+export const clearAIResponseCache = () => {
+  cache = new Map();
+  localStorage.removeItem(CACHE_STORAGE_KEY);
+};
+
+// Requests in flight and starts in the last minute, shared across every caller
+let activeRequests = 0;
+const recentStarts: number[] = [];
+const waiting: { limits: RequestLimits; start: () => void }[] = [];
+let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Starts queued requests in order while both limits allow. When the per-minute
+ * budget is spent, a timer wakes the queue as the oldest start leaves the
+ * window; when all slots are busy, the next release drains it instead.
+ */
+const drainQueue = () => {
+  wakeTimer = null;
+  while (waiting.length > 0) {
+    const now = Date.now();
+    while (recentStarts.length > 0 && now - recentStarts[0] >= RATE_WINDOW_MS) recentStarts.shift();
+    const { limits, start } = waiting[0];
+    if (activeRequests >= Math.max(1, limits.maxConcurrentRequests)) return;
+    if (recentStarts.length >= Math.max(1, limits.requestsPerMinute)) {
+      if (!wakeTimer) wakeTimer = setTimeout(drainQueue, recentStarts[0] + RATE_WINDOW_MS - now);
+      return;
+    }
+    waiting.shift();
+    activeRequests++;
+    recentStarts.push(now);
+    start();
+  }
+};
+
+const withSlot = async <T>(limits: RequestLimits, run: () => Promise<T>): Promise<T> => {
+  await new Promise<void>(start => {
+    waiting.push({ limits, start });
+    drainQueue();
+  });
+  try {
+    return await run();
+  } finally {
+    activeRequests--;
+    drainQueue();
+  }
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Exponential backoff with jitter, but never sooner than the server asked for
+const backoffDelay = (attempt: number, error: AIRequestError) =>
+  Math.max(error.retryAfterMs || 0, Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt)) + Math.random() * MAX_JITTER_MS;
+
+/**
+ * Wraps a provider with a response cache, retries and rate limiting. Identical
+ * requests (same provider, server, model, prompt and schema) are answered from
+ * the cache or joined to the one already in flight. Rate limits, server errors
+ * and network failures are retried with exponential backoff; a server asking
+ * for a longer wait than the backoff cap fails the request as rate_limited
+ * instead of leaving the caller waiting. Every failure reaches the caller as an
+ * AIRequestError. The mock provider skips the rate limits.
+ * Chat turns are retried and rate-limited but never cached, since each one
+ * depends on the whole conversation so far.
+ */
+export const withRequestLayer = (provider: AIProvider, settings: RequestSettings): AIProvider => {
+  const inFlight = new Map<string, Promise<unknown>>();
+  // OpenAI-compatible servers can serve different weights under the same model name
+  const endpoint = provider.kind === 'openai' ? [provider.kind, provider.model, settings.openaiBaseUrl] : [provider.kind, provider.model];
+
+  const attempt = async <T>(send: () => Promise<T>): Promise<T> => {
+    for (let retry = 0; ; retry++) {
+      try {
+        return provider.kind === 'mock' ? await send() : await withSlot(settings, send);
+      } catch (raw) {
+        const error = toAIRequestError(raw);
+        if (!error.retryable || retry >= MAX_RETRIES) throw error;
+        if ((error.retryAfterMs || 0) > MAX_BACKOFF_MS) {
+          throw new AIRequestError('rate_limited', `Server asked to retry in ${Math.ceil(error.retryAfterMs! / 1000)}s`, error.status, error.retryAfterMs);
+        }
+        await delay(backoffDelay(retry, error));
+      }
+    }
+  };
+
+  const request = <T extends CacheEntry['value']>(parts: unknown[], ttlMs: number | null, send: () => Promise<T>): Promise<T> => {
+    const key = contentHash(JSON.stringify([...endpoint, ...parts]));
+    const cached = readCache(key);
+    if (cached) return Promise.resolve(cached as T);
+    if (inFlight.has(key)) return inFlight.get(key) as Promise<T>;
+
+    const promise = attempt(send)
+      .then(value => {
+        writeCache(key, value, ttlMs);
+        return value;
+      })
+      .finally(() => inFlight.delete(key));
+    inFlight.set(key, promise);
+    return promise;
+  };
+
+  return {
+    kind: provider.kind,
+    model: provider.model,
+    generateStructured: (req) => request(['structured', req.prompt, req.fields], null, () => provider.generateStructured(req)),
+    groundedSearch: (req) => request(['search', req.prompt], SEARCH_CACHE_TTL_MS, () => provider.groundedSearch(req)),
+    chat: (req) => attempt(() => provider.chat(req))
+  };
+};
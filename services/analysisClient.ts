@@ -0,0 +1,76 @@
+import { RawCompanyData, CSVParseResult, ProcessedData, AnalysisProgress, ScoringModel, FXRates, ThemeDefinition, ThemeConfidence, FundingRound } from '../types';
+
+// processData options that can cross the worker boundary (no callbacks)
+export interface WorkerProcessOptions {
+  model?: ScoringModel;
+  fxRates?: FXRates;
+  themes?: ThemeDefinition[];
+  minThemeConfidence?: ThemeConfidence;
+  fundingRounds?: FundingRound[];
+  investorAliases?: Record<string, string>;
+}
+
+export type AnalysisWorkerRequest =
+  | { type: 'parse', files: File[] }
+  | { type: 'process', rows: RawCompanyData[], options: WorkerProcessOptions };
+
+export type AnalysisWorkerResponse =
+  | { type: 'progress', progress: AnalysisProgress }
+  | { type: 'result', result: CSVParseResult[] | ProcessedData }
+  | { type: 'error', message: string };
+
+export interface AnalysisTask<T> {
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+export class AnalysisCancelledError extends Error {
+  constructor() {
+    super("Analysis cancelled");
+    this.name = 'AnalysisCancelledError';
+  }
+}
+
+/**
+ * Runs one request in a fresh worker. Cancelling terminates the worker
+ * outright, so even a long synchronous scoring pass stops immediately.
+ */
+const runInWorker = <T>(request: AnalysisWorkerRequest, onProgress?: (progress: AnalysisProgress) => void): AnalysisTask<T> => {
+  const worker = new Worker(new URL('./analysisWorker.ts', import.meta.url), { type: 'module' });
+  let settle: { resolve: (value: T) => void, reject: (error: Error) => void } | null = null;
+
+  const promise = new Promise<T>((resolve, reject) => {
+    settle = { resolve, reject };
+  });
+
+  const finish = (fn: (s: NonNullable<typeof settle>) => void) => {
+    if (!settle) return;
+    fn(settle);
+    settle = null;
+    worker.terminate();
+  };
+
+  worker.onmessage = (event: MessageEvent<AnalysisWorkerResponse>) => {
+    const message = event.data;
+    if (message.type === 'progress') onProgress?.(message.progress);
+    else if (message.type === 'result') finish(s => s.resolve(message.result as T));
+    else finish(s => s.reject(new Error(message.message)));
+  };
+  worker.onerror = (event) => {
+    event.preventDefault();
+    finish(s => s.reject(new Error(event.message || "Analysis worker failed")));
+  };
+
+  worker.postMessage(request);
+
+  return {
+    promise,
+    cancel: () => finish(s => s.reject(new AnalysisCancelledError()))
+  };
+};
+
+export const parseFilesInWorker = (files: File[], onProgress?: (progress: AnalysisProgress) => void) =>
+  runInWorker<CSVParseResult[]>({ type: 'parse', files }, onProgress);
+
+export const processDataInWorker = (rows: RawCompanyData[], options: WorkerProcessOptions, onProgress?: (progress: AnalysisProgress) => void) =>
+  runInWorker<ProcessedData>({ type: 'process', rows, options }, onProgress);
@@ -0,0 +1,42 @@
+/// <reference lib="webworker" />
+import { CSVParseResult } from '../types';
+import { parseCSVFile } from './csvParser';
+import { processData } from './dataProcessing';
+import type { AnalysisWorkerRequest, AnalysisWorkerResponse } from './analysisClient';
+
+// Parsing and scoring run here so large exports don't block the UI thread
+
+const post = (message: AnalysisWorkerResponse) => self.postMessage(message);
+
+const parseFiles = async (files: File[]): Promise<CSVParseResult[]> => {
+  const totalBytes = files.reduce((acc, f) => acc + f.size, 0) || 1;
+  const results: CSVParseResult[] = [];
+  let doneBytes = 0;
+
+  for (const file of files) {
+    results.push(await parseCSVFile(file, {
+      onProgress: (bytesRead) => post({ type: 'progress', progress: { stage: 'parsing', fraction: (doneBytes + bytesRead) / totalBytes } })
+    }));
+    doneBytes += file.size;
+  }
+  return results;
+};
+
+self.onmessage = async (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === 'parse') {
+      post({ type: 'progress', progress: { stage: 'parsing', fraction: 0 } });
+      post({ type: 'result', result: await parseFiles(request.files) });
+    } else {
+      const result = processData(request.rows, {
+        ...request.options,
+        onProgress: (progress) => post({ type: 'progress', progress })
+      });
+      post({ type: 'result', result });
+    }
+  } catch (error) {
+    console.error("Analysis worker error:", error);
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
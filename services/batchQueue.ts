@@ -0,0 +1,69 @@
+import { BatchItem, BatchProgress, BatchRunState } from '../types';
+
+export interface BatchJob {
+  id: string;
+  label: string;
+  run: () => Promise<'done' | 'skipped'>; // 'skipped' when there was nothing left to do
+}
+
+export interface BatchQueue {
+  start: () => void;
+  pause: () => void; // Running jobs finish; no new ones start
+  resume: () => void;
+  cancel: () => void; // Queued jobs are dropped; running ones still finish
+}
+
+/**
+ * Runs jobs in order, at most `concurrency` at a time, and reports a fresh
+ * snapshot after every change. Throttling against the AI provider happens in
+ * the request layer; this only keeps the queue from flooding it.
+ */
+export const createBatchQueue = (jobs: BatchJob[], concurrency: number, onProgress: (progress: BatchProgress) => void): BatchQueue => {
+  const items: BatchItem[] = jobs.map(({ id, label }) => ({ id, label, status: 'queued' }));
+  let state: BatchRunState = 'running';
+  let next = 0;
+  let active = 0;
+
+  const emit = () => onProgress({ items: [...items], state });
+
+  const settle = (index: number, patch: Partial<BatchItem>) => {
+    items[index] = { ...items[index], ...patch };
+    active--;
+    if (next >= jobs.length && active === 0 && state !== 'cancelled') state = 'finished';
+    pump();
+  };
+
+  const pump = () => {
+    while (state === 'running' && active < Math.max(1, concurrency) && next < jobs.length) {
+      const index = next++;
+      active++;
+      items[index] = { ...items[index], status: 'running' };
+      jobs[index].run().then(
+        status => settle(index, { status }),
+        error => settle(index, { status: 'failed', error: error instanceof Error ? error.message : String(error) })
+      );
+    }
+    if (state === 'running' && next >= jobs.length && active === 0) state = 'finished';
+    emit();
+  };
+
+  return {
+    start: pump,
+    pause: () => {
+      if (state !== 'running') return;
+      state = 'paused';
+      emit();
+    },
+    resume: () => {
+      if (state !== 'paused') return;
+      state = 'running';
+      pump();
+    },
+    cancel: () => {
+      if (state === 'finished' || state === 'cancelled') return;
+      state = 'cancelled';
+      next = jobs.length;
+      emit();
+    }
+  };
+};
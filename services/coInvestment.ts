@@ -0,0 +1,210 @@
+import { CoInvestmentGraph, CoInvestmentEdge, CoInvestor } from '../types';
+
+// Label propagation normally settles in a handful of sweeps; this only bounds oscillating ties
+const MAX_PROPAGATION_SWEEPS = 20;
+const LAYOUT_ITERATIONS = 250;
+const LAYOUT_GRAVITY = 0.03; // Per node, so the pull keeps up with the total repulsion
+const LAYOUT_SPACING = 0.5;
+const LAYOUT_MARGIN = 20;
+
+export interface NodePosition {
+  x: number;
+  y: number;
+}
+
+export const EMPTY_GRAPH: CoInvestmentGraph = { nodes: [], edges: [] };
+
+// Helper: Order-independent key for an investor pair
+const pairKey = (a: string, b: string) => (a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`);
+
+export const edgeKey = (edge: Pick<CoInvestmentEdge, 'source' | 'target'>) => pairKey(edge.source, edge.target);
+
+const buildAdjacency = (edges: CoInvestmentEdge[]) => {
+  const adjacency = new Map<string, Map<string, number>>();
+  const link = (a: string, b: string, weight: number) => {
+    if (!adjacency.has(a)) adjacency.set(a, new Map());
+    adjacency.get(a)!.set(b, weight);
+  };
+  edges.forEach(e => {
+    link(e.source, e.target, e.weight);
+    link(e.target, e.source, e.weight);
+  });
+  return adjacency;
+};
+
+/**
+ * Weighted label propagation: every investor repeatedly adopts the label its
+ * neighbours share the most deals under. Nodes are visited in name order and
+ * ties go to the smaller label, so the same data always gives the same
+ * communities. Communities are renumbered by size, largest first.
+ */
+const detectCommunities = (names: string[], edges: CoInvestmentEdge[]): Map<string, number> => {
+  const adjacency = buildAdjacency(edges);
+  const order = [...names].sort();
+  const labels = new Map(order.map((name, i) => [name, i]));
+
+  for (let sweep = 0; sweep < MAX_PROPAGATION_SWEEPS; sweep++) {
+    let changed = false;
+    order.forEach(name => {
+      const neighbours = adjacency.get(name);
+      if (!neighbours) return;
+      const totals = new Map<number, number>();
+      neighbours.forEach((weight, other) => {
+        const label = labels.get(other)!;
+        totals.set(label, (totals.get(label) || 0) + weight);
+      });
+      let best = labels.get(name)!;
+      let bestWeight = totals.get(best) || 0;
+      totals.forEach((weight, label) => {
+        if (weight > bestWeight || (weight === bestWeight && label < best)) {
+          best = label;
+          bestWeight = weight;
+        }
+      });
+      if (best !== labels.get(name)) {
+        labels.set(name, best);
+        changed = true;
+      }
+    });
+    if (!changed) break;
+  }
+
+  const sizes = new Map<number, number>();
+  labels.forEach(label => sizes.set(label, (sizes.get(label) || 0) + 1));
+  const ranked = [...sizes.entries()].sort((a, b) => b[1] - a[1] || a[0] - b[0]).map(([label]) => label);
+  const renumbered = new Map(ranked.map((label, i) => [label, i]));
+  return new Map([...labels.entries()].map(([name, label]) => [name, renumbered.get(label)!]));
+};
+
+/**
+ * Investors as nodes, weighted by how many companies they backed together.
+ * Each deal lists one company and every investor attached to it.
+ */
+export const buildCoInvestmentGraph = (deals: { company: string; investors: string[] }[]): CoInvestmentGraph => {
+  const dealCounts = new Map<string, number>();
+  const edges = new Map<string, CoInvestmentEdge>();
+
+  deals.forEach(({ company, investors }) => {
+    investors.forEach(name => dealCounts.set(name, (dealCounts.get(name) || 0) + 1));
+    for (let i = 0; i < investors.length; i++) {
+      for (let j = i + 1; j < investors.length; j++) {
+        const key = pairKey(investors[i], investors[j]);
+        if (!edges.has(key)) {
+          const [source, target] = investors[i] < investors[j] ? [investors[i], investors[j]] : [investors[j], investors[i]];
+          edges.set(key, { source, target, weight: 0, companies: [] });
+        }
+        const edge = edges.get(key)!;
+        edge.weight++;
+        edge.companies.push(company);
+      }
+    }
+  });
+
+  const edgeList = [...edges.values()].sort((a, b) => b.weight - a.weight);
+  const communities = detectCommunities([...dealCounts.keys()], edgeList);
+  const nodes: CoInvestor[] = [...dealCounts.entries()]
+    .map(([name, dealCount]) => ({ name, dealCount, community: communities.get(name)! }))
+    .sort((a, b) => b.dealCount - a.dealCount);
+
+  return { nodes, edges: edgeList };
+};
+
+// Investors that share a deal with `name`, strongest ties first
+export const getNeighbours = (graph: CoInvestmentGraph, name: string): CoInvestmentEdge[] =>
+  graph.edges.filter(e => e.source === name || e.target === name);
+
+/**
+ * Chain of co-investors from one investor to another, for warm introductions.
+ * Dijkstra with cost 1/weight, so a route through repeat co-investors beats a
+ * shorter one through one-off ties. Null when the two aren't connected.
+ */
+export const findIntroPath = (graph: CoInvestmentGraph, from: string, to: string): string[] | null => {
+  if (from === to) return [from];
+  const adjacency = buildAdjacency(graph.edges);
+  if (!adjacency.has(from) || !adjacency.has(to)) return null;
+
+  const distance = new Map<string, number>([[from, 0]]);
+  const previous = new Map<string, string>();
+  const visited = new Set<string>();
+
+  while (true) {
+    let current: string | undefined;
+    distance.forEach((d, name) => {
+      if (!visited.has(name) && (current === undefined || d < distance.get(current)!)) current = name;
+    });
+    if (current === undefined) return null;
+    if (current === to) break;
+    visited.add(current);
+
+    adjacency.get(current)!.forEach((weight, next) => {
+      const candidate = distance.get(current!)! + 1 / weight;
+      if (!visited.has(next) && candidate < (distance.get(next) ?? Infinity)) {
+        distance.set(next, candidate);
+        previous.set(next, current!);
+      }
+    });
+  }
+
+  const path = [to];
+  while (path[0] !== from) path.unshift(previous.get(path[0])!);
+  return path;
+};
+
+/**
+ * Fruchterman-Reingold force layout: every pair of nodes repels, edges pull
+ * their ends together (more strongly for repeat co-investors), and the step
+ * size cools each iteration. Starts from a circle, so it is deterministic.
+ */
+export const layoutGraph = (names: string[], edges: CoInvestmentEdge[], width: number, height: number): Record<string, NodePosition> => {
+  const n = names.length;
+  const positions: NodePosition[] = names.map((_, i) => ({
+    x: width / 2 + (width / 3) * Math.cos((2 * Math.PI * i) / Math.max(n, 1)),
+    y: height / 2 + (height / 3) * Math.sin((2 * Math.PI * i) / Math.max(n, 1))
+  }));
+  if (n <= 1) return Object.fromEntries(names.map((name, i) => [name, n === 1 ? { x: width / 2, y: height / 2 } : positions[i]]));
+
+  const index = new Map(names.map((name, i) => [name, i]));
+  const links = edges
+    .filter(e => index.has(e.source) && index.has(e.target))
+    .map(e => ({ a: index.get(e.source)!, b: index.get(e.target)!, strength: Math.log2(1 + e.weight) }));
+
+  // Ideal edge length; below the textbook sqrt(area / n) so small graphs don't get pushed against the frame
+  const k = LAYOUT_SPACING * Math.sqrt((width * height) / n);
+
+  for (let iter = 0; iter < LAYOUT_ITERATIONS; iter++) {
+    const disp = positions.map(() => ({ x: 0, y: 0 }));
+
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const dx = positions[i].x - positions[j].x;
+        const dy = positions[i].y - positions[j].y;
+        const dist = Math.max(0.01, Math.hypot(dx, dy));
+        const force = (k * k) / dist;
+        disp[i].x += (dx / dist) * force; disp[i].y += (dy / dist) * force;
+        disp[j].x -= (dx / dist) * force; disp[j].y -= (dy / dist) * force;
+      }
+    }
+
+    links.forEach(({ a, b, strength }) => {
+      const dx = positions[a].x - positions[b].x;
+      const dy = positions[a].y - positions[b].y;
+      const dist = Math.max(0.01, Math.hypot(dx, dy));
+      const force = ((dist * dist) / k) * strength;
+      disp[a].x -= (dx / dist) * force; disp[a].y -= (dy / dist) * force;
+      disp[b].x += (dx / dist) * force; disp[b].y += (dy / dist) * force;
+    });
+
+    // A pull to the centre keeps disconnected clusters on screen; moves shrink as the layout cools
+    const temperature = Math.max(0.5, (width / 10) * (1 - iter / LAYOUT_ITERATIONS));
+    positions.forEach((p, i) => {
+      disp[i].x += (width / 2 - p.x) * LAYOUT_GRAVITY * n;
+      disp[i].y += (height / 2 - p.y) * LAYOUT_GRAVITY * n;
+      const len = Math.max(0.01, Math.hypot(disp[i].x, disp[i].y));
+      const step = Math.min(len, temperature);
+      p.x = Math.min(width - LAYOUT_MARGIN, Math.max(LAYOUT_MARGIN, p.x + (disp[i].x / len) * step));
+      p.y = Math.min(height - LAYOUT_MARGIN, Math.max(LAYOUT_MARGIN, p.y + (disp[i].y / len) * step));
+    });
+  }
+
+  return Object.fromEntries(names.map((name, i) => [name, positions[i]]));
+};
@@ -0,0 +1,136 @@
+import { ColumnMapping, CSVParseResult, MappingProfile } from '../types';
+import { KNOWN_COLUMNS } from './importReport';
+
+const PROFILES_STORAGE_KEY = 'capital-compass.mappingProfiles';
+
+// Header names used by other export formats for each canonical (Crunchbase) field
+const COLUMN_SYNONYMS: Record<string, string[]> = {
+  "Organization Name": ["Company Name", "Company", "Companies", "Name", "Organization", "Organisation Name", "Account Name", "Startup"],
+  "Organization Name URL": ["Website", "Company Website", "URL", "Domain", "Homepage", "Web Address"],
+  "Last Funding Type": ["Last Financing Deal Type", "Last Round", "Last Funding Round", "Stage", "Funding Stage", "Last Deal Type", "Current Stage"],
+  "Full Description": ["Long Description", "Business Description", "Company Description", "About"],
+  "Description": ["Short Description", "Tagline", "Summary", "One Liner", "Overview"],
+  "Headquarters Location": ["HQ Location", "HQ", "Headquarters", "Location", "HQ City", "City", "Company City", "Address"],
+  "CB Rank (Company)": ["Rank", "CB Rank", "Dealroom Signal", "Score"],
+  "Number of Founders": ["Founders Count", "Founder Count", "Number Of Founders"],
+  "Number of Employees": ["Employees", "Employee Count", "Headcount", "Team Size", "Company Size", "Employee Range"],
+  "Total Funding Amount": ["Total Raised", "Total Funding", "Funding", "Amount Raised", "Capital Raised"],
+  "Total Funding Amount Currency": ["Currency", "Total Raised Currency", "Funding Currency"],
+  "Total Funding Amount (in USD)": ["Total Raised (USD)", "Total Funding (USD)", "Total Funding USD", "Funding (USD)", "Total Raised USD"],
+  "Number of Funding Rounds": ["Funding Rounds", "Number of Rounds", "Rounds", "Total Rounds", "Deal Count"],
+  "Number of Articles": ["Articles", "News Count", "Press Mentions", "Media Mentions"],
+  "Operating Status": ["Business Status", "Company Status", "Status"],
+  "Founded Date": ["Year Founded", "Founded", "Founded Year", "Launch Date", "Inception Date"],
+  "Top 5 Investors": ["Top Investors", "Key Investors"],
+  "Lead Investors": ["Lead Investor", "Last Round Lead Investors"],
+  "Investors": ["Active Investors", "All Investors", "Investor Names", "Backers"],
+  "Acquired by": ["Acquirer", "Acquired By", "Buyer"],
+  "Exit Date": ["Acquisition Date", "Last Exit Date"],
+  "Closed Date": ["Closure Date", "Date Closed"],
+  "Industries": ["Industry", "Primary Industry", "Primary Industry Sector", "Verticals", "Sectors", "Sector", "Tags", "Keywords"]
+};
+
+// Helper: lowercase and strip punctuation so "HQ_Location" matches "HQ Location"
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const tokenSimilarity = (a: string, b: string) => {
+  const ta = new Set(a.split(' ').filter(Boolean));
+  const tb = new Set(b.split(' ').filter(Boolean));
+  if (ta.size === 0 || tb.size === 0) return 0;
+  let shared = 0;
+  ta.forEach(tok => { if (tb.has(tok)) shared++; });
+  return shared / (ta.size + tb.size - shared);
+};
+
+// Below this, a header is left unmapped rather than guessed
+const MIN_SUGGESTION_SCORE = 0.6;
+
+// Score how well a source header matches a canonical field (1 = exact)
+const scoreHeader = (header: string, canonical: string): number => {
+  const h = normalizeHeader(header);
+  if (h === normalizeHeader(canonical)) return 1;
+  const synonyms = COLUMN_SYNONYMS[canonical] || [];
+  if (synonyms.some(s => normalizeHeader(s) === h)) return 0.95;
+  return Math.max(
+    tokenSimilarity(h, normalizeHeader(canonical)),
+    ...synonyms.map(s => tokenSimilarity(h, normalizeHeader(s)) * 0.9)
+  );
+};
+
+/**
+ * Suggest a canonical field for each source header. Each canonical field is
+ * assigned at most once, best match first; weak matches are left unmapped ('').
+ */
+export const suggestMapping = (headers: string[]): ColumnMapping => {
+  const candidates: { header: string, canonical: string, score: number }[] = [];
+  headers.forEach(header => {
+    KNOWN_COLUMNS.forEach(canonical => {
+      const score = scoreHeader(header, canonical);
+      if (score >= MIN_SUGGESTION_SCORE) candidates.push({ header, canonical, score });
+    });
+  });
+  candidates.sort((a, b) => b.score - a.score);
+
+  const mapping: ColumnMapping = {};
+  const taken = new Set<string>();
+  headers.forEach(h => mapping[h] = '');
+  candidates.forEach(({ header, canonical }) => {
+    if (mapping[header] || taken.has(canonical)) return;
+    mapping[header] = canonical;
+    taken.add(canonical);
+  });
+  return mapping;
+};
+
+// True when the mapping only renames columns to themselves (e.g. a plain Crunchbase export)
+export const isIdentityMapping = (mapping: ColumnMapping) =>
+  Object.entries(mapping).every(([source, target]) => !target || source === target);
+
+// Rename columns to their canonical field; unmapped columns are kept under their original name
+export const applyColumnMapping = <T extends Record<string, any>>(rows: T[], mapping: ColumnMapping): T[] => {
+  if (isIdentityMapping(mapping)) return rows;
+  return rows.map(row => {
+    const out: Record<string, any> = {};
+    Object.entries(row).forEach(([key, value]) => {
+      const target = mapping[key] || key;
+      // When two source columns map to one field, the first non-empty value wins
+      if (out[target] === undefined || out[target] === '') out[target] = value;
+    });
+    return out as T;
+  });
+};
+
+// Apply a mapping to a whole parse result so the import report sees canonical headers
+export const applyMappingToResult = (result: CSVParseResult, mapping: ColumnMapping): CSVParseResult => ({
+  ...result,
+  headers: [...new Set(result.headers.map(h => mapping[h] || h))],
+  rows: applyColumnMapping(result.rows, mapping)
+});
+
+// Pick a saved profile that covers every header of this file, if any
+export const findMatchingProfile = (headers: string[], profiles: MappingProfile[]): MappingProfile | undefined => {
+  return profiles.find(p => headers.length > 0 && headers.every(h => h in p.mapping));
+};
+
+export const loadMappingProfiles = (): MappingProfile[] => {
+  try {
+    const raw = localStorage.getItem(PROFILES_STORAGE_KEY);
+    return raw ? JSON.parse(raw) as MappingProfile[] : [];
+  } catch (error) {
+    console.error("Failed to load mapping profiles:", error);
+    return [];
+  }
+};
+
+export const saveMappingProfile = (profile: MappingProfile): MappingProfile[] => {
+  const profiles = loadMappingProfiles().filter(p => p.name !== profile.name);
+  profiles.push(profile);
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+  return profiles;
+};
+
+export const deleteMappingProfile = (name: string): MappingProfile[] => {
+  const profiles = loadMappingProfiles().filter(p => p.name !== name);
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+  return profiles;
+};
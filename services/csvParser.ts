@@ -0,0 +1,257 @@
+import { CSVDiagnostic, CSVParseResult } from '../types';
+
+export interface CSVParseOptions {
+  delimiter?: string; // Auto-detected from the header line when omitted
+  chunkSize?: number; // Bytes read per chunk when streaming a File/Blob
+  onProgress?: (bytesRead: number, totalBytes: number) => void;
+}
+
+type ParserState = 'fieldStart' | 'unquoted' | 'quoted' | 'quoteInQuoted';
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+const DEFAULT_CHUNK_SIZE = 1024 * 1024; // 1 MB
+const SNIFF_LIMIT = 64 * 1024; // Give up waiting for a newline after this many chars
+
+// Helper: Pick the delimiter that appears most often in the header line (ignoring quoted text)
+export const detectDelimiter = (sample: string): string => {
+  const firstLine = sample.split(/\r\n|\n|\r/)[0].replace(/"(?:[^"]|"")*"/g, '');
+  let best = ',';
+  let bestCount = 0;
+  CANDIDATE_DELIMITERS.forEach(d => {
+    const count = firstLine.split(d).length - 1;
+    if (count > bestCount) {
+      best = d;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+/**
+ * Incremental RFC 4180 parser. Feed it text with `push` in arbitrary chunks
+ * (quoted newlines, escaped quotes and CRLF may straddle chunk boundaries) and
+ * call `end` once to flush the last record and collect the result.
+ */
+export const createCSVStreamParser = (options: CSVParseOptions = {}) => {
+  let delimiter = options.delimiter || '';
+  let pending = '';
+  let isFirstChunk = true;
+
+  let state: ParserState = 'fieldStart';
+  let field = '';
+  let fieldWasQuoted = false;
+  let record: string[] = [];
+  let skipLF = false;
+  let quotedCR = false;
+  let line = 1;
+  let recordLine = 1;
+
+  let headers: string[] | null = null;
+  const rows: Record<string, string>[] = [];
+  const rowLines: number[] = [];
+  const diagnostics: CSVDiagnostic[] = [];
+  let rowsRead = 0;
+
+  const endField = () => {
+    // Quoted values are kept verbatim; bare values are trimmed like the old parser did
+    record.push(fieldWasQuoted ? field : field.trim());
+    field = '';
+    fieldWasQuoted = false;
+    state = 'fieldStart';
+  };
+
+  const endRecord = () => {
+    endField();
+    const cells = record;
+    const startLine = recordLine;
+    record = [];
+    recordLine = line;
+
+    // Blank line
+    if (cells.length === 1 && cells[0] === '') return;
+
+    if (!headers) {
+      const seen = new Map<string, number>();
+      headers = cells.map((h, idx) => {
+        const name = h.trim() || `Column ${idx + 1}`;
+        const n = seen.get(name) || 0;
+        seen.set(name, n + 1);
+        return n === 0 ? name : `${name} (${n + 1})`;
+      });
+      return;
+    }
+
+    rowsRead++;
+
+    if (cells.length > headers.length) {
+      // A trailing delimiter produces empty extra cells, which are harmless
+      if (cells.slice(headers.length).every(c => c === '')) {
+        cells.length = headers.length;
+      } else {
+        diagnostics.push({
+          line: startLine,
+          severity: 'error',
+          code: 'extra_cells',
+          message: `Expected ${headers.length} cells but found ${cells.length}. Check for an unquoted "${delimiter === '\t' ? '\\t' : delimiter}" inside a value.`
+        });
+        return;
+      }
+    }
+
+    if (cells.length < headers.length) {
+      diagnostics.push({
+        line: startLine,
+        severity: 'warning',
+        code: 'missing_cells',
+        message: `Expected ${headers.length} cells but found ${cells.length}; missing cells were left empty.`
+      });
+    }
+
+    const obj: Record<string, string> = {};
+    headers.forEach((h, idx) => {
+      obj[h] = cells[idx] ?? '';
+    });
+    rows.push(obj);
+    rowLines.push(startLine);
+  };
+
+  const consume = (text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+
+      if (skipLF) {
+        skipLF = false;
+        if (ch === '\n') continue;
+      }
+
+      switch (state) {
+        case 'quoted':
+          if (ch === '"') {
+            state = 'quoteInQuoted';
+          } else {
+            // Count CRLF inside a quoted value as a single line break
+            if (ch === '\r' || (ch === '\n' && !quotedCR)) line++;
+            field += ch;
+          }
+          quotedCR = ch === '\r';
+          break;
+
+        case 'quoteInQuoted':
+          if (ch === '"') {
+            // Escaped quote ("")
+            field += '"';
+            state = 'quoted';
+          } else if (ch === delimiter) {
+            endField();
+          } else if (ch === '\n' || ch === '\r') {
+            line++;
+            endRecord();
+            skipLF = ch === '\r';
+          } else if (ch !== ' ' && ch !== '\t') {
+            diagnostics.push({
+              line,
+              severity: 'warning',
+              code: 'stray_quote',
+              message: 'Unexpected character after a closing quote; it was kept as part of the value.'
+            });
+            field += ch;
+            state = 'unquoted';
+          }
+          break;
+
+        case 'fieldStart':
+          if (ch === '"') {
+            state = 'quoted';
+            fieldWasQuoted = true;
+            quotedCR = false;
+            break;
+          }
+          if ((ch === ' ' || ch === '\t') && ch !== delimiter) break;
+          state = 'unquoted';
+          // falls through
+
+        case 'unquoted':
+          if (ch === delimiter) {
+            endField();
+          } else if (ch === '\n' || ch === '\r') {
+            line++;
+            endRecord();
+            skipLF = ch === '\r';
+          } else {
+            field += ch;
+          }
+          break;
+      }
+    }
+  };
+
+  const flushPending = (force: boolean) => {
+    if (!delimiter) {
+      const hasNewline = /[\r\n]/.test(pending);
+      if (!hasNewline && !force && pending.length < SNIFF_LIMIT) return;
+      delimiter = detectDelimiter(pending);
+    }
+    const text = pending;
+    pending = '';
+    consume(text);
+  };
+
+  const push = (chunk: string) => {
+    if (isFirstChunk) {
+      isFirstChunk = false;
+      if (chunk.charCodeAt(0) === 0xfeff) chunk = chunk.slice(1);
+    }
+    pending += chunk;
+    flushPending(false);
+  };
+
+  const end = (): CSVParseResult => {
+    flushPending(true);
+
+    if (state === 'quoted') {
+      diagnostics.push({
+        line: recordLine,
+        severity: 'error',
+        code: 'unterminated_quote',
+        message: `A quoted value starting on this record is never closed; the rest of the file was discarded.`
+      });
+      rowsRead++;
+    } else if (field !== '' || fieldWasQuoted || record.length > 0) {
+      endRecord();
+    }
+
+    return {
+      headers: headers || [],
+      rows,
+      rowLines,
+      diagnostics,
+      delimiter: delimiter || ',',
+      rowsRead
+    };
+  };
+
+  return { push, end };
+};
+
+// Parse a complete CSV string
+export const parseCSVText = (text: string, options: CSVParseOptions = {}): CSVParseResult => {
+  const parser = createCSVStreamParser(options);
+  parser.push(text);
+  return parser.end();
+};
+
+// Stream a File/Blob through the parser in chunks so large exports never sit in memory twice
+export const parseCSVFile = async (file: Blob, options: CSVParseOptions = {}): Promise<CSVParseResult> => {
+  const chunkSize = options.chunkSize || DEFAULT_CHUNK_SIZE;
+  const parser = createCSVStreamParser(options);
+  const decoder = new TextDecoder('utf-8');
+
+  for (let offset = 0; offset < file.size; offset += chunkSize) {
+    const buffer = await file.slice(offset, offset + chunkSize).arrayBuffer();
+    parser.push(decoder.decode(buffer, { stream: true }));
+    options.onProgress?.(Math.min(offset + chunkSize, file.size), file.size);
+  }
+  parser.push(decoder.decode());
+
+  return parser.end();
+};
@@ -0,0 +1,141 @@
+import { RawCompanyData, ReportingCurrency, FXRates, MoneyValue } from '../types';
+
+const RATES_STORAGE_KEY = 'capital-compass.fxRates';
+
+export const REPORTING_CURRENCIES: ReportingCurrency[] = ['USD', 'CAD'];
+
+// Approximate rates used until the user edits the table (value of 1 unit in USD)
+export const DEFAULT_FX_RATES: FXRates = {
+  USD: 1,
+  CAD: 0.73,
+  EUR: 1.08,
+  GBP: 1.27,
+  CHF: 1.12,
+  AUD: 0.66,
+  NZD: 0.61,
+  JPY: 0.0067,
+  CNY: 0.14,
+  INR: 0.012,
+  SGD: 0.74,
+  HKD: 0.13,
+  ILS: 0.27,
+  SEK: 0.095,
+  NOK: 0.094,
+  DKK: 0.145,
+  BRL: 0.18
+};
+
+// Longest prefixes first so "CA$" wins over "$"
+const CURRENCY_SYMBOLS: [string, string][] = [
+  ['CA$', 'CAD'], ['C$', 'CAD'], ['US$', 'USD'], ['AU$', 'AUD'], ['A$', 'AUD'],
+  ['NZ$', 'NZD'], ['HK$', 'HKD'], ['S$', 'SGD'], ['R$', 'BRL'],
+  ['€', 'EUR'], ['£', 'GBP'], ['¥', 'JPY'], ['₹', 'INR'], ['₪', 'ILS'], ['$', 'USD']
+];
+
+const DISPLAY_SYMBOLS: Record<ReportingCurrency, string> = { USD: '$', CAD: 'C$' };
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3, thousand: 1e3,
+  m: 1e6, mm: 1e6, mn: 1e6, million: 1e6,
+  b: 1e9, bn: 1e9, billion: 1e9,
+  t: 1e12, trillion: 1e12
+};
+
+// Helper: "usd", "$" or "C$" -> ISO code
+export const normalizeCurrencyCode = (value: string | undefined): string | undefined => {
+  const trimmed = (value || '').trim();
+  if (!trimmed) return undefined;
+  const symbol = CURRENCY_SYMBOLS.find(([s]) => s === trimmed.toUpperCase());
+  if (symbol) return symbol[1];
+  return /^[A-Za-z]{3}$/.test(trimmed) ? trimmed.toUpperCase() : undefined;
+};
+
+/**
+ * Parses amounts such as "4500000", "1,250,000", "$4.5M", "CA$1.2B",
+ * "€300K", "USD 12 million" or "eur 5M". The currency is only set when the text
+ * carries a symbol or an ISO code; a bare "$" is read as USD.
+ */
+export const parseMoney = (value: string | undefined): MoneyValue | null => {
+  const text = (value || '').trim();
+  if (!text) return null;
+
+  const match = text.match(/(-?\d[\d,]*(?:\.\d+)?|-?\.\d+)\s*(thousand|million|billion|trillion|bn|mm|mn|k|m|b|t)?\b/i);
+  if (!match) return null;
+
+  const base = parseFloat(match[1].replace(/,/g, ''));
+  if (isNaN(base)) return null;
+  const multiplier = match[2] ? MULTIPLIERS[match[2].toLowerCase()] : 1;
+
+  // Currency markers live outside the number itself
+  const rest = (text.slice(0, match.index) + ' ' + text.slice((match.index || 0) + match[0].length)).trim();
+  let currency: string | undefined;
+  const symbol = CURRENCY_SYMBOLS.find(([s]) => rest.toUpperCase().includes(s));
+  if (symbol) currency = symbol[1];
+  const code = rest.match(/\b([a-z]{3})\b/i);
+  if (code && !currency) currency = code[1].toUpperCase();
+
+  return { amount: base * multiplier, currency };
+};
+
+// Converts an amount to USD; null when the table has no rate for the currency
+export const toUSD = (amount: number, currency: string, rates: FXRates): number | null => {
+  const rate = rates[currency];
+  return rate && rate > 0 ? amount * rate : null;
+};
+
+export const fromUSD = (amountUSD: number, currency: ReportingCurrency, rates: FXRates): number => {
+  const rate = rates[currency];
+  return rate && rate > 0 ? amountUSD / rate : amountUSD;
+};
+
+// Helper: resolveFundingUSD's rule for any USD/local/currency column triple (e.g. funding rounds)
+export const resolveMoneyUSD = (usdValue: string | undefined, localValue: string | undefined, currencyValue: string | undefined, rates: FXRates): number => {
+  const usd = parseMoney(usdValue);
+  if (usd && usd.amount > 0) return usd.amount;
+
+  const local = parseMoney(localValue);
+  if (!local || local.amount <= 0) return 0;
+
+  const currency = normalizeCurrencyCode(currencyValue) || local.currency || 'USD';
+  return toUSD(local.amount, currency, rates) ?? 0;
+};
+
+/**
+ * Total funding in USD for a row. The Crunchbase USD column wins when it is
+ * filled; otherwise the local amount is converted with its currency column
+ * (or the symbol in the amount). Unknown currencies count as 0.
+ */
+export const resolveFundingUSD = (row: RawCompanyData, rates: FXRates): number =>
+  resolveMoneyUSD(row["Total Funding Amount (in USD)"], row["Total Funding Amount"], row["Total Funding Amount Currency"], rates);
+
+// Currency codes found in the data that the rate table can't convert
+export const findUnknownCurrencies = (rows: RawCompanyData[], rates: FXRates): string[] => {
+  const unknown = new Set<string>();
+  rows.forEach(row => {
+    if (parseMoney(row["Total Funding Amount (in USD)"])?.amount) return;
+    const local = parseMoney(row["Total Funding Amount"]);
+    if (!local) return;
+    const currency = normalizeCurrencyCode(row["Total Funding Amount Currency"]) || local.currency;
+    if (currency && !(rates[currency] > 0)) unknown.add(currency);
+  });
+  return [...unknown].sort();
+};
+
+// Helper: Compact label, e.g. 4500000 -> "C$4.5M"
+export const formatMillions = (amount: number, currency: ReportingCurrency, digits = 1): string => {
+  return `${DISPLAY_SYMBOLS[currency]}${(amount / 1000000).toFixed(digits)}M`;
+};
+
+export const loadFXRates = (): FXRates => {
+  try {
+    const raw = localStorage.getItem(RATES_STORAGE_KEY);
+    return raw ? JSON.parse(raw) as FXRates : { ...DEFAULT_FX_RATES };
+  } catch (error) {
+    console.error("Failed to load FX rates:", error);
+    return { ...DEFAULT_FX_RATES };
+  }
+};
+
+export const saveFXRates = (rates: FXRates) => {
+  localStorage.setItem(RATES_STORAGE_KEY, JSON.stringify(rates));
+};
@@ -1,40 +1,17 @@
 
-import { RawCompanyData, ScoredCompany, ThemeTrend, InvestorStat, AcquisitionStatus, PortfolioItem } from '../types';
-
-// Helper to parse CSV string
+import { RawCompanyData, ScoredCompany, ThemeTrend, InvestorStat, AcquisitionStatus, PortfolioItem, ScoringModel, FXRates, ReportingCurrency, AnalysisProgress, ProcessedData, ScoringMeta, ThemeDefinition, ThemeConfidence, FundingRound, StageBucket, InvestorRole } from '../types';
+import { parseCSVText } from './csvParser';
+import { DEFAULT_SCORING_MODEL, WEIGHT_LABELS, explainWeightedScore, resolveNormalisation, resolveWeights, describeNormalisation } from './scoringModel';
+import { createNormaliser } from './normalisation';
+import { DEFAULT_FX_RATES, resolveFundingUSD, fromUSD } from './currency';
+import { DEFAULT_THEMES, compileThemes, meetsConfidence } from './themeTaxonomy';
+import { createRoundsIndex, buildTimeline, roundCadenceMonths, monthsSinceLastRound, scoreCadence, scoreRecency } from './fundingRounds';
+import { buildCoInvestmentGraph } from './coInvestment';
+import { splitInvestorList, createInvestorResolver } from './investorAliases';
+
+// Helper to parse CSV string (see csvParser.ts for streaming and per-row diagnostics)
 export const parseCSV = (text: string): RawCompanyData[] => {
-  const lines = text.split('\n').filter(l => l.trim());
-  if (lines.length < 2) return [];
-
-  const headers = lines[0].split(',').map(h => h.trim().replace(/^"|"$/g, ''));
-  const data: RawCompanyData[] = [];
-
-  for (let i = 1; i < lines.length; i++) {
-    const row: string[] = [];
-    let inQuote = false;
-    let currentCell = '';
-    
-    for (let char of lines[i]) {
-      if (char === '"') {
-        inQuote = !inQuote;
-      } else if (char === ',' && !inQuote) {
-        row.push(currentCell.trim().replace(/^"|"$/g, ''));
-        currentCell = '';
-      } else {
-        currentCell += char;
-      }
-    }
-    row.push(currentCell.trim().replace(/^"|"$/g, ''));
-
-    if (row.length === headers.length) {
-      const obj: any = {};
-      headers.forEach((h, idx) => {
-        obj[h] = row[idx];
-      });
-      data.push(obj);
-    }
-  }
-  return data;
+  return parseCSVText(text).rows as RawCompanyData[];
 };
 
 // Helper: Convert "11-50" to median number
@@ -48,25 +25,32 @@ const parseEmployeeCount = (range: string | undefined): number => {
   return parseInt(range) || 0;
 };
 
-// Helper: Normalize value 0-1
-const normalize = (val: number, min: number, max: number) => {
-  if (max === min) return 0;
-  return (val - min) / (max - min);
-};
+// Helper: Drops placeholders like "Undisclosed Investors" and stray initials
+const isInvestorName = (name: string) => name.length > 2 && !name.toLowerCase().includes('undisclosed');
 
-// Helper: Extract unique investors from comma-separated string
+// Helper: Extract unique investor spellings from the comma-separated columns (see investorAliases.ts for resolving them)
 export const extractInvestors = (row: RawCompanyData): string[] => {
-  const rawList = [
-    row["Top 5 Investors"],
-    row["Lead Investors"],
-    row["Investors"]
-  ].filter(Boolean).join(',');
-
-  return [...new Set(
-    rawList.split(',')
-      .map(s => s.trim().replace(/^"|"$/g, ''))
-      .filter(s => s.length > 2 && !s.toLowerCase().includes('undisclosed'))
-  )];
+  const names = [row["Top 5 Investors"], row["Lead Investors"], row["Investors"]].flatMap(splitInvestorList);
+  return [...new Set(names.filter(isInvestorName))];
+};
+
+export const STAGE_BUCKETS: StageBucket[] = ['seed', 'seriesA', 'seriesB', 'growth', 'other'];
+
+// Helper: "Series C" -> 'growth'; grants, debt and unlabelled rounds fall under 'other'
+export const stageBucket = (lastFundingType: string | undefined): StageBucket => {
+  const stage = (lastFundingType || "").toLowerCase();
+  if (stage.includes("seed") || stage.includes("angel")) return 'seed';
+  if (stage.includes("series a")) return 'seriesA';
+  if (stage.includes("series b")) return 'seriesB';
+  if (/series [c-j]\b/.test(stage) || stage.includes("private equity") || stage.includes("ipo")) return 'growth';
+  return 'other';
+};
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 !== 0 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
 };
 
 const formatDate = (dateStr: string | undefined): string => {
@@ -78,8 +62,32 @@ const formatDate = (dateStr: string | undefined): string => {
     return `${month}/${d.getFullYear()}`;
 };
 
+export interface ProcessOptions {
+  model?: ScoringModel;
+  fxRates?: FXRates; // Used for rows that only carry a local-currency amount
+  themes?: ThemeDefinition[];
+  minThemeConfidence?: ThemeConfidence; // Weaker matches are kept in themeMatches but not counted
+  fundingRounds?: FundingRound[]; // From a Funding Rounds export, joined by organisation URL or name
+  investorAliases?: Record<string, string>; // Confirmed merges from the alias dictionary
+  onProgress?: (progress: AnalysisProgress) => void;
+}
+
+const PROGRESS_INTERVAL = 1000; // Rows scored between progress reports
+
 // Main Scoring Engine
-export const processData = (rawData: RawCompanyData[]): { companies: ScoredCompany[], trends: ThemeTrend[], investors: InvestorStat[] } => {
+export const processData = (rawData: RawCompanyData[], options: ProcessOptions = {}): ProcessedData => {
+  const model = options.model || DEFAULT_SCORING_MODEL;
+  const weights = resolveWeights(model);
+  const normalisation = resolveNormalisation(model);
+  const fxRates = options.fxRates || DEFAULT_FX_RATES;
+  const themes = options.themes || DEFAULT_THEMES;
+  const themeNames = new Map(themes.map(t => [t.id, t.name]));
+  const matchThemes = compileThemes(themes);
+  const minThemeConfidence = options.minThemeConfidence || 'weak';
+  const findRounds = options.fundingRounds ? createRoundsIndex(options.fundingRounds) : null;
+  const reportProgress = options.onProgress || (() => {});
+  reportProgress({ stage: 'scoring', fraction: 0 });
+
   // 1. Extract raw numericals for normalization
   const fundingAmounts: number[] = [];
   const articleCounts: number[] = [];
@@ -87,56 +95,81 @@ export const processData = (rawData: RawCompanyData[]): { companies: ScoredCompa
   const rounds: number[] = [];
 
   const processedTemp = rawData.map(c => {
-    const fundAmt = parseFloat(c["Total Funding Amount (in USD)"] || "0");
+    const fundAmt = resolveFundingUSD(c, fxRates);
     const numArticles = parseInt(c["Number of Articles"] || "0");
     const rank = parseInt((c["CB Rank (Company)"] || "100000").replace(/,/g, ''));
-    const numRounds = parseInt(c["Number of Funding Rounds"] || "1");
+    const timeline = findRounds ? buildTimeline(findRounds(c), fxRates) : undefined;
+    // The rounds file fills in the count when the organisations export left it out
+    const numRounds = parseInt(c["Number of Funding Rounds"] || (timeline && timeline.length > 0 ? String(timeline.length) : "1"));
     
     fundingAmounts.push(fundAmt);
     articleCounts.push(numArticles);
     ranks.push(rank);
     rounds.push(numRounds);
 
-    return { ...c, _fundAmt: fundAmt, _articles: numArticles, _rank: rank, _rounds: numRounds };
+    return { ...c, _fundAmt: fundAmt, _articles: numArticles, _rank: rank, _rounds: numRounds, _timeline: timeline, _investors: extractInvestors(c) };
   });
 
-  const maxFund = Math.max(...fundingAmounts, 1);
-  const minFund = Math.min(...fundingAmounts, 0);
-  
-  const maxArticles = Math.max(...articleCounts, 1);
-  const maxRounds = Math.max(...rounds, 1);
-  const minRank = Math.min(...ranks, 1);
-  const maxRank = Math.max(...ranks, 100000);
+  // Every spelling has to be seen first, so the most common one names the investor
+  const resolveInvestor = createInvestorResolver(processedTemp.flatMap(c => c._investors), options.investorAliases);
+
+  // Bounds keep the original min-max floors and ceilings (e.g. ranks always span 1-100,000)
+  const normFund = createNormaliser(fundingAmounts, normalisation.fundingAmount, { bounds: [0, 1] });
+  const normArticleCount = createNormaliser(articleCounts, normalisation.articles, { bounds: [0, 1] });
+  const normRoundCount = createNormaliser(rounds, normalisation.fundingRounds, { bounds: [0, 1] });
+  const normRankValue = createNormaliser(ranks, normalisation.rank, { bounds: [1, 100000], lowerIsBetter: true });
 
   // 2. Score Each Company & Theme Detection
   const scored = processedTemp.map((c, idx) => {
+    if (idx > 0 && idx % PROGRESS_INTERVAL === 0) reportProgress({ stage: 'scoring', fraction: idx / processedTemp.length });
+
     // --- Text Analysis ---
-    const text = ((c["Description"] || "") + " " + (c["Full Description"] || "")).toLowerCase();
-    
-    const isAI = /ai\b|artificial intelligence|machine learning|deep learning|llm|nlp|genai|neural network|gpt|computer vision/.test(text);
-    const isClimate = /climate|carbon|emission|renewable|solar|battery|sustainable|energy|clean tech|green|environment|wind|hydro/.test(text);
-    const isFintech = /fintech|payment|lending|banking|crypto|wallet|neobank|insurance|wealth|trading|blockchain|defi/.test(text);
-    const isHealthcare = /biotech|health|pharma|medical|therapeutics|biology|patient|doctor|care|clinic|drug|genomic|life science/.test(text);
-    const isSaaS = /enterprise|saas|b2b|software|cloud|automation|workflow|productivity|crm|erp|platform|infrastructure|api/.test(text);
-    const isConsumer = /b2c|consumer|retail|e-commerce|social|app|marketplace|brand|fashion|food|d2c|subscription|media/.test(text);
+    // Descriptions are matched separately, as the two fields can be in different languages
+    const themeMatches = matchThemes(c["Industries"], [c["Description"], c["Full Description"]]);
+    const matchedThemes = themeMatches.filter(m => meetsConfidence(m.confidence, minThemeConfidence)).map(m => m.themeId);
 
     // --- Funding Score ---
-    const normAmt = normalize(c._fundAmt, minFund, maxFund);
-    const normRounds = normalize(c._rounds, 0, maxRounds);
-    const fundingScore = ((normAmt * 0.7) + (normRounds * 0.3)) * 100;
+    const normAmt = normFund(c._fundAmt);
+    const normRounds = normRoundCount(c._rounds);
+    const cadenceMonths = c._timeline ? roundCadenceMonths(c._timeline) : null;
+    const recencyMonths = c._timeline ? monthsSinceLastRound(c._timeline) : null;
+    const funding = explainWeightedScore(
+      { amount: normAmt, rounds: normRounds, cadence: scoreCadence(cadenceMonths), recency: scoreRecency(recencyMonths) },
+      weights.funding,
+      {
+        amount: c._fundAmt,
+        rounds: c._rounds,
+        cadence: cadenceMonths === null ? 'n/a' : `${cadenceMonths.toFixed(0)} mo`,
+        recency: recencyMonths === null ? 'n/a' : `${recencyMonths.toFixed(0)} mo ago`
+      },
+      WEIGHT_LABELS.funding.inputs
+    );
+    const fundingScore = funding.score * 100;
 
     // --- Operations Score ---
     const employeeMedian = parseEmployeeCount(c["Number of Employees"]);
     const normEmp = Math.min(employeeMedian, 500) / 500; 
     const isActive = (c["Operating Status"] || "Active") === "Active" ? 1 : 0;
-    const opsScore = ((normEmp * 0.6) + (isActive * 0.4)) * 100;
+    const operations = explainWeightedScore(
+      { employees: normEmp, active: isActive },
+      weights.operations,
+      { employees: employeeMedian, active: c["Operating Status"] || "Active" },
+      WEIGHT_LABELS.operations.inputs
+    );
+    const opsScore = operations.score * 100;
 
     // --- Brand / Trend Score ---
-    const normRank = 1 - normalize(c._rank, minRank, maxRank); // Lower rank is better
-    const normArticles = normalize(c._articles, 0, maxArticles);
+    const normRank = normRankValue(c._rank); // Lower rank is better
+    const normArticles = normArticleCount(c._articles);
     // Bonus for hitting any theme
-    const keywordBonus = (isAI || isClimate || isFintech || isHealthcare || isSaaS || isConsumer) ? 0.2 : 0;
-    const brandTrendScore = Math.min(((normRank * 0.5) + (normArticles * 0.3) + keywordBonus), 1) * 100;
+    const keywordBonus = matchedThemes.length > 0 ? 1 : 0;
+    const brandTrend = explainWeightedScore(
+      { rank: normRank, articles: normArticles, themeBonus: keywordBonus },
+      weights.brandTrend,
+      { rank: c._rank, articles: c._articles, themeBonus: matchedThemes.map(id => themeNames.get(id)).join(', ') },
+      WEIGHT_LABELS.brandTrend.inputs
+    );
+    const brandTrendScore = brandTrend.score * 100;
 
     // --- High Potential Score ---
     const stage = (c["Last Funding Type"] || "").toLowerCase();
@@ -145,10 +178,22 @@ export const processData = (rawData: RawCompanyData[]): { companies: ScoredCompa
     if (stage.includes("series b") || stage.includes("series c")) stageScore = 0.9;
     if (stage.includes("ipo") || stage.includes("acquired")) stageScore = 0.5; 
     
-    const potentialScore = ((stageScore * 0.4) + (fundingScore/100 * 0.3) + (brandTrendScore/100 * 0.3)) * 100;
+    const potential = explainWeightedScore(
+      { stage: stageScore, funding: fundingScore / 100, brandTrend: brandTrendScore / 100 },
+      weights.potential,
+      { stage: c["Last Funding Type"] || "Unknown", funding: fundingScore, brandTrend: brandTrendScore },
+      WEIGHT_LABELS.potential.inputs
+    );
+    const potentialScore = potential.score * 100;
 
     // --- Comprehensive Score ---
-    const comprehensive = (fundingScore + opsScore + brandTrendScore + potentialScore) / 4;
+    const overall = explainWeightedScore(
+      { funding: fundingScore / 100, operations: opsScore / 100, brandTrend: brandTrendScore / 100, potential: potentialScore / 100 },
+      weights.comprehensive,
+      { funding: fundingScore, operations: opsScore, brandTrend: brandTrendScore, potential: potentialScore },
+      WEIGHT_LABELS.comprehensive.inputs
+    );
+    const comprehensive = overall.score * 100;
 
     // --- Acquisition/Closure Check ---
     const opStatus = (c["Operating Status"] || "").toLowerCase();
@@ -185,20 +230,29 @@ export const processData = (rawData: RawCompanyData[]): { companies: ScoredCompa
         potential: potentialScore,
         comprehensive: comprehensive
       },
-      themes: {
-        ai: isAI,
-        climate: isClimate,
-        fintech: isFintech,
-        healthcare: isHealthcare,
-        saas: isSaaS,
-        consumer: isConsumer
+      breakdown: {
+        funding: funding.contributions,
+        operations: operations.contributions,
+        brandTrend: brandTrend.contributions,
+        potential: potential.contributions,
+        comprehensive: overall.contributions
       },
+      fundingUSD: c._fundAmt,
+      fundingTimeline: c._timeline,
+      investors: [...new Set(c._investors.map(resolveInvestor))],
+      leadInvestors: [...new Set([
+        ...splitInvestorList(c["Lead Investors"]),
+        ...(c._timeline || []).flatMap(round => round.leadInvestors)
+      ].filter(isInvestorName).map(resolveInvestor))],
+      themes: matchedThemes,
+      themeMatches,
       acquisitionStatus
     } as ScoredCompany;
   });
 
   // 3. Trend Analysis (Aggregated by Year)
-  const trendsMap = new Map<number, {AI: number, Climate: number, Fintech: number, Healthcare: number, SaaS: number, Consumer: number, count: number}>();
+  reportProgress({ stage: 'trends' });
+  const trendsMap = new Map<number, { themeCounts: Record<string, number>, count: number }>();
 
   scored.forEach(c => {
     let year = 0;
@@ -209,64 +263,62 @@ export const processData = (rawData: RawCompanyData[]): { companies: ScoredCompa
     
     if (year > 1990 && year <= new Date().getFullYear()) {
       if (!trendsMap.has(year)) {
-        trendsMap.set(year, { AI: 0, Climate: 0, Fintech: 0, Healthcare: 0, SaaS: 0, Consumer: 0, count: 0 });
+        trendsMap.set(year, { themeCounts: Object.fromEntries(themes.map(t => [t.id, 0])), count: 0 });
       }
       const entry = trendsMap.get(year)!;
       entry.count++;
-      if (c.themes.ai) entry.AI++;
-      if (c.themes.climate) entry.Climate++;
-      if (c.themes.fintech) entry.Fintech++;
-      if (c.themes.healthcare) entry.Healthcare++;
-      if (c.themes.saas) entry.SaaS++;
-      if (c.themes.consumer) entry.Consumer++;
+      c.themes.forEach(id => entry.themeCounts[id]++);
     }
   });
 
   const trends: ThemeTrend[] = Array.from(trendsMap.entries())
-    .map(([year, data]) => ({
-      year,
-      AI: parseFloat(((data.AI / data.count) * 100).toFixed(1)),
-      Climate: parseFloat(((data.Climate / data.count) * 100).toFixed(1)),
-      Fintech: parseFloat(((data.Fintech / data.count) * 100).toFixed(1)),
-      Healthcare: parseFloat(((data.Healthcare / data.count) * 100).toFixed(1)),
-      SaaS: parseFloat(((data.SaaS / data.count) * 100).toFixed(1)),
-      Consumer: parseFloat(((data.Consumer / data.count) * 100).toFixed(1)),
-    }))
+    .map(([year, data]) => {
+      const trend: ThemeTrend = { year };
+      Object.entries(data.themeCounts).forEach(([id, n]) => {
+        trend[id] = parseFloat(((n / data.count) * 100).toFixed(1));
+      });
+      return trend;
+    })
     .sort((a, b) => a.year - b.year);
 
   // 4. Investor Analysis
-  const investorMap = new Map<string, { count: number, themeCounts: Record<string, number>, portfolio: Map<string, string[]> }>();
+  reportProgress({ stage: 'investors' });
+  const investorMap = new Map<string, {
+    count: number,
+    themeCounts: Record<string, number>,
+    portfolio: Map<string, { themes: string[], role: InvestorRole }>,
+    scores: number[],
+    exits: number,
+    leads: number,
+    stageMix: Record<StageBucket, number>
+  }>();
+  const deals: { company: string; investors: string[] }[] = [];
 
   scored.forEach(c => {
-    const invs = extractInvestors(c);
+    const invs = c.investors;
+    deals.push({ company: c["Organization Name"], investors: invs });
     
-    // Determine active themes for this company
-    const activeThemes: string[] = [];
-    if (c.themes.ai) activeThemes.push('AI');
-    if (c.themes.climate) activeThemes.push('Climate');
-    if (c.themes.fintech) activeThemes.push('Fintech');
-    if (c.themes.healthcare) activeThemes.push('Healthcare');
-    if (c.themes.saas) activeThemes.push('SaaS');
-    if (c.themes.consumer) activeThemes.push('Consumer');
-
     invs.forEach(invName => {
       if (!investorMap.has(invName)) {
         investorMap.set(invName, { 
             count: 0, 
-            themeCounts: { AI: 0, Climate: 0, Fintech: 0, Healthcare: 0, SaaS: 0, Consumer: 0 }, 
-            portfolio: new Map() 
+            themeCounts: {}, 
+            portfolio: new Map(),
+            scores: [],
+            exits: 0,
+            leads: 0,
+            stageMix: { seed: 0, seriesA: 0, seriesB: 0, growth: 0, other: 0 }
         });
       }
       const entry = investorMap.get(invName)!;
       entry.count++;
-      entry.portfolio.set(c["Organization Name"], activeThemes);
-      
-      if (c.themes.ai) entry.themeCounts.AI++;
-      if (c.themes.climate) entry.themeCounts.Climate++;
-      if (c.themes.fintech) entry.themeCounts.Fintech++;
-      if (c.themes.healthcare) entry.themeCounts.Healthcare++;
-      if (c.themes.saas) entry.themeCounts.SaaS++;
-      if (c.themes.consumer) entry.themeCounts.Consumer++;
+      const role: InvestorRole = c.leadInvestors.includes(invName) ? 'lead' : 'follow';
+      entry.portfolio.set(c["Organization Name"], { themes: c.themes, role });
+      c.themes.forEach(id => { entry.themeCounts[id] = (entry.themeCounts[id] || 0) + 1; });
+      entry.scores.push(c.scores.comprehensive);
+      if (c.acquisitionStatus?.isAcquiredOrClosed) entry.exits++;
+      if (role === 'lead') entry.leads++;
+      entry.stageMix[stageBucket(c["Last Funding Type"])]++;
     });
   });
 
@@ -281,30 +333,54 @@ export const processData = (rawData: RawCompanyData[]): { companies: ScoredCompa
       
       // Convert portfolio map to array
       const portfolioItems: PortfolioItem[] = Array.from(data.portfolio.entries())
-        .map(([cName, cThemes]) => ({ name: cName, themes: cThemes }));
+        .map(([cName, link]) => ({ name: cName, ...link }));
+
+      // Herfindahl index over theme tags: the sum of squared shares
+      const themeTotal = Object.values(data.themeCounts).reduce((a, b) => a + b, 0);
+      const themeConcentration = themeTotal > 0
+        ? Object.values(data.themeCounts).reduce((acc, n) => acc + (n / themeTotal) ** 2, 0)
+        : 0;
 
       return {
         name,
         count: data.count,
         topThemes: sortedThemes,
-        portfolio: portfolioItems
+        portfolio: portfolioItems,
+        avgScore: data.scores.reduce((a, b) => a + b, 0) / data.count,
+        medianScore: median(data.scores),
+        exitShare: data.exits / data.count,
+        leadCount: data.leads,
+        leadShare: data.leads / data.count,
+        stageMix: data.stageMix,
+        themeConcentration
       };
     })
-    .sort((a, b) => b.count - a.count)
-    .slice(0, 50); // Keep top 50 active ones
+    .sort((a, b) => b.count - a.count);
 
   // Sort companies by comprehensive score descending
   scored.sort((a, b) => b.scores.comprehensive - a.scores.comprehensive);
 
-  return { companies: scored, trends, investors };
+  const meta: ScoringMeta = {
+    modelName: model.name,
+    weights,
+    normalisation,
+    companyCount: scored.length,
+    scoredAt: Date.now()
+  };
+
+  return { companies: scored, trends, investors, network: buildCoInvestmentGraph(deals), meta };
 };
 
-export const exportCompaniesToCSV = (companies: ScoredCompany[]) => {
+export const exportCompaniesToCSV = (companies: ScoredCompany[], currency: ReportingCurrency = 'USD', fxRates: FXRates = DEFAULT_FX_RATES, meta?: ScoringMeta) => {
   const headers = [
     "Rank", "Organization Name", "Comprehensive Score", "Potential Score", 
-    "Funding Score", "Operations Score", "Brand Score", 
-    "Headquarters Location", "Industries", "Description", "Website"
+    "Funding Score", "Operations Score", "Brand Score", `Total Funding (${currency})`,
+    "Headquarters Location", "Industries", "Description", "Website",
+    "Scoring Model", "Normalisation"
   ];
+  // Repeated on every row so scores stay interpretable when rows are copied elsewhere
+  const modelName = meta ? `"${meta.modelName.replace(/"/g, '""')}"` : "";
+  const normalisation = meta ? `"${describeNormalisation(meta.normalisation)}"` : "";
 
   const rows = companies.map((c, idx) => [
     idx + 1,
@@ -314,10 +390,13 @@ export const exportCompaniesToCSV = (companies: ScoredCompany[]) => {
     c.scores.funding.toFixed(2),
     c.scores.operations.toFixed(2),
     c.scores.brandTrend.toFixed(2),
+    c.fundingUSD > 0 ? fromUSD(c.fundingUSD, currency, fxRates).toFixed(0) : "",
     `"${(c["Headquarters Location"] || "").replace(/"/g, '""')}"`,
     `"${(c["Industries"] || "").replace(/"/g, '""')}"`,
     `"${(c["Full Description"] || c["Description"] || "").replace(/"/g, '""').substring(0, 1000)}"`,
-    c["Organization Name URL"] || ""
+    c["Organization Name URL"] || "",
+    modelName,
+    normalisation
   ]);
 
   const csvContent = [
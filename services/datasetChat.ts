@@ -0,0 +1,56 @@
+import { ChatMessage, ChatToolCall } from '../types';
+import { AIProvider, AIRequestError } from './aiProviders';
+import { DatasetQuery } from './datasetQuery';
+
+// Enough for a lookup, a refinement and a follow-up; a model still calling tools after that gets no more
+const MAX_TOOL_ROUNDS = 6;
+
+export interface DatasetAnswer {
+  text: string;
+  toolCalls: ChatToolCall[]; // Every query the model ran, in order
+  matchedIds: string[]; // Companies returned by the last query that returned any
+  mentionedIds: string[]; // Companies the answer names, among those any query returned
+}
+
+const systemPrompt = (query: DatasetQuery) => `
+You answer questions about a venture dataset of ${query.size.companies} companies and ${query.size.investors} investors, loaded in the Capital Compass dashboard.
+You cannot see the data directly: look everything up with the tools, and never guess names, counts or figures.
+Call dataset_overview first when you need valid theme names, funding types or locations.
+Scores run from 0 to 100 and amounts are in USD. Say how many companies matched, name companies exactly as the tools spell them, and keep answers short.
+If the tools return nothing, say so plainly.
+`.trim();
+
+/**
+ * Answers one question by letting the model call the dataset tools until it
+ * replies in text. Earlier turns are passed as plain questions and answers,
+ * without their tool results, so the prompt stays small as the conversation grows.
+ */
+export const askDataset = async (question: string, history: ChatMessage[], query: DatasetQuery, provider: AIProvider): Promise<DatasetAnswer> => {
+  const messages: ChatMessage[] = [...history, { role: 'user', text: question }];
+  const toolCalls: ChatToolCall[] = [];
+  const returnedIds: string[] = [];
+  let matchedIds: string[] = [];
+
+  for (let round = 0; ; round++) {
+    // The last round offers no tools, which makes the model answer with what it has
+    const reply = await provider.chat({ system: systemPrompt(query), messages, tools: round < MAX_TOOL_ROUNDS ? query.tools : [] });
+    if (reply.toolCalls.length === 0 || round >= MAX_TOOL_ROUNDS) {
+      if (!reply.text.trim()) throw new AIRequestError('bad_response', "Empty response from AI");
+      return {
+        text: reply.text.trim(),
+        toolCalls,
+        matchedIds,
+        mentionedIds: query.mentionedCompanies(reply.text, returnedIds)
+      };
+    }
+
+    messages.push({ role: 'assistant', text: reply.text, toolCalls: reply.toolCalls });
+    reply.toolCalls.forEach(call => {
+      const result = query.run(call);
+      toolCalls.push(call);
+      returnedIds.push(...result.companyIds);
+      if (result.companyIds.length > 0) matchedIds = result.companyIds;
+      messages.push({ role: 'tool', callId: call.id, name: call.name, content: JSON.stringify(result.content) });
+    });
+  }
+};
@@ -0,0 +1,445 @@
+import { ScoredCompany, InvestorStat, ThemeTrend, ThemeDefinition, ChatToolCall } from '../types';
+import { AIToolDefinition } from './aiProviders';
+import { foldAccents } from './themeTaxonomy';
+import { investorKey } from './investorAliases';
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+const MAX_LISTED_INVESTORS = 8; // Per company row; get_company lists them all
+const MAX_DESCRIPTION_LENGTH = 800;
+const MAX_AMBIGUOUS_MATCHES = 10;
+const MAX_OVERVIEW_VALUES = 15;
+const MIN_MENTION_LENGTH = 3; // Shorter names match inside ordinary words
+
+export interface QueryDataset {
+  companies: ScoredCompany[]; // In ranking order
+  investors: InvestorStat[];
+  trends: ThemeTrend[];
+}
+
+export interface DatasetToolResult {
+  content: unknown; // Sent to the model as JSON
+  companyIds: string[]; // Every company the result refers to, in its order, so answers can link to the rows
+}
+
+export interface DatasetQuery {
+  tools: AIToolDefinition[];
+  run: (call: ChatToolCall) => DatasetToolResult;
+  mentionedCompanies: (text: string, ids: string[]) => string[]; // Which of these companies the text names
+  size: { companies: number; investors: number };
+}
+
+type Args = Record<string, unknown>;
+
+const SCORE_KEYS = {
+  comprehensive: 'comprehensive',
+  potential: 'potential',
+  funding: 'funding',
+  operations: 'operations',
+  brand_trend: 'brandTrend'
+} as const;
+
+type ScoreArg = keyof typeof SCORE_KEYS;
+
+const SCORE_ARGS = Object.keys(SCORE_KEYS) as ScoreArg[];
+const COMPANY_SORTS = ['rank', ...SCORE_ARGS, 'total_funding', 'founded'];
+const INVESTOR_SORTS = ['deal_count', 'lead_count', 'avg_score', 'median_score', 'exit_share', 'lead_share'];
+
+const scoreRange = (bound: string) => ({
+  type: 'object',
+  description: `${bound} score per dimension, 0-100`,
+  properties: Object.fromEntries(SCORE_ARGS.map(key => [key, { type: 'number' }]))
+});
+
+const TOOL_DEFINITIONS: AIToolDefinition[] = [
+  {
+    name: 'search_companies',
+    description: 'Filters the loaded companies and returns the total number of matches plus the first rows. All filters are optional and combined with AND. Text filters ignore case and accents.',
+    parameters: {
+      type: 'object',
+      properties: {
+        text: { type: 'string', description: 'Words that must all appear in the name, description or industries' },
+        themes: { type: 'array', items: { type: 'string' }, description: 'Theme names; a company must match at least one. See dataset_overview for the list' },
+        stages: { type: 'array', items: { type: 'string' }, description: 'Last funding types, e.g. "Seed" or "Series A"; a company must match at least one' },
+        location: { type: 'string', description: 'Part of the headquarters location: a city, province, state or country' },
+        investor: { type: 'string', description: 'An investor that backed the company' },
+        lead_investor: { type: 'string', description: 'An investor that led one of its rounds' },
+        operating_status: { type: 'string', description: 'e.g. "Active" or "Closed"' },
+        min_scores: scoreRange('Minimum'),
+        max_scores: scoreRange('Maximum'),
+        min_total_funding_usd: { type: 'number' },
+        max_total_funding_usd: { type: 'number' },
+        founded_after: { type: 'integer', description: 'Earliest founding year, inclusive' },
+        founded_before: { type: 'integer', description: 'Latest founding year, inclusive' },
+        sort_by: { type: 'string', enum: COMPANY_SORTS, description: 'Defaults to rank (by comprehensive score). Others sort highest or newest first' },
+        limit: { type: 'integer', description: `Rows to return, at most ${MAX_LIMIT}. Defaults to ${DEFAULT_LIMIT}` }
+      }
+    }
+  },
+  {
+    name: 'get_company',
+    description: 'Full details for one company by name: description, industries, investors, funding rounds and scores.',
+    parameters: {
+      type: 'object',
+      properties: { name: { type: 'string' } },
+      required: ['name']
+    }
+  },
+  {
+    name: 'search_investors',
+    description: 'Ranks the investors found in the dataset, optionally filtered by name, theme or deal count.',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Part of the investor name' },
+        theme: { type: 'string', description: 'Only investors with at least one portfolio company in this theme' },
+        min_deals: { type: 'integer' },
+        sort_by: { type: 'string', enum: INVESTOR_SORTS, description: 'Defaults to deal_count. Scores are the mean and median comprehensive score of the portfolio' },
+        limit: { type: 'integer', description: `At most ${MAX_LIMIT}. Defaults to ${DEFAULT_LIMIT}` }
+      }
+    }
+  },
+  {
+    name: 'get_investor',
+    description: 'One investor\'s metrics and full portfolio, with the role they played in each deal.',
+    parameters: {
+      type: 'object',
+      properties: { name: { type: 'string' } },
+      required: ['name']
+    }
+  },
+  {
+    name: 'get_theme_trends',
+    description: 'Per theme: how many companies match, their mean comprehensive score, and the share of companies founded each year that match it.',
+    parameters: {
+      type: 'object',
+      properties: {
+        themes: { type: 'array', items: { type: 'string' }, description: 'Theme names; all themes when left out' }
+      }
+    }
+  },
+  {
+    name: 'dataset_overview',
+    description: 'Counts, the theme list, the most common funding types and locations, and the founding year range. Use it to find valid filter values.',
+    parameters: { type: 'object', properties: {} }
+  }
+];
+
+// Helpers: models sometimes send numbers as strings, or a single value where a list was asked for
+const toNumber = (value: unknown): number | undefined => {
+  const n = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+  return isNaN(n) ? undefined : n;
+};
+
+const toText = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+
+const toList = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : [value]).map(toText).filter((v): v is string => v !== undefined);
+
+const toLimit = (value: unknown) => Math.min(MAX_LIMIT, Math.max(1, Math.round(toNumber(value) ?? DEFAULT_LIMIT)));
+
+const round = (value: number, digits = 0) => Number(value.toFixed(digits));
+
+// Helper: "2014-03-01" or "2014" -> 2014
+const foundedYear = (company: ScoredCompany) => {
+  const match = (company["Founded Date"] || "").match(/\d{4}/);
+  return match ? parseInt(match[0], 10) : undefined;
+};
+
+// Whole-word match on investor keys, so "BDC" finds "BDC Capital" but not "ABDC"
+const matchesInvestor = (names: string[], query: string) => {
+  const key = ` ${investorKey(query)} `;
+  return names.some(name => ` ${investorKey(name)} `.includes(key));
+};
+
+// Helper: "Toronto, Ontario, Canada" -> "Ontario, Canada"
+const regionOf = (location: string) => location.split(',').map(p => p.trim()).filter(Boolean).slice(-2).join(', ');
+
+const countValues = (values: string[]) => {
+  const counts = new Map<string, number>();
+  values.filter(Boolean).forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, MAX_OVERVIEW_VALUES).map(([value, count]) => ({ value, count }));
+};
+
+/**
+ * The local query API behind the dataset chat. The model only sees what its
+ * tool calls return (a few rows at a time), never the whole dataset. Bad
+ * arguments come back as an `error` the model can read and correct, rather
+ * than failing the conversation.
+ */
+export const createDatasetQuery = (dataset: QueryDataset, themes: ThemeDefinition[]): DatasetQuery => {
+  const { companies, investors, trends } = dataset;
+  const themeName = (id: string) => themes.find(t => t.id === id)?.name || id;
+  const rankOf = new Map(companies.map((c, i) => [c.id, i + 1]));
+  const byId = new Map(companies.map(c => [c.id, c]));
+  const byName = new Map<string, ScoredCompany>();
+  companies.forEach(c => {
+    const key = foldAccents(c["Organization Name"]);
+    if (!byName.has(key)) byName.set(key, c);
+  });
+  const searchText = new Map(companies.map(c => [c.id, foldAccents([c["Organization Name"], c["Description"], c["Full Description"], c["Industries"]].join(' '))]));
+
+  // "climate" finds "Climate Tech"; ids work too
+  const resolveTheme = (query: string) => {
+    const folded = foldAccents(query);
+    return themes.find(t => t.id === query || foldAccents(t.name) === folded) || themes.find(t => foldAccents(t.name).includes(folded));
+  };
+
+  const unknownThemeError = (query: string): DatasetToolResult => ({
+    content: { error: `Unknown theme "${query}"`, known_themes: themes.map(t => t.name) },
+    companyIds: []
+  });
+
+  const companyRow = (c: ScoredCompany) => ({
+    rank: rankOf.get(c.id),
+    name: c["Organization Name"],
+    headquarters: c["Headquarters Location"] || null,
+    last_funding_type: c["Last Funding Type"] || null,
+    founded: foundedYear(c) ?? null,
+    total_funding_usd: c.fundingUSD || null,
+    operating_status: c.acquisitionStatus?.label || c["Operating Status"] || null,
+    themes: c.themes.map(themeName),
+    lead_investors: c.leadInvestors,
+    investors: c.investors.slice(0, MAX_LISTED_INVESTORS),
+    scores: Object.fromEntries(SCORE_ARGS.map(key => [key, round(c.scores[SCORE_KEYS[key]])]))
+  });
+
+  const investorRow = (i: InvestorStat) => ({
+    name: i.name,
+    deal_count: i.count,
+    lead_count: i.leadCount,
+    lead_share: round(i.leadShare, 2),
+    avg_score: round(i.avgScore),
+    median_score: round(i.medianScore),
+    exit_share: round(i.exitShare, 2),
+    top_themes: i.topThemes.map(themeName),
+    stage_mix: i.stageMix
+  });
+
+  const findCompanies = (name: string) => {
+    const folded = foldAccents(name);
+    const exact = byName.get(folded);
+    return exact ? [exact] : companies.filter(c => foldAccents(c["Organization Name"]).includes(folded));
+  };
+
+  const findInvestors = (name: string) => {
+    const key = investorKey(name);
+    const exact = investors.find(i => investorKey(i.name) === key);
+    return exact ? [exact] : investors.filter(i => matchesInvestor([i.name], name));
+  };
+
+  const searchCompanies = (args: Args): DatasetToolResult => {
+    const themeQueries = toList(args.themes);
+    const themeIds = new Set<string>();
+    for (const query of themeQueries) {
+      const theme = resolveTheme(query);
+      if (!theme) return unknownThemeError(query);
+      themeIds.add(theme.id);
+    }
+    const words = foldAccents(toText(args.text) || '').split(/\s+/).filter(Boolean);
+    const stages = toList(args.stages).map(foldAccents);
+    const location = toText(args.location);
+    const investor = toText(args.investor);
+    const leadInvestor = toText(args.lead_investor);
+    const status = toText(args.operating_status);
+    const minScores = (args.min_scores || {}) as Args;
+    const maxScores = (args.max_scores || {}) as Args;
+    const minFunding = toNumber(args.min_total_funding_usd);
+    const maxFunding = toNumber(args.max_total_funding_usd);
+    const foundedAfter = toNumber(args.founded_after);
+    const foundedBefore = toNumber(args.founded_before);
+
+    const matches = companies.filter(c => {
+      if (words.length > 0 && !words.every(w => searchText.get(c.id)!.includes(w))) return false;
+      if (themeIds.size > 0 && !c.themes.some(id => themeIds.has(id))) return false;
+      if (stages.length > 0 && !stages.some(s => foldAccents(c["Last Funding Type"] || '').includes(s))) return false;
+      if (location && !foldAccents(c["Headquarters Location"] || '').includes(foldAccents(location))) return false;
+      if (investor && !matchesInvestor(c.investors, investor)) return false;
+      if (leadInvestor && !matchesInvestor(c.leadInvestors, leadInvestor)) return false;
+      if (status && !foldAccents([c["Operating Status"], c.acquisitionStatus?.label].join(' ')).includes(foldAccents(status))) return false;
+      for (const key of SCORE_ARGS) {
+        const score = c.scores[SCORE_KEYS[key]];
+        const min = toNumber(minScores[key]);
+        const max = toNumber(maxScores[key]);
+        if ((min !== undefined && score < min) || (max !== undefined && score > max)) return false;
+      }
+      if (minFunding !== undefined && c.fundingUSD < minFunding) return false;
+      if (maxFunding !== undefined && c.fundingUSD > maxFunding) return false;
+      if (foundedAfter !== undefined || foundedBefore !== undefined) {
+        const year = foundedYear(c);
+        if (year === undefined || (foundedAfter !== undefined && year < foundedAfter) || (foundedBefore !== undefined && year > foundedBefore)) return false;
+      }
+      return true;
+    });
+
+    const sortBy = toText(args.sort_by);
+    if (sortBy && sortBy !== 'rank') {
+      const value = (c: ScoredCompany) =>
+        sortBy === 'total_funding' ? c.fundingUSD
+        : sortBy === 'founded' ? foundedYear(c) ?? -Infinity
+        : c.scores[SCORE_KEYS[sortBy as ScoreArg] || 'comprehensive'];
+      matches.sort((a, b) => value(b) - value(a));
+    }
+
+    const limit = toLimit(args.limit);
+    return {
+      content: { total_matches: matches.length, returned: Math.min(limit, matches.length), companies: matches.slice(0, limit).map(companyRow) },
+      companyIds: matches.map(c => c.id)
+    };
+  };
+
+  const getCompany = (args: Args): DatasetToolResult => {
+    const name = toText(args.name);
+    const found = name ? findCompanies(name) : [];
+    if (found.length === 0) return { content: { error: `No company named "${name || ''}"` }, companyIds: [] };
+    if (found.length > 1) {
+      return {
+        content: { error: `"${name}" matches several companies; ask for one of them`, matches: found.slice(0, MAX_AMBIGUOUS_MATCHES).map(c => c["Organization Name"]) },
+        companyIds: found.map(c => c.id)
+      };
+    }
+    const c = found[0];
+    const description = c["Full Description"] || c["Description"] || '';
+    return {
+      content: {
+        ...companyRow(c),
+        investors: c.investors,
+        description: description.length > MAX_DESCRIPTION_LENGTH ? `${description.slice(0, MAX_DESCRIPTION_LENGTH)}…` : description,
+        industries: c["Industries"] || null,
+        employees: c["Number of Employees"] || null,
+        funding_rounds: c["Number of Funding Rounds"] || null,
+        acquired_by: c["Acquired by"] || null,
+        funding_timeline: c.fundingTimeline?.map(entry => ({
+          type: entry.fundingType,
+          date: entry.date ? new Date(entry.date).toISOString().slice(0, 10) : null,
+          amount_usd: entry.amountUSD || null,
+          lead_investors: entry.leadInvestors
+        })) || null
+      },
+      companyIds: [c.id]
+    };
+  };
+
+  const searchInvestors = (args: Args): DatasetToolResult => {
+    const name = toText(args.name);
+    const themeQuery = toText(args.theme);
+    const theme = themeQuery ? resolveTheme(themeQuery) : undefined;
+    if (themeQuery && !theme) return unknownThemeError(themeQuery);
+    const minDeals = toNumber(args.min_deals) ?? 0;
+
+    const dealsInTheme = (i: InvestorStat) => theme ? i.portfolio.filter(p => p.themes.includes(theme.id)).length : undefined;
+    const matches = investors.filter(i =>
+      i.count >= minDeals && (!name || matchesInvestor([i.name], name)) && (!theme || dealsInTheme(i)! > 0)
+    );
+
+    const sortValue: Record<string, (i: InvestorStat) => number> = {
+      deal_count: i => i.count,
+      lead_count: i => i.leadCount,
+      avg_score: i => i.avgScore,
+      median_score: i => i.medianScore,
+      exit_share: i => i.exitShare,
+      lead_share: i => i.leadShare
+    };
+    const value = sortValue[toText(args.sort_by) || ''] || sortValue.deal_count;
+    matches.sort((a, b) => value(b) - value(a));
+
+    const limit = toLimit(args.limit);
+    return {
+      content: {
+        total_matches: matches.length,
+        returned: Math.min(limit, matches.length),
+        investors: matches.slice(0, limit).map(i => ({ ...investorRow(i), ...(theme ? { deals_in_theme: dealsInTheme(i) } : {}) }))
+      },
+      companyIds: []
+    };
+  };
+
+  const getInvestor = (args: Args): DatasetToolResult => {
+    const name = toText(args.name);
+    const found = name ? findInvestors(name) : [];
+    if (found.length === 0) return { content: { error: `No investor named "${name || ''}"` }, companyIds: [] };
+    if (found.length > 1) {
+      return { content: { error: `"${name}" matches several investors; ask for one of them`, matches: found.slice(0, MAX_AMBIGUOUS_MATCHES).map(i => i.name) }, companyIds: [] };
+    }
+    const investor = found[0];
+    const portfolio = investor.portfolio.map(p => ({ company: byName.get(foldAccents(p.name)), item: p }));
+    return {
+      content: {
+        ...investorRow(investor),
+        portfolio: portfolio.map(({ company, item }) => ({
+          name: item.name,
+          role: item.role,
+          themes: item.themes.map(themeName),
+          comprehensive_score: company ? round(company.scores.comprehensive) : null
+        }))
+      },
+      companyIds: portfolio.filter(p => p.company).map(p => p.company!.id)
+    };
+  };
+
+  const getThemeTrends = (args: Args): DatasetToolResult => {
+    const picked: ThemeDefinition[] = [];
+    for (const query of toList(args.themes)) {
+      const theme = resolveTheme(query);
+      if (!theme) return unknownThemeError(query);
+      picked.push(theme);
+    }
+    return {
+      content: {
+        themes: (picked.length > 0 ? picked : themes).map(theme => {
+          const members = companies.filter(c => c.themes.includes(theme.id));
+          return {
+            name: theme.name,
+            companies: members.length,
+            avg_comprehensive_score: members.length ? round(members.reduce((sum, c) => sum + c.scores.comprehensive, 0) / members.length) : null,
+            share_by_founding_year: Object.fromEntries(trends.filter(t => typeof t[theme.id] === 'number').map(t => [t.year, round(t[theme.id], 1)]))
+          };
+        })
+      },
+      companyIds: []
+    };
+  };
+
+  const datasetOverview = (): DatasetToolResult => {
+    const years = companies.map(foundedYear).filter((y): y is number => y !== undefined);
+    return {
+      content: {
+        companies: companies.length,
+        investors: investors.length,
+        total_funding_usd: companies.reduce((sum, c) => sum + c.fundingUSD, 0),
+        founded_years: years.length ? { earliest: Math.min(...years), latest: Math.max(...years) } : null,
+        themes: themes.map(theme => ({ name: theme.name, companies: companies.filter(c => c.themes.includes(theme.id)).length })),
+        last_funding_types: countValues(companies.map(c => c["Last Funding Type"] || '')),
+        locations: countValues(companies.map(c => regionOf(c["Headquarters Location"] || ''))),
+        scores: 'Every score is 0-100; rank orders companies by the comprehensive score'
+      },
+      companyIds: []
+    };
+  };
+
+  const handlers: Record<string, (args: Args) => DatasetToolResult> = {
+    search_companies: searchCompanies,
+    get_company: getCompany,
+    search_investors: searchInvestors,
+    get_investor: getInvestor,
+    get_theme_trends: getThemeTrends,
+    dataset_overview: datasetOverview
+  };
+
+  const run = (call: ChatToolCall): DatasetToolResult => {
+    const handler = handlers[call.name];
+    if (!handler) return { content: { error: `Unknown tool "${call.name}"` }, companyIds: [] };
+    return handler(call.args || {});
+  };
+
+  const mentionedCompanies = (text: string, ids: string[]) => {
+    const folded = foldAccents(text);
+    return [...new Set(ids)].filter(id => {
+      const name = foldAccents(byId.get(id)?.["Organization Name"] || '');
+      return name.length >= MIN_MENTION_LENGTH && folded.includes(name);
+    });
+  };
+
+  return { tools: TOOL_DEFINITIONS, run, mentionedCompanies, size: { companies: companies.length, investors: investors.length } };
+};
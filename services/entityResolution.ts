@@ -0,0 +1,235 @@
+import { RawCompanyData, SourcedRecord, DuplicateGroup, DuplicateAnalysis, MergeStrategy } from '../types';
+
+// Trailing tokens that don't distinguish one company from another
+export const LEGAL_SUFFIXES = new Set([
+  'inc', 'incorporated', 'ltd', 'limited', 'llc', 'llp', 'lp', 'corp', 'corporation', 'co', 'company',
+  'gmbh', 'ag', 'sa', 'sas', 'sarl', 'srl', 'bv', 'nv', 'plc', 'pty', 'oy', 'ab', 'ulc', 'ltee'
+]);
+
+// Investor lists are combined across duplicates instead of picking one side
+const LIST_FIELDS = ["Top 5 Investors", "Lead Investors", "Investors"];
+
+const MIN_NAME_SIMILARITY = 0.75;
+
+const foldText = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// Helper: "Acme Robotics, Inc." -> "acme robotics"
+export const normalizeCompanyName = (name: string | undefined): string => {
+  const tokens = foldText(name || '').replace(/\./g, '').replace(/&/g, ' and ').replace(/[^a-z0-9]+/g, ' ').trim().split(' ').filter(Boolean);
+  if (tokens[0] === 'the' && tokens.length > 1) tokens.shift();
+  while (tokens.length > 1 && LEGAL_SUFFIXES.has(tokens[tokens.length - 1])) tokens.pop();
+  return tokens.join(' ');
+};
+
+/**
+ * Identity key from "Organization Name URL". Crunchbase and LinkedIn links
+ * share one host across companies, so their profile slug is used instead.
+ */
+export const companyUrlKey = (url: string | undefined): string | undefined => {
+  const cleaned = (url || '').trim().toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/^www\./, '');
+  if (!cleaned) return undefined;
+  const [host, ...path] = cleaned.split(/[/?#]/).filter(Boolean);
+  if (!host || !host.includes('.')) return undefined;
+
+  if (host.endsWith('crunchbase.com') || host.endsWith('linkedin.com')) {
+    const idx = path.findIndex(p => p === 'organization' || p === 'company');
+    return idx >= 0 && path[idx + 1] ? `${host}/${path[idx + 1]}` : undefined;
+  }
+  return host;
+};
+
+// Helper: "Toronto, Ontario, Canada" -> "toronto"
+const normalizeHQ = (location: string | undefined): string => foldText((location || '').split(',')[0]).trim();
+
+const nameSimilarity = (a: string, b: string) => {
+  if (a.replace(/ /g, '') === b.replace(/ /g, '')) return 1;
+  const ta = new Set(a.split(' '));
+  const tb = new Set(b.split(' '));
+  let shared = 0;
+  ta.forEach(tok => { if (tb.has(tok)) shared++; });
+  return shared / (ta.size + tb.size - shared);
+};
+
+// Minimal union-find over record indexes
+const createClusters = (size: number) => {
+  const parent = Array.from({ length: size }, (_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    const ra = find(a);
+    const rb = find(b);
+    // Keep the earliest record as root so cluster ids follow upload order
+    if (ra !== rb) parent[Math.max(ra, rb)] = Math.min(ra, rb);
+  };
+  return { find, union };
+};
+
+const groupBy = <T>(items: T[], key: (item: T) => string | undefined) => {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => {
+    const k = key(item);
+    if (!k) return;
+    if (!groups.has(k)) groups.set(k, []);
+    groups.get(k)!.push(item);
+  });
+  return groups;
+};
+
+/**
+ * Finds rows that describe the same company. Matching website keys, or an
+ * identical normalised name with no conflicting HQ, are treated as certain.
+ * The same name in a different HQ, or a near-identical name in the same HQ,
+ * is only reported as ambiguous. Two different websites always mean two
+ * different companies.
+ */
+export const findDuplicates = (records: SourcedRecord[]): DuplicateAnalysis => {
+  const keys = records.map((r, idx) => ({
+    idx,
+    name: normalizeCompanyName(r.row["Organization Name"]),
+    url: companyUrlKey(r.row["Organization Name URL"]),
+    hq: normalizeHQ(r.row["Headquarters Location"])
+  }));
+  const urlConflict = (a: typeof keys[number], b: typeof keys[number]) => !!a.url && !!b.url && a.url !== b.url;
+
+  const clusters = createClusters(records.length);
+  // Website key per cluster, so a row without one can't chain two different companies together
+  const clusterUrl = new Map<number, string>();
+  keys.forEach(k => { if (k.url) clusterUrl.set(k.idx, k.url); });
+  const joinClusters = (a: number, b: number) => {
+    const ua = clusterUrl.get(clusters.find(a));
+    const ub = clusterUrl.get(clusters.find(b));
+    if (ua && ub && ua !== ub) return false;
+    clusters.union(a, b);
+    if (ua || ub) clusterUrl.set(clusters.find(a), (ua || ub)!);
+    return true;
+  };
+  const edges: { a: number, b: number, reason: string }[] = [];
+  const possible: { a: number, b: number, reason: string }[] = [];
+
+  // 1. Same website
+  groupBy(keys, k => k.url).forEach(group => {
+    group.slice(1).forEach(k => {
+      joinClusters(group[0].idx, k.idx);
+      edges.push({ a: group[0].idx, b: k.idx, reason: 'Same website' });
+    });
+  });
+
+  // 2. Same normalised name
+  groupBy(keys, k => k.name || undefined).forEach(group => {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        const a = group[i], b = group[j];
+        if (urlConflict(a, b)) continue;
+        if (!a.hq || !b.hq || a.hq === b.hq) {
+          if (joinClusters(a.idx, b.idx)) edges.push({ a: a.idx, b: b.idx, reason: a.hq && b.hq ? 'Same name and HQ' : 'Same name' });
+        } else {
+          possible.push({ a: a.idx, b: b.idx, reason: 'Same name, different HQ' });
+        }
+      }
+    }
+  });
+
+  // 3. Similar names in the same HQ, blocked on the first letters of the name
+  groupBy(keys, k => k.hq && k.name ? `${k.hq}|${k.name.replace(/ /g, '').substring(0, 4)}` : undefined).forEach(group => {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        const a = group[i], b = group[j];
+        if (a.name === b.name || urlConflict(a, b)) continue;
+        if (nameSimilarity(a.name, b.name) >= MIN_NAME_SIMILARITY) {
+          possible.push({ a: a.idx, b: b.idx, reason: 'Similar name, same HQ' });
+        }
+      }
+    }
+  });
+
+  const membersOf = new Map<number, number[]>();
+  keys.forEach(k => {
+    const root = clusters.find(k.idx);
+    if (!membersOf.has(root)) membersOf.set(root, []);
+    membersOf.get(root)!.push(k.idx);
+  });
+
+  const matches: DuplicateGroup[] = [];
+  groupBy(edges, e => String(clusters.find(e.a))).forEach((clusterEdges, root) => {
+    matches.push({
+      id: `match-${root}`,
+      reason: [...new Set(clusterEdges.map(e => e.reason))].join(', '),
+      members: membersOf.get(Number(root))!
+    });
+  });
+
+  // Possible matches are reported once per pair of clusters
+  const ambiguous = new Map<string, DuplicateGroup>();
+  possible.forEach(p => {
+    const ra = clusters.find(p.a);
+    const rb = clusters.find(p.b);
+    if (ra === rb) return;
+    const id = `maybe-${Math.min(ra, rb)}-${Math.max(ra, rb)}`;
+    if (ambiguous.has(id)) return;
+    ambiguous.set(id, {
+      id,
+      reason: p.reason,
+      members: [...membersOf.get(ra)!, ...membersOf.get(rb)!].sort((x, y) => x - y)
+    });
+  });
+
+  return { matches, ambiguous: Array.from(ambiguous.values()) };
+};
+
+const isFilled = (value: unknown) => typeof value === 'string' ? value.trim().length > 0 : value !== undefined && value !== null;
+
+/**
+ * Combines duplicate rows into one. Each field takes the first filled value
+ * in priority order: upload order for preferFirst, reverse upload order for
+ * preferLatest, and most filled-in row first for preferMostComplete.
+ */
+export const mergeRecords = (rows: RawCompanyData[], strategy: MergeStrategy): RawCompanyData => {
+  let ordered = rows;
+  if (strategy === 'preferLatest') ordered = [...rows].reverse();
+  if (strategy === 'preferMostComplete') {
+    const filledCount = (row: RawCompanyData) => Object.values(row).filter(isFilled).length;
+    ordered = [...rows].sort((a, b) => filledCount(b) - filledCount(a));
+  }
+
+  const merged: Record<string, any> = {};
+  ordered.forEach(row => {
+    Object.entries(row).forEach(([key, value]) => {
+      if (!isFilled(merged[key]) && isFilled(value)) merged[key] = value;
+    });
+  });
+
+  LIST_FIELDS.forEach(field => {
+    const seen = new Set<string>();
+    const names: string[] = [];
+    ordered.forEach(row => {
+      (row[field] || '').split(',').map((s: string) => s.trim()).filter(Boolean).forEach((name: string) => {
+        if (seen.has(name.toLowerCase())) return;
+        seen.add(name.toLowerCase());
+        names.push(name);
+      });
+    });
+    if (names.length > 0) merged[field] = names.join(', ');
+  });
+
+  return merged as RawCompanyData;
+};
+
+// Merges each confirmed group and keeps every other record as-is, in upload order
+export const mergeDuplicates = (records: SourcedRecord[], groups: DuplicateGroup[], strategy: MergeStrategy): RawCompanyData[] => {
+  const clusters = createClusters(records.length);
+  groups.forEach(g => g.members.slice(1).forEach(m => clusters.union(g.members[0], m)));
+
+  const byRoot = new Map<number, RawCompanyData[]>();
+  records.forEach((r, idx) => {
+    const root = clusters.find(idx);
+    if (!byRoot.has(root)) byRoot.set(root, []);
+    byRoot.get(root)!.push(r.row);
+  });
+
+  return Array.from(byRoot.values()).map(rows => rows.length === 1 ? rows[0] : mergeRecords(rows, strategy));
+};
@@ -0,0 +1,96 @@
+import { RawCompanyData, FundingRound, FundingTimelineEntry, FXRates } from '../types';
+import { companyUrlKey, normalizeCompanyName } from './entityResolution';
+import { resolveMoneyUSD } from './currency';
+import { splitInvestorList } from './investorAliases';
+
+// Columns of a Crunchbase "Funding Rounds" export; any one of these next to an organisation name marks the file
+const ROUND_MARKER_COLUMNS = ["Announced Date", "Money Raised", "Money Raised (in USD)", "Funding Type"];
+// An organisations export carries these, so it is never mistaken for a rounds file
+const ORGANISATION_MARKER_COLUMNS = ["Number of Funding Rounds", "CB Rank (Company)", "Total Funding Amount", "Total Funding Amount (in USD)"];
+
+// Rounds older than this many months between them, or since the last one, score 0
+const CADENCE_HORIZON_MONTHS = 36;
+const RECENCY_HORIZON_MONTHS = 48;
+const MS_PER_MONTH = 1000 * 60 * 60 * 24 * 30.44;
+
+export const isFundingRoundsFile = (headers: string[]) =>
+  headers.includes("Organization Name") &&
+  ROUND_MARKER_COLUMNS.filter(c => headers.includes(c)).length >= 2 &&
+  !ORGANISATION_MARKER_COLUMNS.some(c => headers.includes(c));
+
+export const parseFundingRounds = (rows: Record<string, string>[]): FundingRound[] => rows
+  .filter(row => (row["Organization Name"] || "").trim())
+  .map(row => ({
+    organizationName: row["Organization Name"].trim(),
+    organizationUrl: row["Organization Name URL"] || undefined,
+    fundingType: row["Funding Type"] || row["Transaction Name"] || "Unknown",
+    announcedDate: row["Announced Date"] || undefined,
+    moneyRaised: row["Money Raised"] || undefined,
+    moneyRaisedCurrency: row["Money Raised Currency"] || undefined,
+    moneyRaisedUSD: row["Money Raised (in USD)"] || undefined,
+    leadInvestors: splitInvestorList(row["Lead Investors"]),
+    investors: splitInvestorList(row["Investor Names"] || row["Investors"])
+  }));
+
+/**
+ * Indexes rounds by organisation URL and by normalised name. A company gets
+ * the rounds with its URL plus same-name rounds that carry no URL, so two
+ * companies sharing a name don't swap histories.
+ */
+export const createRoundsIndex = (rounds: FundingRound[]) => {
+  const byUrl = new Map<string, FundingRound[]>();
+  const byName = new Map<string, FundingRound[]>();
+  const add = (map: Map<string, FundingRound[]>, key: string | undefined, round: FundingRound) => {
+    if (!key) return;
+    if (!map.has(key)) map.set(key, []);
+    map.get(key)!.push(round);
+  };
+  rounds.forEach(round => {
+    add(byUrl, companyUrlKey(round.organizationUrl), round);
+    add(byName, normalizeCompanyName(round.organizationName) || undefined, round);
+  });
+
+  return (row: RawCompanyData): FundingRound[] => {
+    const urlKey = companyUrlKey(row["Organization Name URL"]);
+    const named = byName.get(normalizeCompanyName(row["Organization Name"])) || [];
+    if (!urlKey) return named;
+    return [...(byUrl.get(urlKey) || []), ...named.filter(round => !companyUrlKey(round.organizationUrl))];
+  };
+};
+
+export const buildTimeline = (rounds: FundingRound[], rates: FXRates): FundingTimelineEntry[] => rounds
+  .map(round => {
+    const date = round.announcedDate ? Date.parse(round.announcedDate) : NaN;
+    return {
+      fundingType: round.fundingType,
+      date: isNaN(date) ? undefined : date,
+      amountUSD: resolveMoneyUSD(round.moneyRaisedUSD, round.moneyRaised, round.moneyRaisedCurrency, rates),
+      leadInvestors: round.leadInvestors,
+      investors: round.investors
+    };
+  })
+  .sort((a, b) => (a.date ?? -Infinity) - (b.date ?? -Infinity));
+
+const datedRounds = (timeline: FundingTimelineEntry[]) =>
+  timeline.map(r => r.date).filter((d): d is number => d !== undefined);
+
+// Median months between consecutive dated rounds; null with fewer than two
+export const roundCadenceMonths = (timeline: FundingTimelineEntry[]): number | null => {
+  const dates = datedRounds(timeline);
+  if (dates.length < 2) return null;
+  const gaps = dates.slice(1).map((d, i) => (d - dates[i]) / MS_PER_MONTH).sort((a, b) => a - b);
+  const mid = Math.floor(gaps.length / 2);
+  return gaps.length % 2 !== 0 ? gaps[mid] : (gaps[mid - 1] + gaps[mid]) / 2;
+};
+
+export const monthsSinceLastRound = (timeline: FundingTimelineEntry[], now = Date.now()): number | null => {
+  const dates = datedRounds(timeline);
+  return dates.length > 0 ? Math.max(0, (now - dates[dates.length - 1]) / MS_PER_MONTH) : null;
+};
+
+// Fixed scales (like employees), so a company's score doesn't depend on who else is in the batch
+export const scoreCadence = (months: number | null) =>
+  months === null ? 0 : Math.max(0, 1 - months / CADENCE_HORIZON_MONTHS);
+
+export const scoreRecency = (months: number | null) =>
+  months === null ? 0 : Math.max(0, 1 - months / RECENCY_HORIZON_MONTHS);
@@ -0,0 +1,79 @@
+import { CSVParseResult, ImportIssue, ImportReport, RawCompanyData } from '../types';
+
+// Every column the scoring engine and UI know how to read (mirrors RawCompanyData)
+export const KNOWN_COLUMNS = [
+  "Organization Name",
+  "Organization Name URL",
+  "Last Funding Type",
+  "Full Description",
+  "Description",
+  "Headquarters Location",
+  "CB Rank (Company)",
+  "Number of Founders",
+  "Number of Employees",
+  "Total Funding Amount",
+  "Total Funding Amount Currency",
+  "Total Funding Amount (in USD)",
+  "Number of Funding Rounds",
+  "Number of Articles",
+  "Operating Status",
+  "Founded Date",
+  "Top 5 Investors",
+  "Lead Investors",
+  "Investors",
+  "Acquired by",
+  "Exit Date",
+  "Closed Date",
+  "Industries"
+];
+
+// Rows cannot be identified without these
+export const REQUIRED_COLUMNS = ["Organization Name"];
+
+// Helper: Validate a parsed file and split it into accepted rows plus a report
+export const buildImportReport = (fileName: string, result: CSVParseResult): { report: ImportReport, rows: RawCompanyData[] } => {
+  const headerSet = new Set(result.headers);
+  const missingRequiredColumns = REQUIRED_COLUMNS.filter(c => !headerSet.has(c));
+  const missingOptionalColumns = KNOWN_COLUMNS.filter(c => !headerSet.has(c) && !REQUIRED_COLUMNS.includes(c));
+  const unrecognisedColumns = result.headers.filter(h => !KNOWN_COLUMNS.includes(h));
+
+  const rejected: ImportIssue[] = [];
+  const warnings: ImportIssue[] = [];
+
+  result.diagnostics.forEach(d => {
+    (d.severity === 'error' ? rejected : warnings).push({ line: d.line, reason: d.message });
+  });
+
+  const rows: RawCompanyData[] = [];
+
+  result.rows.forEach((row, idx) => {
+    const line = result.rowLines[idx];
+    if (missingRequiredColumns.length > 0) {
+      rejected.push({ line, reason: `Missing required column(s): ${missingRequiredColumns.join(', ')}` });
+      return;
+    }
+    if (!(row["Organization Name"] || "").trim()) {
+      rejected.push({ line, reason: 'Empty "Organization Name"' });
+      return;
+    }
+    rows.push(row as RawCompanyData);
+  });
+
+  rejected.sort((a, b) => a.line - b.line);
+  warnings.sort((a, b) => a.line - b.line);
+
+  return {
+    report: {
+      fileName,
+      delimiter: result.delimiter,
+      rowsRead: result.rowsRead,
+      rowsAccepted: rows.length,
+      rejected,
+      warnings,
+      unrecognisedColumns,
+      missingRequiredColumns,
+      missingOptionalColumns
+    },
+    rows
+  };
+};
@@ -0,0 +1,208 @@
+import { InvestorAliasDictionary, InvestorAliasSuggestion } from '../types';
+import { LEGAL_SUFFIXES } from './entityResolution';
+import { foldAccents } from './themeTaxonomy';
+
+const ALIASES_STORAGE_KEY = 'capital-compass.investorAliases';
+
+export const EMPTY_ALIASES: InvestorAliasDictionary = { aliases: {}, dismissed: [] };
+
+const FUND_WORDS = new Set(['fund', 'funds', 'fonds']);
+const FUND_NUMERAL = /^(?:\d+|i|ii|iii|iv|v|vi|vii|viii|ix|x|xi|xii)$/;
+
+// Words that often come and go in an investor's name ("Inovia" vs "Inovia Capital"); only ever suggested, never merged automatically
+const GENERIC_WORDS = new Set([
+  'capital', 'ventures', 'venture', 'partners', 'vc', 'investments', 'investment', 'management',
+  'group', 'holdings', 'equity', 'advisors', 'associates', 'fund', 'funds'
+]);
+
+const MIN_SPELLING_SIMILARITY = 0.85;
+const MIN_SPELLING_KEY_LENGTH = 5;
+const MAX_ALIAS_HOPS = 10;
+
+// Helper: Lower-case tokens without accents or punctuation; "&" reads as "and"
+const tokenize = (name: string) =>
+  foldAccents(name).replace(/\./g, '').replace(/&/g, ' and ').replace(/[^a-z0-9]+/g, ' ').trim().split(' ').filter(Boolean);
+
+/**
+ * Splits a comma-separated investor list. Quoted names keep their commas, and
+ * a fragment that is only a legal suffix ("Inovia Capital, Inc.") is joined
+ * back onto the name before it.
+ */
+export const splitInvestorList = (value: string | undefined): string[] => {
+  const names: string[] = [];
+  for (const match of (value || "").matchAll(/\s*"([^"]*)"\s*|([^,]+)/g)) {
+    const quoted = match[1] !== undefined;
+    const name = (quoted ? match[1] : match[2]).trim();
+    if (!name) continue;
+    const tokens = tokenize(name);
+    if (!quoted && names.length > 0 && tokens.length > 0 && tokens.every(t => LEGAL_SUFFIXES.has(t))) {
+      names[names.length - 1] = `${names[names.length - 1]}, ${name}`;
+    } else {
+      names.push(name);
+    }
+  }
+  return names;
+};
+
+/**
+ * Identity key for an investor: case, accents and punctuation are ignored, and
+ * trailing legal suffixes and fund vehicles are dropped, so "iNovia Capital Inc."
+ * and "Inovia Capital Fund II, L.P." both become "inovia capital". A bare
+ * trailing "Fund" only goes after a generic word ("X Ventures Fund"), so
+ * "Founders Fund" keeps its name.
+ */
+export const investorKey = (name: string | undefined): string => {
+  const tokens = tokenize(name || '');
+  if (tokens[0] === 'the' && tokens.length > 1) tokens.shift();
+  while (tokens.length > 1) {
+    const last = tokens[tokens.length - 1];
+    const previous = tokens[tokens.length - 2];
+    if (LEGAL_SUFFIXES.has(last)) tokens.pop();
+    else if (FUND_NUMERAL.test(last) && FUND_WORDS.has(previous)) tokens.pop();
+    else if (FUND_WORDS.has(last) && GENERIC_WORDS.has(previous) && !FUND_WORDS.has(previous)) tokens.pop();
+    else break;
+  }
+  return tokens.join(' ');
+};
+
+// Helper: "inovia capital" -> "inovia"; empty when the name is nothing but generic words
+const coreKey = (key: string) => {
+  const tokens = key.split(' ');
+  while (tokens.length > 0 && GENERIC_WORDS.has(tokens[tokens.length - 1])) tokens.pop();
+  return tokens.join(' ');
+};
+
+const levenshtein = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+export interface InvestorVariantGroup {
+  key: string;
+  canonical: string; // Most frequent spelling; the shortest on a tie, which is usually the one without a suffix
+  variants: string[];
+  count: number; // Mentions across the dataset
+}
+
+// Spellings that share an investorKey and are merged without asking
+export const groupInvestorVariants = (names: string[]): InvestorVariantGroup[] => {
+  const groups = new Map<string, Map<string, number>>();
+  names.forEach(raw => {
+    const name = raw.trim().replace(/\s+/g, ' ');
+    const key = investorKey(name);
+    if (!key) return;
+    if (!groups.has(key)) groups.set(key, new Map());
+    const variants = groups.get(key)!;
+    variants.set(name, (variants.get(name) || 0) + 1);
+  });
+
+  return [...groups.entries()].map(([key, variants]) => {
+    let canonical = '';
+    let best = 0;
+    variants.forEach((n, name) => {
+      if (n > best || (n === best && name.length < canonical.length)) {
+        canonical = name;
+        best = n;
+      }
+    });
+    return { key, canonical, variants: [...variants.keys()], count: [...variants.values()].reduce((a, b) => a + b, 0) };
+  });
+};
+
+/**
+ * Maps any spelling to the investor it resolves to: automatic merges by key
+ * first, then the user's confirmed aliases (which may chain).
+ */
+export const createInvestorResolver = (names: string[], aliases: Record<string, string> = {}) => {
+  const canonicalByKey = new Map(groupInvestorVariants(names).map(g => [g.key, g.canonical]));
+  const cache = new Map<string, string>();
+
+  return (name: string): string => {
+    if (cache.has(name)) return cache.get(name)!;
+    let key = investorKey(name);
+    let resolved = canonicalByKey.get(key) || name.trim();
+    for (let hops = 0; aliases[key] && hops < MAX_ALIAS_HOPS; hops++) {
+      const target = aliases[key];
+      key = investorKey(target);
+      resolved = canonicalByKey.get(key) || target;
+    }
+    cache.set(name, resolved);
+    return resolved;
+  };
+};
+
+export const suggestionId = (a: string, b: string) => (a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`);
+
+/**
+ * Possible merges for the user to confirm: names that only differ by generic
+ * words ("Inovia" / "Inovia Capital") and near-identical spellings. The less
+ * frequent name is proposed as the alias of the more frequent one. Names the
+ * dictionary already maps, and pairs the user dismissed, are skipped.
+ */
+export const suggestInvestorAliases = (names: string[], dictionary: InvestorAliasDictionary): InvestorAliasSuggestion[] => {
+  const dismissed = new Set(dictionary.dismissed);
+  const groups = groupInvestorVariants(names)
+    .filter(g => !dictionary.aliases[g.key])
+    .sort((a, b) => b.count - a.count);
+  const suggestions = new Map<string, InvestorAliasSuggestion>();
+
+  // Groups are sorted by mentions, so `a` is always the more frequent side
+  const propose = (a: InvestorVariantGroup, b: InvestorVariantGroup, reason: InvestorAliasSuggestion['reason'], similarity: number) => {
+    const id = suggestionId(a.key, b.key);
+    if (dismissed.has(id) || suggestions.has(id)) return;
+    suggestions.set(id, { id, from: b.canonical, to: a.canonical, reason, similarity, mentions: a.count + b.count });
+  };
+
+  const byCore = new Map<string, InvestorVariantGroup[]>();
+  const byPrefix = new Map<string, InvestorVariantGroup[]>();
+  groups.forEach(g => {
+    const core = coreKey(g.key);
+    if (core.length >= 3) {
+      if (!byCore.has(core)) byCore.set(core, []);
+      byCore.get(core)!.push(g);
+    }
+    if (g.key.length >= MIN_SPELLING_KEY_LENGTH) {
+      const prefix = g.key.slice(0, 3);
+      if (!byPrefix.has(prefix)) byPrefix.set(prefix, []);
+      byPrefix.get(prefix)!.push(g);
+    }
+  });
+
+  byCore.forEach(members => members.slice(1).forEach(g => propose(members[0], g, 'generic_words', 1)));
+
+  // Only names sharing their first three letters are compared, which keeps this from going quadratic on big datasets
+  byPrefix.forEach(members => {
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const a = members[i].key;
+        const b = members[j].key;
+        if (Math.abs(a.length - b.length) > a.length * (1 - MIN_SPELLING_SIMILARITY)) continue;
+        const similarity = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+        if (similarity >= MIN_SPELLING_SIMILARITY) propose(members[i], members[j], 'spelling', similarity);
+      }
+    }
+  });
+
+  return [...suggestions.values()].sort((a, b) => b.mentions - a.mentions);
+};
+
+export const loadInvestorAliases = (): InvestorAliasDictionary => {
+  try {
+    const raw = localStorage.getItem(ALIASES_STORAGE_KEY);
+    return raw ? { ...EMPTY_ALIASES, ...JSON.parse(raw) } : EMPTY_ALIASES;
+  } catch (error) {
+    console.error("Failed to load investor aliases:", error);
+    return EMPTY_ALIASES;
+  }
+};
+
+export const saveInvestorAliases = (dictionary: InvestorAliasDictionary) => {
+  localStorage.setItem(ALIASES_STORAGE_KEY, JSON.stringify(dictionary));
+};
@@ -0,0 +1,106 @@
+import { NormalisationStrategy } from '../types';
+
+export interface NormaliserOptions {
+  bounds?: number[]; // Extra values folded into the min/max (keeps the original fixed floors and ceilings)
+  lowerIsBetter?: boolean; // e.g. CB Rank, where 1 is best
+}
+
+export const NORMALISATION_STRATEGIES: NormalisationStrategy[] = ['minmax', 'log', 'percentile', 'winsorisedZ'];
+
+export const NORMALISATION_LABELS: Record<NormalisationStrategy, string> = {
+  minmax: 'Min-max',
+  log: 'Log min-max',
+  percentile: 'Percentile rank',
+  winsorisedZ: 'Winsorised z-score'
+};
+
+const WINSOR_LOWER = 0.05;
+const WINSOR_UPPER = 0.95;
+
+// Math.min/max(...values) overflows the call stack on very large exports
+const extent = (values: number[]) => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const v of values) {
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  return { min, max };
+};
+
+const minMax = (values: number[], bounds: number[]) => {
+  const { min, max } = extent([...bounds, ...values]);
+  return (v: number) => max === min ? 0 : (v - min) / (max - min);
+};
+
+// Helper: Value at quantile q of an ascending array (linear interpolation)
+const quantile = (sorted: number[], q: number) => {
+  if (sorted.length === 0) return 0;
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
+// Helper: Count of entries below v (or at/below v when inclusive) in an ascending array
+const countBelow = (sorted: number[], v: number, inclusive = false) => {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (sorted[mid] < v || (inclusive && sorted[mid] === v)) lo = mid + 1; else hi = mid;
+  }
+  return lo;
+};
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26), maps a z-score onto 0-1
+const normalCDF = (z: number) => {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+const buildScaler = (values: number[], strategy: NormalisationStrategy, bounds: number[]): ((v: number) => number) => {
+  switch (strategy) {
+    case 'log': {
+      const scale = minMax(values.map(v => Math.log1p(Math.max(v, 0))), bounds.map(b => Math.log1p(Math.max(b, 0))));
+      return (v: number) => scale(Math.log1p(Math.max(v, 0)));
+    }
+    case 'percentile': {
+      const sorted = [...values].sort((a, b) => a - b);
+      // Mid-rank for ties, so identical values share one percentile
+      return (v: number) => {
+        if (sorted.length <= 1) return 0;
+        const below = countBelow(sorted, v);
+        const equal = countBelow(sorted, v, true) - below;
+        return (below + Math.max(equal - 1, 0) / 2) / (sorted.length - 1);
+      };
+    }
+    case 'winsorisedZ': {
+      const sorted = [...values].sort((a, b) => a - b);
+      const lo = quantile(sorted, WINSOR_LOWER);
+      const hi = quantile(sorted, WINSOR_UPPER);
+      const clip = (v: number) => Math.min(Math.max(v, lo), hi);
+      const clipped = values.map(clip);
+      const mean = clipped.reduce((a, b) => a + b, 0) / (clipped.length || 1);
+      const sd = Math.sqrt(clipped.reduce((a, b) => a + (b - mean) ** 2, 0) / (clipped.length || 1));
+      return (v: number) => sd === 0 ? 0.5 : normalCDF((clip(v) - mean) / sd);
+    }
+    case 'minmax':
+    default:
+      return minMax(values, bounds);
+  }
+};
+
+/**
+ * Returns a function mapping a raw value onto 0-1 relative to `values`
+ * using the chosen strategy. Min-max with the same bounds reproduces the
+ * original scaling exactly; the others damp the effect of outliers.
+ */
+export const createNormaliser = (values: number[], strategy: NormalisationStrategy, options: NormaliserOptions = {}) => {
+  const scale = buildScaler(values, strategy, options.bounds || []);
+  return (v: number) => {
+    const scaled = Math.min(Math.max(scale(v), 0), 1);
+    return options.lowerIsBetter ? 1 - scaled : scaled;
+  };
+};
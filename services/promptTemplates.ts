@@ -0,0 +1,271 @@
+import { ScoredCompany, InvestorStat, PromptTemplate, PromptTemplateKind, PromptTemplateField, AIMemo, AIResults } from '../types';
+import { formatMillions } from './currency';
+import { foldAccents } from './themeTaxonomy';
+
+const TEMPLATES_STORAGE_KEY = 'capital-compass.promptTemplates';
+const ACTIVE_STORAGE_KEY = 'capital-compass.activePromptTemplates';
+const EXPORT_VERSION = 1;
+
+export interface PromptVariable<T> {
+  name: string;
+  description: string;
+  value: (subject: T, themeName: (id: string) => string) => string;
+}
+
+const percent = (share: number) => `${(share * 100).toFixed(0)}%`;
+
+export const COMPANY_VARIABLES: PromptVariable<ScoredCompany>[] = [
+  { name: 'name', description: 'Organization Name', value: c => c["Organization Name"] },
+  { name: 'description', description: 'Full Description, or the short one', value: c => c["Full Description"] || c["Description"] || "Unknown" },
+  { name: 'industries', description: 'Industries', value: c => c["Industries"] || "Unknown" },
+  { name: 'stage', description: 'Last Funding Type', value: c => c["Last Funding Type"] || "Unknown" },
+  { name: 'employees', description: 'Number of Employees', value: c => c["Number of Employees"] || "Unknown" },
+  { name: 'headquarters', description: 'Headquarters Location', value: c => c["Headquarters Location"] || "Unknown" },
+  { name: 'founded', description: 'Founded Date', value: c => c["Founded Date"] || "Unknown" },
+  { name: 'operating_status', description: 'Operating Status', value: c => c["Operating Status"] || "Unknown" },
+  { name: 'total_funding', description: 'Total funding in USD', value: c => c.fundingUSD > 0 ? formatMillions(c.fundingUSD, 'USD') : "Unknown" },
+  { name: 'funding_rounds', description: 'Number of Funding Rounds', value: c => c["Number of Funding Rounds"] || "Unknown" },
+  { name: 'investors', description: 'Investors, after alias merges', value: c => c.investors.join(', ') || "None listed" },
+  { name: 'lead_investors', description: 'Lead investors', value: c => c.leadInvestors.join(', ') || "None listed" },
+  { name: 'themes', description: 'Matched themes', value: (c, themeName) => c.themes.map(themeName).join(', ') || "None" },
+  { name: 'score_funding', description: 'Funding Strength score (0-100)', value: c => c.scores.funding.toFixed(0) },
+  { name: 'score_operations', description: 'Operational Stability score (0-100)', value: c => c.scores.operations.toFixed(0) },
+  { name: 'score_brand', description: 'Brand/Trend Alignment score (0-100)', value: c => c.scores.brandTrend.toFixed(0) },
+  { name: 'score_potential', description: 'Overall Potential score (0-100)', value: c => c.scores.potential.toFixed(0) },
+  { name: 'score_comprehensive', description: 'Comprehensive score (0-100)', value: c => c.scores.comprehensive.toFixed(0) }
+];
+
+export const INVESTOR_VARIABLES: PromptVariable<InvestorStat>[] = [
+  { name: 'name', description: 'Investor name', value: i => i.name },
+  { name: 'deal_count', description: 'Deals in the dataset', value: i => String(i.count) },
+  { name: 'lead_count', description: 'Deals they led', value: i => String(i.leadCount) },
+  { name: 'lead_share', description: 'Share of deals they led', value: i => percent(i.leadShare) },
+  { name: 'top_themes', description: 'Most frequent themes', value: (i, themeName) => i.topThemes.map(themeName).join(', ') || "None" },
+  {
+    name: 'portfolio',
+    description: 'One line per company, with themes and role',
+    value: (i, themeName) => i.portfolio.map(p => `- ${p.name} (Themes: ${p.themes.map(themeName).join(', ')}; ${p.role === 'lead' ? 'Led' : 'Followed'})`).join('\n')
+  },
+  { name: 'avg_score', description: 'Mean comprehensive score of the portfolio', value: i => i.avgScore.toFixed(0) },
+  { name: 'median_score', description: 'Median comprehensive score of the portfolio', value: i => i.medianScore.toFixed(0) },
+  { name: 'exit_share', description: 'Share of the portfolio acquired or closed', value: i => percent(i.exitShare) },
+  { name: 'stage_mix', description: 'Deals per stage', value: i => Object.entries(i.stageMix).filter(([, n]) => n > 0).map(([stage, n]) => `${stage}: ${n}`).join(', ') || "Unknown" },
+  { name: 'theme_concentration', description: 'Herfindahl index of portfolio themes (0-1)', value: i => i.themeConcentration.toFixed(2) }
+];
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'builtin-company-memo',
+    name: 'Investment memo',
+    kind: 'company',
+    builtIn: true,
+    prompt: `You are a Senior Venture Capital Analyst. Analyze this company for a potential investment.
+
+Company Profile:
+- Name: {{name}}
+- Description: {{description}}
+- Industry: {{industries}}
+- Stage: {{stage}}
+- Employees: {{employees}}
+
+Internal Proprietary Scores (0-100 scale):
+- Funding Strength: {{score_funding}}
+- Operational Stability: {{score_operations}}
+- Brand/Trend Alignment: {{score_brand}}
+- Overall Potential Score: {{score_potential}}`,
+    fields: [
+      { key: 'executiveSummary', label: 'Executive Summary', description: 'A concise 1-2 sentence overview of what the company does.' },
+      { key: 'investmentVerdict', label: 'Verdict', description: 'A direct assessment. Is this worth investing in? Why or why not? Reference the scores and stage in your reasoning.' },
+      { key: 'competitiveEdge', label: 'Competitive Edge', description: 'Analyze their competitiveness. Do they have a moat? Is the market crowded?' }
+    ]
+  },
+  {
+    id: 'builtin-company-ic-memo',
+    name: 'IC memo (Team, Market, Traction, Risks, Ask)',
+    kind: 'company',
+    builtIn: true,
+    prompt: `You are preparing a company for our investment committee. Use only the data below and say when something is unknown.
+
+Company: {{name}} ({{headquarters}}, founded {{founded}})
+Description: {{description}}
+Industries: {{industries}} | Themes: {{themes}}
+Stage: {{stage}} | Employees: {{employees}}
+Total funding: {{total_funding}} over {{funding_rounds}} rounds
+Investors: {{investors}} (leads: {{lead_investors}})
+
+Our scores (0-100): funding {{score_funding}}, operations {{score_operations}}, brand/trend {{score_brand}}, potential {{score_potential}}, overall {{score_comprehensive}}.`,
+    fields: [
+      { key: 'team', label: 'Team', description: 'What the data says about the team: size, founding date, and the investors backing them.' },
+      { key: 'market', label: 'Market', description: 'The market the company addresses and how crowded it looks.' },
+      { key: 'traction', label: 'Traction', description: 'Evidence of traction from funding, stage and scores.' },
+      { key: 'risks', label: 'Risks', description: 'The main risks and open questions to diligence.' },
+      { key: 'ask', label: 'Ask', description: 'A recommendation for the committee: pass, track or take a meeting, and why.' }
+    ]
+  },
+  {
+    id: 'builtin-investor-analysis',
+    name: 'Portfolio analysis',
+    kind: 'investor',
+    builtIn: true,
+    prompt: `You are a Limited Partner (LP) Analyst evaluating a Venture Capital firm based on their recent deal flow in our dataset.
+
+Investor: {{name}}
+Deal Count in Dataset: {{deal_count}} (led {{lead_count}})
+Top Themes: {{top_themes}}
+
+Portfolio Samples:
+{{portfolio}}
+
+Base your analysis ONLY on the portfolio data provided above.`,
+    fields: [
+      { key: 'investmentThesis', label: 'Thesis', description: 'Infer their investment strategy. Do they favor deep tech, consumer apps, or B2B? What connects these companies?' },
+      { key: 'portfolioComposition', label: 'Diversity', description: 'Analyze the diversity. Is it highly concentrated in one sector or broad?' },
+      { key: 'strategicFocus', label: 'Strategic Focus', description: 'Identify any shifts in interest or specific niches they seem to be doubling down on.' }
+    ]
+  }
+];
+
+export const DEFAULT_ACTIVE_TEMPLATES: Record<PromptTemplateKind, string> = {
+  company: 'builtin-company-memo',
+  investor: 'builtin-investor-analysis'
+};
+
+const PLACEHOLDER = /\{\{\s*([a-z0-9_]+)\s*\}\}/gi;
+
+// Placeholders in the prompt that no variable fills; they are sent to the model as written
+export const findUnknownVariables = (template: PromptTemplate): string[] => {
+  const known = new Set((template.kind === 'company' ? COMPANY_VARIABLES : INVESTOR_VARIABLES).map(v => v.name));
+  return [...new Set([...template.prompt.matchAll(PLACEHOLDER)].map(m => m[1]).filter(name => !known.has(name)))];
+};
+
+/**
+ * Fills the template's placeholders and appends the output schema, so a
+ * template only has to describe the task and the fields it wants back.
+ */
+export const renderPrompt = <T>(template: PromptTemplate, variables: PromptVariable<T>[], subject: T, themeName: (id: string) => string): string => {
+  const values = new Map(variables.map(v => [v.name, v]));
+  const body = template.prompt.replace(PLACEHOLDER, (match, name: string) => {
+    const variable = values.get(name.toLowerCase());
+    return variable ? variable.value(subject, themeName) : match;
+  });
+  const schema = template.fields.map((f, i) => `${i + 1}. ${f.key}: ${f.description}`).join('\n');
+  return `${body}\n\nRespond with a JSON object with the following fields:\n${schema}`;
+};
+
+// Helper: "Key Risks & Mitigants" -> "keyRisksMitigants"
+export const createFieldKey = (label: string, existing: PromptTemplateField[]) => {
+  const words = foldAccents(label).match(/[a-z0-9]+/g) || [];
+  const base = (words.map((w, i) => (i === 0 ? w : w[0].toUpperCase() + w.slice(1))).join('') || 'field').replace(/^(\d)/, 'f$1');
+  const taken = new Set(existing.map(f => f.key));
+  let key = base;
+  for (let n = 2; taken.has(key); n++) key = `${base}${n}`;
+  return key;
+};
+
+export const createTemplateId = () => `template-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const memoToText = (memo: AIMemo) => memo.sections.map(s => `${s.label}:\n${s.value}`).join('\n\n');
+
+// Memos saved before templates existed were flat objects with the built-in fields
+const upgradeMemo = (memo: AIMemo | Record<string, string>, template: PromptTemplate): AIMemo => {
+  if (Array.isArray((memo as AIMemo).sections)) return memo as AIMemo;
+  const legacy = memo as Record<string, string>;
+  return {
+    templateId: template.id,
+    templateName: template.name,
+    sections: template.fields.filter(f => typeof legacy[f.key] === 'string').map(f => ({ key: f.key, label: f.label, value: legacy[f.key] }))
+  };
+};
+
+export const upgradeLegacyMemos = (results: AIResults): AIResults => {
+  const companyTemplate = BUILT_IN_TEMPLATES.find(t => t.id === DEFAULT_ACTIVE_TEMPLATES.company)!;
+  const investorTemplate = BUILT_IN_TEMPLATES.find(t => t.id === DEFAULT_ACTIVE_TEMPLATES.investor)!;
+  const upgrade = (memos: Record<string, AIMemo> = {}, template: PromptTemplate) =>
+    Object.fromEntries(Object.entries(memos).map(([key, memo]) => [key, upgradeMemo(memo, template)]));
+  return {
+    ...results,
+    companyAnalyses: upgrade(results.companyAnalyses, companyTemplate),
+    investorAnalyses: upgrade(results.investorAnalyses, investorTemplate)
+  };
+};
+
+const isField = (value: unknown): value is PromptTemplateField => {
+  if (!value || typeof value !== 'object') return false;
+  const f = value as Record<string, unknown>;
+  return typeof f.key === 'string' && typeof f.label === 'string' && typeof f.description === 'string';
+};
+
+const isTemplate = (value: unknown): value is PromptTemplate => {
+  if (!value || typeof value !== 'object') return false;
+  const t = value as Record<string, unknown>;
+  return typeof t.name === 'string' && (t.kind === 'company' || t.kind === 'investor') && typeof t.prompt === 'string' &&
+    Array.isArray(t.fields) && t.fields.every(isField);
+};
+
+export const exportTemplates = (templates: PromptTemplate[]) => {
+  const json = JSON.stringify({
+    version: EXPORT_VERSION,
+    templates: templates.map(({ builtIn: _builtIn, ...template }) => template)
+  }, null, 2);
+  const blob = new Blob([json], { type: 'application/json' });
+  const link = document.createElement("a");
+  const url = URL.createObjectURL(blob);
+  link.setAttribute("href", url);
+  link.setAttribute("download", "capital_compass_prompt_templates.json");
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Reads an exported file (or a bare template or array of them). Imported
+ * templates always get fresh ids, so they never overwrite an existing one, and
+ * empty or repeated field keys are regenerated from the label, since the model
+ * answers with one JSON property per key.
+ */
+export const parseTemplateFile = (text: string): PromptTemplate[] => {
+  const parsed = JSON.parse(text);
+  const list: unknown[] = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.templates) ? parsed.templates : [parsed];
+  const templates = list.filter(isTemplate);
+  if (templates.length === 0) throw new Error("No prompt templates found in this file");
+  return templates.map(t => ({
+    id: createTemplateId(),
+    name: t.name,
+    kind: t.kind,
+    prompt: t.prompt,
+    fields: t.fields.reduce<PromptTemplateField[]>((fields, { key, label, description }) => {
+      const unique = key.trim() && !fields.some(f => f.key === key.trim()) ? key.trim() : createFieldKey(label, fields);
+      return [...fields, { key: unique, label, description }];
+    }, [])
+  }));
+};
+
+export const loadCustomTemplates = (): PromptTemplate[] => {
+  try {
+    const raw = localStorage.getItem(TEMPLATES_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as PromptTemplate[]).filter(isTemplate) : [];
+  } catch (error) {
+    console.error("Failed to load prompt templates:", error);
+    return [];
+  }
+};
+
+export const saveCustomTemplates = (templates: PromptTemplate[]) => {
+  localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+};
+
+export const loadActiveTemplates = (): Record<PromptTemplateKind, string> => {
+  try {
+    const raw = localStorage.getItem(ACTIVE_STORAGE_KEY);
+    return raw ? { ...DEFAULT_ACTIVE_TEMPLATES, ...JSON.parse(raw) } : DEFAULT_ACTIVE_TEMPLATES;
+  } catch (error) {
+    console.error("Failed to load active prompt templates:", error);
+    return DEFAULT_ACTIVE_TEMPLATES;
+  }
+};
+
+export const saveActiveTemplates = (active: Record<PromptTemplateKind, string>) => {
+  localStorage.setItem(ACTIVE_STORAGE_KEY, JSON.stringify(active));
+};
@@ -0,0 +1,154 @@
+import { ScoringModel, ScoringWeights, ScoreContribution, NormalisedInput, NormalisationStrategy } from '../types';
+import { NORMALISATION_LABELS } from './normalisation';
+
+const PRESETS_STORAGE_KEY = 'capital-compass.scoringPresets';
+
+// The original hard-coded weights
+export const DEFAULT_SCORING_MODEL: ScoringModel = {
+  name: 'Balanced',
+  weights: {
+    funding: { amount: 0.7, rounds: 0.3, cadence: 0, recency: 0 },
+    operations: { employees: 0.6, active: 0.4 },
+    brandTrend: { rank: 0.5, articles: 0.3, themeBonus: 0.2 },
+    potential: { stage: 0.4, funding: 0.3, brandTrend: 0.3 },
+    comprehensive: { funding: 0.25, operations: 0.25, brandTrend: 0.25, potential: 0.25 }
+  }
+};
+
+export const DEFAULT_NORMALISATION: Record<NormalisedInput, NormalisationStrategy> = {
+  fundingAmount: 'minmax',
+  fundingRounds: 'minmax',
+  rank: 'minmax',
+  articles: 'minmax'
+};
+
+export const NORMALISED_INPUT_LABELS: Record<NormalisedInput, string> = {
+  fundingAmount: 'Total Amount',
+  fundingRounds: 'Funding Rounds',
+  rank: 'CB Rank',
+  articles: 'Articles'
+};
+
+// Presets and sessions saved before normalisation options existed fall back to min-max
+export const resolveNormalisation = (model: ScoringModel): Record<NormalisedInput, NormalisationStrategy> => ({
+  ...DEFAULT_NORMALISATION,
+  ...model.normalisation
+});
+
+// Presets and sessions saved before an input existed get its default weight
+export const resolveWeights = (model: ScoringModel): ScoringWeights => {
+  const defaults = DEFAULT_SCORING_MODEL.weights;
+  return {
+    funding: { ...defaults.funding, ...model.weights.funding },
+    operations: { ...defaults.operations, ...model.weights.operations },
+    brandTrend: { ...defaults.brandTrend, ...model.weights.brandTrend },
+    potential: { ...defaults.potential, ...model.weights.potential },
+    comprehensive: { ...defaults.comprehensive, ...model.weights.comprehensive }
+  };
+};
+
+// Helper: "Total Amount: Log min-max; CB Rank: Min-max; ..."
+export const describeNormalisation = (normalisation: Record<NormalisedInput, NormalisationStrategy>) =>
+  (Object.keys(NORMALISED_INPUT_LABELS) as NormalisedInput[])
+    .map(input => `${NORMALISED_INPUT_LABELS[input]}: ${NORMALISATION_LABELS[normalisation[input]]}`)
+    .join('; ');
+
+export const BUILT_IN_PRESETS: ScoringModel[] = [
+  DEFAULT_SCORING_MODEL,
+  {
+    name: 'Growth',
+    weights: {
+      funding: { amount: 0.8, rounds: 0.2, cadence: 0, recency: 0 },
+      operations: { employees: 0.8, active: 0.2 },
+      brandTrend: { rank: 0.5, articles: 0.4, themeBonus: 0.1 },
+      potential: { stage: 0.5, funding: 0.3, brandTrend: 0.2 },
+      comprehensive: { funding: 0.35, operations: 0.25, brandTrend: 0.15, potential: 0.25 }
+    }
+  },
+  {
+    name: 'Early Stage',
+    weights: {
+      funding: { amount: 0.4, rounds: 0.6, cadence: 0, recency: 0 },
+      operations: { employees: 0.4, active: 0.6 },
+      brandTrend: { rank: 0.3, articles: 0.3, themeBonus: 0.4 },
+      potential: { stage: 0.3, funding: 0.2, brandTrend: 0.5 },
+      comprehensive: { funding: 0.15, operations: 0.15, brandTrend: 0.35, potential: 0.35 }
+    }
+  },
+  {
+    name: 'Capital Efficient',
+    weights: {
+      funding: { amount: 0.3, rounds: 0.7, cadence: 0, recency: 0 },
+      operations: { employees: 0.7, active: 0.3 },
+      brandTrend: { rank: 0.5, articles: 0.3, themeBonus: 0.2 },
+      potential: { stage: 0.4, funding: 0.1, brandTrend: 0.5 },
+      comprehensive: { funding: 0.1, operations: 0.4, brandTrend: 0.25, potential: 0.25 }
+    }
+  }
+];
+
+// Display labels for the settings panel, keyed by group then input
+export const WEIGHT_LABELS: { [G in keyof ScoringWeights]: { label: string, inputs: Record<keyof ScoringWeights[G], string> } } = {
+  funding: { label: 'Funding', inputs: { amount: 'Total Amount', rounds: 'Funding Rounds', cadence: 'Round Cadence', recency: 'Last Round Recency' } },
+  operations: { label: 'Operations', inputs: { employees: 'Employees', active: 'Active Status' } },
+  brandTrend: { label: 'Brand & Trend', inputs: { rank: 'CB Rank', articles: 'Articles', themeBonus: 'Theme Bonus' } },
+  potential: { label: 'Potential', inputs: { stage: 'Stage', funding: 'Funding Score', brandTrend: 'Brand Score' } },
+  comprehensive: { label: 'Comprehensive', inputs: { funding: 'Funding', operations: 'Operations', brandTrend: 'Brand & Trend', potential: 'Potential' } }
+};
+
+/**
+ * Weighted average of 0-1 inputs using a weight group. Weights are relative,
+ * so sliders don't have to add up to anything; an all-zero group scores 0.
+ * Each input's effective weight and the points it added are returned too,
+ * for the score breakdown view.
+ */
+export const explainWeightedScore = <K extends string>(
+  inputs: Record<K, number>,
+  weights: Record<K, number>,
+  raw: Record<K, number | string>,
+  labels: Record<K, string>
+): { score: number, contributions: ScoreContribution[] } => {
+  const keys = Object.keys(weights) as K[];
+  const total = keys.reduce((acc, key) => acc + Math.max(weights[key], 0), 0);
+
+  const contributions = keys.map(key => {
+    const weight = total === 0 ? 0 : Math.max(weights[key], 0) / total;
+    const normalised = inputs[key] || 0;
+    return {
+      key,
+      label: labels[key],
+      raw: raw[key],
+      normalised,
+      weight,
+      contribution: normalised * weight * 100
+    };
+  });
+
+  return {
+    score: contributions.reduce((acc, c) => acc + c.contribution, 0) / 100,
+    contributions
+  };
+};
+
+export const loadCustomPresets = (): ScoringModel[] => {
+  try {
+    const raw = localStorage.getItem(PRESETS_STORAGE_KEY);
+    return raw ? JSON.parse(raw) as ScoringModel[] : [];
+  } catch (error) {
+    console.error("Failed to load scoring presets:", error);
+    return [];
+  }
+};
+
+export const saveCustomPreset = (model: ScoringModel): ScoringModel[] => {
+  const presets = loadCustomPresets().filter(p => p.name !== model.name);
+  presets.push(model);
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  return presets;
+};
+
+export const deleteCustomPreset = (name: string): ScoringModel[] => {
+  const presets = loadCustomPresets().filter(p => p.name !== name);
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  return presets;
+};
@@ -0,0 +1,96 @@
+import { AnalysisSession, SessionSummary } from '../types';
+
+const DB_NAME = 'capital-compass';
+const DB_VERSION = 1;
+// Summaries are kept apart from the payload so listing sessions doesn't load every dataset
+const SUMMARY_STORE = 'sessionSummaries';
+const DATA_STORE = 'sessionData';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this browser"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SUMMARY_STORE)) db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(DATA_STORE)) db.createObjectStore(DATA_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry if opening failed (e.g. private browsing)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const toSummary = (session: AnalysisSession): SessionSummary => ({
+  id: session.id,
+  name: session.name,
+  createdAt: session.createdAt,
+  updatedAt: session.updatedAt,
+  companyCount: session.companyCount,
+  sourceFiles: session.sourceFiles
+});
+
+export const createSessionId = () => `session-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Most recently updated first
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const db = await openDB();
+  const tx = db.transaction(SUMMARY_STORE, 'readonly');
+  const summaries = await requestToPromise(tx.objectStore(SUMMARY_STORE).getAll() as IDBRequest<SessionSummary[]>);
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadSession = async (id: string): Promise<AnalysisSession | undefined> => {
+  const db = await openDB();
+  const tx = db.transaction(DATA_STORE, 'readonly');
+  return requestToPromise(tx.objectStore(DATA_STORE).get(id) as IDBRequest<AnalysisSession | undefined>);
+};
+
+export const saveSession = async (session: AnalysisSession): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction([SUMMARY_STORE, DATA_STORE], 'readwrite');
+  tx.objectStore(SUMMARY_STORE).put(toSummary(session));
+  tx.objectStore(DATA_STORE).put(session);
+  await transactionDone(tx);
+};
+
+export const renameSession = async (id: string, name: string): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction([SUMMARY_STORE, DATA_STORE], 'readwrite');
+  const summaries = tx.objectStore(SUMMARY_STORE);
+  const data = tx.objectStore(DATA_STORE);
+
+  const summary = await requestToPromise(summaries.get(id) as IDBRequest<SessionSummary | undefined>);
+  const session = await requestToPromise(data.get(id) as IDBRequest<AnalysisSession | undefined>);
+  if (summary) summaries.put({ ...summary, name });
+  if (session) data.put({ ...session, name });
+  await transactionDone(tx);
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction([SUMMARY_STORE, DATA_STORE], 'readwrite');
+  tx.objectStore(SUMMARY_STORE).delete(id);
+  tx.objectStore(DATA_STORE).delete(id);
+  await transactionDone(tx);
+};
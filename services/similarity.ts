@@ -0,0 +1,135 @@
+import { ScoredCompany, SimilarCompany } from '../types';
+import { foldAccents, isStopword } from './themeTaxonomy';
+
+// Share of the similarity score each signal can contribute
+const TEXT_WEIGHT = 0.55;
+const INDUSTRY_WEIGHT = 0.3;
+const STAGE_WEIGHT = 0.1;
+const HQ_WEIGHT = 0.05;
+
+// Terms in more than this share of companies say nothing about a niche; small datasets keep every term
+const MAX_DOCUMENT_SHARE = 0.5;
+const MIN_DOCUMENTS_FOR_CUTOFF = 20;
+const MIN_TOKEN_LENGTH = 3;
+const SHARED_TERMS_SHOWN = 4;
+const DEFAULT_PEER_COUNT = 5;
+
+type Vector = Map<string, number>;
+
+interface Posting {
+  doc: number;
+  weight: number;
+}
+
+// Helper: "Builds AI-powered tools for clinics" -> ["build", "powered", "tool", "clinic"]
+const tokenize = (text: string) => foldAccents(text)
+  .split(/[^a-z0-9]+/)
+  .filter(w => w.length >= MIN_TOKEN_LENGTH && !isStopword(w) && !/^\d+$/.test(w))
+  .map(w => w.length > 4 && w.endsWith('s') && !w.endsWith('ss') ? w.slice(0, -1) : w);
+
+const industryTags = (company: ScoredCompany) =>
+  (company["Industries"] || "").split(',').map(tag => foldAccents(tag.trim())).filter(Boolean);
+
+/**
+ * Unit-length TF-IDF vectors (log-scaled term frequency, smoothed idf) plus an
+ * inverted index, so a lookup only visits companies that share a term.
+ */
+const buildVectors = (documents: string[][]) => {
+  const documentFrequency = new Map<string, number>();
+  documents.forEach(terms => new Set(terms).forEach(term => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)));
+
+  const maxDocuments = documents.length >= MIN_DOCUMENTS_FOR_CUTOFF ? documents.length * MAX_DOCUMENT_SHARE : Infinity;
+  const postings = new Map<string, Posting[]>();
+  const vectors: Vector[] = documents.map((terms, doc) => {
+    const counts = new Map<string, number>();
+    terms.forEach(term => counts.set(term, (counts.get(term) || 0) + 1));
+
+    const vector: Vector = new Map();
+    counts.forEach((count, term) => {
+      const df = documentFrequency.get(term)!;
+      if (df > maxDocuments) return;
+      vector.set(term, (1 + Math.log(count)) * Math.log(1 + documents.length / df));
+    });
+
+    const norm = Math.sqrt([...vector.values()].reduce((acc, w) => acc + w * w, 0));
+    vector.forEach((w, term) => {
+      const weight = w / norm;
+      vector.set(term, weight);
+      if (!postings.has(term)) postings.set(term, []);
+      postings.get(term)!.push({ doc, weight });
+    });
+    return vector;
+  });
+
+  // Cosine similarity of one document against every other that shares a term
+  const scoresFor = (doc: number) => {
+    const scores = new Map<number, number>();
+    vectors[doc].forEach((weight, term) => postings.get(term)!.forEach(p => {
+      if (p.doc !== doc) scores.set(p.doc, (scores.get(p.doc) || 0) + weight * p.weight);
+    }));
+    return scores;
+  };
+
+  return { vectors, scoresFor };
+};
+
+// Helper: Shared levels from the country inward; "Montreal, Quebec, Canada" vs "Toronto, Ontario, Canada" -> 1/3
+const locationSimilarity = (a: string[], b: string[]) => {
+  if (a.length === 0 || b.length === 0) return 0;
+  let shared = 0;
+  while (shared < a.length && shared < b.length && a[a.length - 1 - shared] === b[b.length - 1 - shared]) shared++;
+  return shared / Math.max(a.length, b.length);
+};
+
+const sharedTerms = (a: Vector, b: Vector) => [...a.entries()]
+  .filter(([term]) => b.has(term))
+  .map(([term, w]) => ({ term, weight: w * b.get(term)! }))
+  .sort((x, y) => y.weight - x.weight)
+  .map(x => x.term);
+
+/**
+ * Local peer finder over descriptions and Industries tags, nudged by stage
+ * and headquarters. Only companies sharing at least one description word or
+ * industry tag are candidates, so a shared city alone never makes a peer.
+ */
+export const createSimilarityIndex = (companies: ScoredCompany[]) => {
+  const text = buildVectors(companies.map(c => tokenize(`${c["Description"] || ""} ${c["Full Description"] || ""}`)));
+  const industries = buildVectors(companies.map(industryTags));
+  const stages = companies.map(c => (c["Last Funding Type"] || "").trim().toLowerCase());
+  const locations = companies.map(c => (c["Headquarters Location"] || "").split(',').map(part => foldAccents(part.trim())).filter(Boolean));
+  const positions = new Map(companies.map((c, i) => [c.id, i]));
+
+  return (companyId: string, limit = DEFAULT_PEER_COUNT): SimilarCompany[] => {
+    const doc = positions.get(companyId);
+    if (doc === undefined) return [];
+
+    // Signals the company has nothing for are left out, so a missing description doesn't cap its peers' scores
+    const hasText = text.vectors[doc].size > 0;
+    const hasIndustries = industries.vectors[doc].size > 0;
+    const totalWeight = (hasText ? TEXT_WEIGHT : 0) + (hasIndustries ? INDUSTRY_WEIGHT : 0) + STAGE_WEIGHT + HQ_WEIGHT;
+
+    const textScores = text.scoresFor(doc);
+    const industryScores = industries.scoresFor(doc);
+    const candidates = new Set([...textScores.keys(), ...industryScores.keys()]);
+
+    return [...candidates]
+      .map(other => {
+        const score =
+          TEXT_WEIGHT * (textScores.get(other) || 0) +
+          INDUSTRY_WEIGHT * (industryScores.get(other) || 0) +
+          STAGE_WEIGHT * (stages[doc] && stages[doc] === stages[other] ? 1 : 0) +
+          HQ_WEIGHT * locationSimilarity(locations[doc], locations[other]);
+        return { other, similarity: Math.min(1, score / totalWeight) };
+      })
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit)
+      .map(({ other, similarity }) => ({
+        company: companies[other],
+        similarity,
+        sharedTerms: [
+          ...sharedTerms(industries.vectors[doc], industries.vectors[other]),
+          ...sharedTerms(text.vectors[doc], text.vectors[other])
+        ].slice(0, SHARED_TERMS_SHOWN)
+      }));
+  };
+};
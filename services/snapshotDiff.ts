@@ -0,0 +1,97 @@
+import { ScoredCompany, SnapshotDiff, CompanyDelta, ScoreKey } from '../types';
+import { companyUrlKey, normalizeCompanyName } from './entityResolution';
+import { suggestMapping, applyMappingToResult, findMatchingProfile, loadMappingProfiles } from './columnMapping';
+import { buildImportReport } from './importReport';
+import { isFundingRoundsFile, parseFundingRounds } from './fundingRounds';
+import { parseFilesInWorker, processDataInWorker, WorkerProcessOptions } from './analysisClient';
+
+export const SCORE_KEYS: ScoreKey[] = ['comprehensive', 'potential', 'funding', 'operations', 'brandTrend'];
+
+// Helper: Website key when there is one, otherwise the normalised name
+const snapshotKey = (company: ScoredCompany) =>
+  companyUrlKey(company["Organization Name URL"]) || `name:${normalizeCompanyName(company["Organization Name"])}`;
+
+const indexSnapshot = (companies: ScoredCompany[]) => {
+  const ranked = [...companies].sort((a, b) => b.scores.comprehensive - a.scores.comprehensive);
+  const index = new Map<string, { company: ScoredCompany, rank: number }>();
+  ranked.forEach((company, idx) => {
+    const key = snapshotKey(company);
+    // Keep the better-ranked row if a snapshot still contains duplicates
+    if (!index.has(key)) index.set(key, { company, rank: idx + 1 });
+  });
+  return index;
+};
+
+const hasNewFunding = (before: ScoredCompany, after: ScoredCompany) => {
+  const roundsBefore = parseInt(before["Number of Funding Rounds"] || "0") || 0;
+  const roundsAfter = parseInt(after["Number of Funding Rounds"] || "0") || 0;
+  const typeBefore = (before["Last Funding Type"] || "").trim().toLowerCase();
+  const typeAfter = (after["Last Funding Type"] || "").trim().toLowerCase();
+  return roundsAfter > roundsBefore || (typeAfter !== "" && typeAfter !== typeBefore);
+};
+
+/**
+ * Compares two scored snapshots of the same list. Companies are matched by
+ * website, falling back to the normalised name, and ranked by comprehensive
+ * score within their own snapshot.
+ */
+export const diffSnapshots = (beforeCompanies: ScoredCompany[], afterCompanies: ScoredCompany[]): SnapshotDiff => {
+  const before = indexSnapshot(beforeCompanies);
+  const after = indexSnapshot(afterCompanies);
+
+  const added: ScoredCompany[] = [];
+  const changed: CompanyDelta[] = [];
+
+  after.forEach((next, key) => {
+    const prev = before.get(key);
+    if (!prev) {
+      added.push(next.company);
+      return;
+    }
+
+    const scoreDeltas = {} as Record<ScoreKey, number>;
+    SCORE_KEYS.forEach(k => { scoreDeltas[k] = next.company.scores[k] - prev.company.scores[k]; });
+
+    const becameInactive = !prev.company.acquisitionStatus?.isAcquiredOrClosed && !!next.company.acquisitionStatus?.isAcquiredOrClosed;
+
+    changed.push({
+      key,
+      name: next.company["Organization Name"],
+      before: prev.company,
+      after: next.company,
+      rankBefore: prev.rank,
+      rankAfter: next.rank,
+      rankChange: prev.rank - next.rank,
+      scoreDeltas,
+      newFunding: hasNewFunding(prev.company, next.company),
+      statusChange: becameInactive ? next.company.acquisitionStatus : undefined
+    });
+  });
+
+  const removed = Array.from(before.entries())
+    .filter(([key]) => !after.has(key))
+    .map(([, entry]) => entry.company);
+
+  return { added, removed, changed };
+};
+
+/**
+ * Parses and scores one snapshot, mapping its columns with a saved profile or
+ * suggestions. A Funding Rounds export uploaded with it is joined to it, and
+ * only that one: rounds from another snapshot could postdate this one.
+ */
+export const scoreSnapshotFiles = async (files: File[], options: WorkerProcessOptions = {}): Promise<ScoredCompany[]> => {
+  const results = await parseFilesInWorker(files).promise;
+  const isRounds = results.map(result => isFundingRoundsFile(result.headers));
+  if (isRounds.every(Boolean)) throw new Error("A snapshot needs an organisations export, not only funding rounds");
+
+  const profiles = loadMappingProfiles();
+  const rows = results.flatMap((result, idx) => {
+    if (isRounds[idx]) return [];
+    const mapping = findMatchingProfile(result.headers, profiles)?.mapping || suggestMapping(result.headers);
+    return buildImportReport(files[idx].name, applyMappingToResult(result, mapping)).rows;
+  });
+  const rounds = results.filter((_, idx) => isRounds[idx]).flatMap(result => parseFundingRounds(result.rows));
+  const processed = await processDataInWorker(rows, { ...options, fundingRounds: rounds.length > 0 ? rounds : undefined }).promise;
+  return processed.companies;
+};
@@ -0,0 +1,268 @@
+import { ThemeDefinition, ThemeKeywords, ThemeMatch, ThemeConfidence, Language } from '../types';
+
+const THEMES_STORAGE_KEY = 'capital-compass.themes';
+const CONFIDENCE_STORAGE_KEY = 'capital-compass.themeConfidence';
+
+// Cycled through when a new theme is added
+export const THEME_PALETTE = ['#3b82f6', '#10b981', '#f59e0b', '#e11d48', '#8b5cf6', '#14b8a6', '#f97316', '#0ea5e9', '#84cc16', '#64748b'];
+
+// The original six hard-coded themes, expressed as keyword lists, with French equivalents for Quebec descriptions
+export const DEFAULT_THEMES: ThemeDefinition[] = [
+  {
+    id: 'ai',
+    name: 'AI / ML',
+    include: ['ai', 'artificial intelligence', 'machine learning', 'deep learning', 'llm*', 'nlp', 'genai', 'neural network*', 'gpt', 'computer vision'],
+    exclude: [],
+    industries: ['Artificial Intelligence*', 'Machine Learning', 'Generative AI', 'Computer Vision', 'Natural Language Processing', 'Predictive Analytics', 'Intelligent Systems'],
+    color: '#3b82f6',
+    localized: {
+      fr: {
+        include: ['ia', 'intelligence artificielle', 'apprentissage automatique', 'apprentissage profond', 'réseau* de neurones', 'réseau* neuronal*', 'vision par ordinateur', 'traitement du langage naturel', 'machine learning', 'deep learning', 'llm*', 'genai', 'gpt', 'nlp'],
+        exclude: []
+      }
+    }
+  },
+  {
+    id: 'climate',
+    name: 'Climate / Energy',
+    include: ['climate', 'carbon', 'emission*', 'renewable*', 'solar', 'batter*', 'sustainab*', 'energy', 'clean tech', 'cleantech', 'green', 'environment*', 'wind', 'hydro*'],
+    exclude: [],
+    industries: ['CleanTech', 'Clean Energy', 'Renewable Energy', 'Solar', 'Wind Energy', 'Energy Storage', 'Battery', 'Electric Vehicle', 'Sustainability', 'Environmental Engineering', 'Green Building', 'Recycling', 'Energy Efficiency', 'Carbon Capture'],
+    color: '#10b981',
+    localized: {
+      fr: {
+        include: ['climat*', 'carbone', 'décarbonation', 'émission*', 'renouvelable*', 'solaire*', 'batterie*', 'durable*', 'énergie*', 'énergétique*', 'technologie* propre*', 'cleantech', 'vert', 'verte', 'verts', 'vertes', 'environnement*', 'éolien*', 'hydro*'],
+        exclude: []
+      }
+    }
+  },
+  {
+    id: 'fintech',
+    name: 'Fintech',
+    include: ['fintech', 'payment*', 'lending', 'banking', 'crypto*', 'wallet*', 'neobank*', 'insurance', 'insurtech', 'wealth', 'trading', 'blockchain', 'defi'],
+    exclude: [],
+    industries: ['FinTech', 'Financial Services', 'Payments', 'Banking', 'Lending', 'Insurance', 'InsurTech', 'Cryptocurrency', 'Blockchain', 'Wealth Management', 'Personal Finance', 'Trading Platform'],
+    color: '#f59e0b',
+    localized: {
+      fr: {
+        include: ['fintech', 'paiement*', 'prêteur*', 'crédit', 'bancaire*', 'banque*', 'crypto*', 'portefeuille* numérique*', 'néobanque*', 'assurance*', 'assurtech', 'patrimoine', 'négociation', 'chaîne de blocs', 'blockchain', 'defi'],
+        exclude: []
+      }
+    }
+  },
+  {
+    id: 'healthcare',
+    name: 'Healthcare',
+    include: ['biotech*', 'health*', 'pharma*', 'medical', 'therapeutic*', 'biology', 'patient*', 'doctor*', 'care', 'clinic*', 'drug*', 'genomic*', 'life science*'],
+    exclude: [],
+    industries: ['Health Care', 'Biotechnology', 'Medical', 'Medical Device', 'Pharmaceutical', 'Health Diagnostics', 'Therapeutics', 'Life Science', 'Genetics', 'Hospital', 'mHealth', 'Wellness'],
+    color: '#e11d48',
+    localized: {
+      fr: {
+        include: ['biotech*', 'santé', 'pharma*', 'médical*', 'thérapeuti*', 'biologi*', 'patient*', 'médecin*', 'soins', 'clinique*', 'médicament*', 'génomique*', 'sciences de la vie'],
+        exclude: []
+      }
+    }
+  },
+  {
+    id: 'saas',
+    name: 'SaaS',
+    include: ['enterprise', 'saas', 'b2b', 'software', 'cloud', 'automation', 'workflow*', 'productivity', 'crm', 'erp', 'platform*', 'infrastructure', 'api*'],
+    exclude: [],
+    industries: ['SaaS', 'Software', 'Enterprise Software', 'B2B', 'Cloud Computing', 'Cloud Infrastructure', 'Developer APIs', 'CRM', 'Enterprise Resource Planning (ERP)', 'Productivity Tools', 'Information Technology'],
+    color: '#8b5cf6',
+    localized: {
+      fr: {
+        include: ['saas', 'b2b', 'logiciel*', 'infonuagique', 'nuage', 'cloud', 'automatisation', 'flux de travail', 'productivité', 'crm', 'erp', 'plateforme*', 'infrastructure*', 'api*'],
+        exclude: []
+      }
+    }
+  },
+  {
+    id: 'consumer',
+    name: 'Consumer',
+    include: ['b2c', 'consumer*', 'retail*', 'e-commerce', 'ecommerce', 'social', 'app', 'apps', 'marketplace*', 'brand*', 'fashion', 'food*', 'd2c', 'dtc', 'subscription*', 'media'],
+    exclude: [],
+    industries: ['Consumer*', 'E-Commerce', 'Retail', 'Marketplace', 'Social Media', 'Social Network', 'Apps', 'Mobile Apps', 'Fashion', 'Food and Beverage', 'Media and Entertainment', 'Subscription Service'],
+    color: '#14b8a6',
+    localized: {
+      fr: {
+        include: ['b2c', 'consommat*', 'commerce de détail', 'détaillant*', 'commerce électronique', 'commerce en ligne', 'e-commerce', 'réseau* socia*', 'médias sociaux', 'application* mobile*', 'app', 'apps', 'place de marché', 'marché* en ligne', 'marque*', 'vêtement*', 'aliment*', 'alimentaire*', 'd2c', 'abonnement*', 'média*'],
+        exclude: []
+      }
+    }
+  }
+];
+
+// Common function words, used to tell French descriptions from English ones
+const STOPWORDS: Record<Language, Set<string>> = {
+  en: new Set(['the', 'and', 'of', 'to', 'in', 'for', 'with', 'is', 'that', 'our', 'we', 'their', 'on', 'by', 'its', 'are', 'from', 'an']),
+  fr: new Set(['le', 'la', 'les', 'des', 'du', 'de', 'et', 'est', 'pour', 'dans', 'qui', 'avec', 'sur', 'une', 'un', 'au', 'aux', 'nous', 'leur', 'leurs', 'par'])
+};
+
+// Helper: Lower-cases and strips accents, so "Santé" and "sante" match alike
+export const foldAccents = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+export const isStopword = (word: string) => STOPWORDS.en.has(word) || STOPWORDS.fr.has(word);
+
+// Helper: Language with the most stopword hits; English on a tie, null when there are no stopwords at all
+export const detectLanguage = (foldedText: string): Language | null => {
+  const counts: Record<Language, number> = { en: 0, fr: 0 };
+  for (const word of foldedText.split(/[^a-z]+/)) {
+    if (STOPWORDS.en.has(word)) counts.en++;
+    if (STOPWORDS.fr.has(word)) counts.fr++;
+  }
+  if (counts.en === 0 && counts.fr === 0) return null;
+  return counts.fr > counts.en ? 'fr' : 'en';
+};
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Helper: "réseau* de neurones" -> reseau[\p{L}\p{N}]*\s+de\s+neurones; a trailing * on any word is a wildcard
+const keywordPattern = (keyword: string) => {
+  const words = foldAccents(keyword.trim()).split(/\s+/).filter(word => word.replace(/\*+$/, ''));
+  if (words.length === 0) return null;
+  return words
+    .map(word => word.endsWith('*') ? `${escapeRegExp(word.replace(/\*+$/, ''))}[\\p{L}\\p{N}]*` : escapeRegExp(word))
+    .join('\\s+');
+};
+
+// Whole-word match on letters and digits, so "ai" no longer hits "rain" and accented words still work
+const compileKeywords = (keywords: string[]): RegExp | null => {
+  const patterns = keywords.map(keywordPattern).filter((p): p is string => p !== null);
+  if (patterns.length === 0) return null;
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${patterns.join('|')})(?![\\p{L}\\p{N}])`, 'gu');
+};
+
+// Every default phrase has to match its own text, with and without a plural on its wildcard words
+const unmatchableDefaults = DEFAULT_THEMES
+  .flatMap(theme => [theme, ...Object.values(theme.localized || {})].flatMap(set => set.include))
+  .filter(keyword => keyword.trim().includes(' '))
+  .filter(keyword => ['', 's'].some(suffix => !new RegExp(`^(?:${keywordPattern(keyword)})$`, 'u').test(foldAccents(keyword).replace(/\*+/g, suffix))));
+if (unmatchableDefaults.length > 0) console.error("Default theme keywords that can never match:", unmatchableDefaults);
+
+// Helper: Distinct keyword hits in a text, as written (accents folded)
+const findKeywords = (regex: RegExp | null, text: string) =>
+  regex ? [...new Set(Array.from(text.matchAll(regex), m => m[0].replace(/\s+/g, ' ')))] : [];
+
+const compileKeywordSet = (keywords: ThemeKeywords) => ({
+  include: compileKeywords(keywords.include),
+  exclude: compileKeywords(keywords.exclude)
+});
+
+// Helper: A language without its own include keywords falls back to the English set
+const keywordsFor = (theme: ThemeDefinition, language: Language): ThemeKeywords => {
+  const localized = language === 'en' ? undefined : theme.localized?.[language];
+  return localized && localized.include.length > 0 ? localized : theme;
+};
+
+// Helper: "Artificial Intelligence*" matches the tag "Artificial Intelligence (AI)"; without * the whole tag must match
+const compileIndustries = (industries: string[]) => industries
+  .map(foldAccents)
+  .map(tag => tag.trim())
+  .filter(tag => tag.replace(/\*+$/, '').length > 0)
+  .map(tag => tag.endsWith('*')
+    ? (candidate: string) => candidate.startsWith(tag.replace(/\*+$/, ''))
+    : (candidate: string) => candidate === tag);
+
+// An industry tag confirms a theme on its own; description keywords need to agree.
+// Multi-word phrases ("machine learning") are specific enough to count twice.
+const INDUSTRY_WEIGHT = 0.6;
+const KEYWORD_WEIGHT = 0.2;
+const STRONG_KEYWORD_SIGNALS = 2;
+
+export const meetsConfidence = (confidence: ThemeConfidence, minimum: ThemeConfidence) =>
+  minimum === 'weak' || confidence === 'strong';
+
+/**
+ * Compiles the taxonomy once and returns a matcher from a company's
+ * Industries column and description texts to a ThemeMatch per theme hit.
+ * Each text is matched with the keyword set for its detected language, or
+ * with every set when it has no stopwords to go by, so a French description
+ * gets the same themes as its English equivalent.
+ * A match is strong when an industry tag fired or at least two distinct
+ * keywords (or one phrase) did; a lone word (e.g. "care") is weak. Any exclude keyword
+ * vetoes the theme.
+ */
+export const compileThemes = (themes: ThemeDefinition[]) => {
+  const languages = Object.keys(STOPWORDS) as Language[];
+  const compiled = themes.map(theme => ({
+    id: theme.id,
+    industries: compileIndustries(theme.industries || []),
+    sets: Object.fromEntries(languages.map(lang => [lang, compileKeywordSet(keywordsFor(theme, lang))])) as Record<Language, ReturnType<typeof compileKeywordSet>>
+  }));
+
+  return (industries: string | undefined, texts: (string | undefined)[]): ThemeMatch[] => {
+    const tags = (industries || "").split(',').map(tag => tag.trim()).filter(Boolean);
+    const foldedTags = tags.map(foldAccents);
+    const prepared = texts.filter(Boolean).map(text => {
+      const folded = foldAccents(text!);
+      const language = detectLanguage(folded);
+      // Short texts without stopwords ("Intelligence artificielle santé") are tried against every keyword set
+      return { folded, languages: language ? [language] : languages };
+    });
+
+    const matches: ThemeMatch[] = [];
+    compiled.forEach(theme => {
+      const keywords = new Set<string>();
+      let vetoed = false;
+      prepared.forEach(({ folded, languages }) => languages.forEach(language => {
+        const { include, exclude } = theme.sets[language];
+        if (findKeywords(exclude, folded).length > 0) vetoed = true;
+        findKeywords(include, folded).forEach(k => keywords.add(k));
+      }));
+      if (vetoed) return;
+
+      const matchedTags = tags.filter((_, i) => theme.industries.some(test => test(foldedTags[i])));
+      if (matchedTags.length === 0 && keywords.size === 0) return;
+
+      const keywordSignals = [...keywords].reduce((acc, k) => acc + (k.includes(' ') ? 2 : 1), 0);
+      const strong = matchedTags.length > 0 || keywordSignals >= STRONG_KEYWORD_SIGNALS;
+      matches.push({
+        themeId: theme.id,
+        confidence: strong ? 'strong' : 'weak',
+        score: Math.min(1, (matchedTags.length > 0 ? INDUSTRY_WEIGHT : 0) + KEYWORD_WEIGHT * keywordSignals),
+        industries: matchedTags,
+        keywords: [...keywords]
+      });
+    });
+    return matches;
+  };
+};
+
+// Helper: Splits a comma or newline separated keyword field
+export const parseKeywordList = (text: string) =>
+  text.split(/[,\n]/).map(k => k.trim()).filter(Boolean);
+
+export const createThemeId = (name: string, existing: ThemeDefinition[]) => {
+  const base = foldAccents(name).replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'theme';
+  let id = base;
+  for (let i = 2; existing.some(t => t.id === id); i++) id = `${base}-${i}`;
+  return id;
+};
+
+export const loadThemes = (): ThemeDefinition[] => {
+  try {
+    const raw = localStorage.getItem(THEMES_STORAGE_KEY);
+    if (!raw) return DEFAULT_THEMES;
+    // Built-in themes saved before French keywords or industry tags existed pick them up from the defaults
+    return (JSON.parse(raw) as ThemeDefinition[]).map(theme => {
+      const builtIn = DEFAULT_THEMES.find(d => d.id === theme.id);
+      return builtIn ? { localized: builtIn.localized, industries: builtIn.industries, ...theme } : theme;
+    });
+  } catch (error) {
+    console.error("Failed to load theme taxonomy:", error);
+    return DEFAULT_THEMES;
+  }
+};
+
+export const saveThemes = (themes: ThemeDefinition[]) => {
+  localStorage.setItem(THEMES_STORAGE_KEY, JSON.stringify(themes));
+};
+
+export const loadThemeConfidence = (): ThemeConfidence =>
+  localStorage.getItem(CONFIDENCE_STORAGE_KEY) === 'strong' ? 'strong' : 'weak';
+
+export const saveThemeConfidence = (confidence: ThemeConfidence) => {
+  localStorage.setItem(CONFIDENCE_STORAGE_KEY, confidence);
+};
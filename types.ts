@@ -22,9 +22,51 @@ export interface RawCompanyData {
   "Acquired by"?: string;
   "Exit Date"?: string;
   "Closed Date"?: string;
+  "Industries"?: string;
   [key: string]: any;
 }
 
+// Relative weights; each group is normalised by its own sum when scoring
+export interface ScoringWeights {
+  funding: { amount: number; rounds: number; cadence: number; recency: number }; // cadence/recency need a funding rounds file
+  operations: { employees: number; active: number };
+  brandTrend: { rank: number; articles: number; themeBonus: number };
+  potential: { stage: number; funding: number; brandTrend: number };
+  comprehensive: { funding: number; operations: number; brandTrend: number; potential: number };
+}
+
+export type NormalisationStrategy = 'minmax' | 'log' | 'percentile' | 'winsorisedZ';
+
+// Inputs scaled against the rest of the dataset (employees and stage use fixed scales)
+export type NormalisedInput = 'fundingAmount' | 'fundingRounds' | 'rank' | 'articles';
+
+export interface ScoringModel {
+  name: string;
+  weights: ScoringWeights;
+  normalisation?: Partial<Record<NormalisedInput, NormalisationStrategy>>; // Missing inputs use min-max
+}
+
+// How a set of scores was produced, kept with the results so different runs can be compared
+export interface ScoringMeta {
+  modelName: string;
+  weights: ScoringWeights;
+  normalisation: Record<NormalisedInput, NormalisationStrategy>;
+  companyCount: number;
+  scoredAt: number;
+}
+
+// One input behind a sub-score, as the engine saw it
+export interface ScoreContribution {
+  key: string;
+  label: string;
+  raw: number | string; // Underlying value, e.g. 4500000 or "Series A"
+  normalised: number; // 0-1
+  weight: number; // Share of the group after normalising weights (0-1)
+  contribution: number; // Points added to the sub-score (0-100)
+}
+
+export type ScoreBreakdown = Record<keyof ScoringWeights, ScoreContribution[]>;
+
 export interface AcquisitionStatus {
   isAcquiredOrClosed: boolean;
   label: string;
@@ -40,44 +82,125 @@ export interface ScoredCompany extends RawCompanyData {
     potential: number; // 0-100
     comprehensive: number; // 0-100
   };
-  themes: {
-    ai: boolean;
-    climate: boolean;
-    fintech: boolean;
-    healthcare: boolean;
-    saas: boolean;
-    consumer: boolean;
-  };
+  breakdown: ScoreBreakdown;
+  fundingUSD: number; // Total funding converted to USD, 0 when unknown
+  investors: string[]; // Resolved investor names (aliases applied, duplicates removed)
+  leadInvestors: string[]; // Resolved names from "Lead Investors" and the leads of any joined rounds
+  fundingTimeline?: FundingTimelineEntry[]; // Oldest first; only when a funding rounds file was joined
+  themes: string[]; // Ids of the matched ThemeDefinitions at or above the chosen confidence
+  themeMatches: ThemeMatch[]; // Every match, with its signals
   acquisitionStatus?: AcquisitionStatus;
   summary?: string; // AI Generated summary
 }
 
+// A peer from the local similarity index
+export interface SimilarCompany {
+  company: ScoredCompany;
+  similarity: number; // 0-1
+  sharedTerms: string[]; // Description words and industry tags that contributed most
+}
+
+export type Language = 'en' | 'fr';
+
+export interface ThemeKeywords {
+  include: string[]; // Whole-word, accent-insensitive keywords; a trailing * matches any ending (e.g. "genomic*")
+  exclude: string[]; // Any hit vetoes the theme
+}
+
+export interface ThemeDefinition extends ThemeKeywords {
+  id: string; // Stable across renames
+  name: string;
+  color: string; // Hex, e.g. #3b82f6
+  industries?: string[]; // Crunchbase "Industries" tags, whole tag and case-insensitive; a trailing * matches any ending
+  // Keywords for descriptions written in other languages; include/exclude above are English
+  localized?: Partial<Record<Language, ThemeKeywords>>;
+}
+
+export type ThemeConfidence = 'strong' | 'weak';
+
+// Why a company was tagged with a theme
+export interface ThemeMatch {
+  themeId: string;
+  confidence: ThemeConfidence;
+  score: number; // 0-1
+  industries: string[]; // Industry tags that matched
+  keywords: string[]; // Description keywords that matched
+}
+
+// Share (%) of companies founded that year matching each theme, keyed by theme id
 export interface ThemeTrend {
   year: number;
-  AI: number;
-  Climate: number;
-  Fintech: number;
-  Healthcare: number;
-  SaaS: number;
-  Consumer: number;
+  [themeId: string]: number;
 }
 
+// Whether an investor led the company's funding or followed someone else's lead
+export type InvestorRole = 'lead' | 'follow';
+
 export interface PortfolioItem {
   name: string;
-  themes: string[];
+  themes: string[]; // Theme ids
+  role: InvestorRole;
 }
 
+// Coarse stage from "Last Funding Type", for comparing investors' stage mix
+export type StageBucket = 'seed' | 'seriesA' | 'seriesB' | 'growth' | 'other';
+
 export interface InvestorStat {
   name: string;
   count: number;
-  topThemes: string[];
+  topThemes: string[]; // Theme ids
   portfolio: PortfolioItem[];
+  avgScore: number; // Mean comprehensive score of portfolio companies
+  medianScore: number;
+  exitShare: number; // 0-1, portfolio companies acquired or closed
+  leadCount: number; // Deals the investor led
+  leadShare: number; // 0-1, leadCount / count
+  stageMix: Record<StageBucket, number>; // Deals per stage
+  themeConcentration: number; // Herfindahl index of the portfolio's theme tags, 0-1 (1 = a single theme, 0 = no themes)
+}
+
+export type InvestorMetricKey = 'count' | 'leadCount' | 'avgScore' | 'medianScore' | 'exitShare' | 'leadShare' | 'themeConcentration' | `stage_${StageBucket}`;
+
+// User-confirmed investor merges, applied on top of the automatic ones (case, punctuation, legal suffixes)
+export interface InvestorAliasDictionary {
+  aliases: Record<string, string>; // investorKey of a variant -> canonical display name
+  dismissed: string[]; // Ids of suggestions the user rejected
+}
+
+export interface InvestorAliasSuggestion {
+  id: string;
+  from: string; // Less frequent name, proposed as the alias
+  to: string;
+  reason: 'generic_words' | 'spelling';
+  similarity: number; // 0-1
+  mentions: number; // Both names together, across the dataset
+}
+
+export interface CoInvestor {
+  name: string;
+  dealCount: number; // Companies in this dataset the investor backs
+  community: number; // Syndicate index from community detection, 0 = largest
+}
+
+// Two investors that backed the same companies
+export interface CoInvestmentEdge {
+  source: string; // Alphabetically first investor
+  target: string;
+  weight: number; // Number of shared portfolio companies
+  companies: string[];
+}
+
+export interface CoInvestmentGraph {
+  nodes: CoInvestor[]; // Most active first
+  edges: CoInvestmentEdge[]; // Heaviest first
 }
 
 export interface AnalysisState {
   companies: ScoredCompany[];
   trends: ThemeTrend[];
   investors: InvestorStat[];
+  network: CoInvestmentGraph;
+  meta?: ScoringMeta;
   isProcessing: boolean;
 }
 
@@ -90,3 +213,261 @@ export interface LiveIntelResult {
   markdown: string;
   sources: GroundingSource[];
 }
+
+export interface MemoSection {
+  key: string;
+  label: string;
+  value: string;
+}
+
+// AI output written from a prompt template, one section per output field in the template's order
+export interface AIMemo {
+  templateId: string;
+  templateName: string;
+  sections: MemoSection[];
+}
+
+export type AIProviderKind = 'gemini' | 'openai' | 'mock';
+
+export interface AIProviderSettings {
+  kind: AIProviderKind;
+  geminiModel: string;
+  openaiBaseUrl: string; // Any OpenAI-compatible server, e.g. Ollama at "http://localhost:11434/v1"
+  openaiModel: string;
+  openaiApiKey: string; // Optional; most local servers ignore it
+  requestsPerMinute: number;
+  maxConcurrentRequests: number;
+}
+
+export type AIErrorKind = 'rate_limited' | 'server' | 'network' | 'auth' | 'request' | 'bad_response' | 'config' | 'template';
+
+// A failed AI request, shown with a retry action instead of placeholder text
+export interface AIError {
+  kind: AIErrorKind;
+  message: string;
+}
+
+// One string field of a structured AI response
+export interface AIOutputField {
+  key: string;
+  description: string;
+}
+
+export type PromptTemplateKind = 'company' | 'investor';
+
+export interface PromptTemplateField extends AIOutputField {
+  label: string; // Card title in the memo panel
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  kind: PromptTemplateKind;
+  prompt: string; // Free text with {{variable}} placeholders bound to the company or investor
+  fields: PromptTemplateField[];
+  builtIn?: boolean;
+}
+
+// Every AI output produced during a session, keyed by company id or investor name
+export interface AIResults {
+  companyAnalyses: Record<string, AIMemo>;
+  companyIntel: Record<string, LiveIntelResult>;
+  investorAnalyses: Record<string, AIMemo>;
+  investorIntel: Record<string, LiveIntelResult>;
+}
+
+// Last failure per AI output slot; cleared when the output is produced
+export type AIErrors = { [K in keyof AIResults]: Record<string, AIError> };
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'skipped' | 'failed';
+
+export interface BatchItem {
+  id: string;
+  label: string;
+  status: BatchItemStatus;
+  error?: string;
+}
+
+export type BatchRunState = 'running' | 'paused' | 'finished' | 'cancelled';
+
+export interface BatchProgress {
+  items: BatchItem[];
+  state: BatchRunState;
+}
+
+export interface ChatToolCall {
+  id: string; // Pairs the call with its result; providers that don't send one get a generated id
+  name: string;
+  args: Record<string, unknown>;
+}
+
+// One message of a dataset conversation, in a shape every provider can replay
+export type ChatMessage =
+  | { role: 'user'; text: string }
+  | { role: 'assistant'; text: string; toolCalls?: ChatToolCall[] }
+  | { role: 'tool'; callId: string; name: string; content: string }; // content is the tool's JSON output
+
+// Rows another panel asked the company list to show, e.g. the companies behind a chat answer
+export interface CompanyFocus {
+  ids: string[];
+  label: string;
+  expandId?: string; // Row to open once the list is narrowed
+}
+
+export type CSVDiagnosticSeverity = 'warning' | 'error';
+
+export interface CSVDiagnostic {
+  line: number; // 1-based physical line where the record starts (header is line 1)
+  severity: CSVDiagnosticSeverity;
+  code: 'extra_cells' | 'missing_cells' | 'unterminated_quote' | 'stray_quote';
+  message: string;
+}
+
+export interface CSVParseResult {
+  headers: string[];
+  rows: Record<string, string>[];
+  rowLines: number[]; // Starting line of each entry in `rows`
+  diagnostics: CSVDiagnostic[];
+  delimiter: string;
+  rowsRead: number; // Data records seen, including rejected ones
+}
+
+export interface ImportIssue {
+  line: number;
+  reason: string;
+}
+
+export interface ImportReport {
+  fileName: string;
+  delimiter: string;
+  rowsRead: number;
+  rowsAccepted: number;
+  rejected: ImportIssue[];
+  warnings: ImportIssue[];
+  unrecognisedColumns: string[];
+  missingRequiredColumns: string[];
+  missingOptionalColumns: string[];
+}
+
+// Source column -> canonical RawCompanyData field ('' keeps the column under its own name)
+export type ColumnMapping = Record<string, string>;
+
+export interface MappingProfile {
+  name: string;
+  mapping: ColumnMapping;
+}
+
+// One row of a Crunchbase "Funding Rounds" export; money stays raw so it converts with the current FX rates
+export interface FundingRound {
+  organizationName: string;
+  organizationUrl?: string;
+  fundingType: string; // e.g. "Series A"
+  announcedDate?: string;
+  moneyRaised?: string;
+  moneyRaisedCurrency?: string;
+  moneyRaisedUSD?: string;
+  leadInvestors: string[];
+  investors: string[];
+}
+
+// A joined round as shown on the company's funding timeline
+export interface FundingTimelineEntry {
+  fundingType: string;
+  date?: number; // Epoch ms; undated rounds sort first
+  amountUSD: number; // 0 when undisclosed
+  leadInvestors: string[];
+  investors: string[];
+}
+
+export interface ParsedFile {
+  fileName: string;
+  result: CSVParseResult;
+  mapping: ColumnMapping;
+}
+
+export type ReportingCurrency = 'USD' | 'CAD';
+
+// Currency code -> value of one unit in USD
+export type FXRates = Record<string, number>;
+
+export interface MoneyValue {
+  amount: number;
+  currency?: string; // ISO code when a symbol or code was present in the text
+}
+
+// Which record's value wins when duplicate rows are merged
+export type MergeStrategy = 'preferFirst' | 'preferLatest' | 'preferMostComplete';
+
+export interface SourcedRecord {
+  fileName: string;
+  row: RawCompanyData;
+}
+
+export interface DuplicateGroup {
+  id: string;
+  reason: string;
+  members: number[]; // Indexes into the SourcedRecord list, in upload order
+}
+
+export interface DuplicateAnalysis {
+  matches: DuplicateGroup[]; // Confident matches, merged automatically
+  ambiguous: DuplicateGroup[]; // Possible matches the user has to confirm
+}
+
+export interface SessionSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  companyCount: number;
+  sourceFiles: string[];
+}
+
+// Everything needed to rebuild a dashboard without re-uploading or re-running AI calls
+export interface AnalysisSession extends SessionSummary {
+  rows: RawCompanyData[];
+  scoringModel: ScoringModel;
+  currency: ReportingCurrency;
+  fxRates: FXRates;
+  fundingRounds?: FundingRound[];
+  themes?: ThemeDefinition[]; // Absent in sessions saved before the taxonomy was editable
+  minThemeConfidence?: ThemeConfidence;
+  investorAliases?: InvestorAliasDictionary;
+  aiResults: AIResults;
+}
+
+export type ScoreKey = keyof ScoredCompany['scores'];
+
+export interface CompanyDelta {
+  key: string;
+  name: string;
+  before: ScoredCompany;
+  after: ScoredCompany;
+  rankBefore: number; // 1-based, by comprehensive score
+  rankAfter: number;
+  rankChange: number; // Positive when the company moved up
+  scoreDeltas: Record<ScoreKey, number>;
+  newFunding: boolean; // More rounds or a different "Last Funding Type"
+  statusChange?: AcquisitionStatus; // Set when the company became acquired or closed
+}
+
+export interface SnapshotDiff {
+  added: ScoredCompany[];
+  removed: ScoredCompany[];
+  changed: CompanyDelta[]; // Every company present in both snapshots
+}
+
+export type AnalysisStage = 'parsing' | 'scoring' | 'trends' | 'investors';
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  fraction?: number; // 0-1 within the stage, when known
+}
+
+export interface ProcessedData {
+  companies: ScoredCompany[];
+  trends: ThemeTrend[];
+  investors: InvestorStat[];
+  network: CoInvestmentGraph;
+  meta: ScoringMeta;
+}